@@ -391,6 +391,7 @@ export const AnnotationOverlay = ({
         />
         {/* Line connecting circle to text box */}
         <div
+          className="annotation-connector"
           style={{
             position: 'absolute',
             left: start.x,
@@ -481,6 +482,7 @@ export const AnnotationOverlay = ({
           
           {/* Text Box */}
           <div
+            className="annotation-comment"
             onMouseDown={(e) => {
               e.stopPropagation();
               setDragState({
@@ -14,9 +14,10 @@ import {
   SuggestionMenuController,
   useCreateBlockNote,
 } from "@blocknote/react";
-import { HiPencilAlt, HiPhotograph, HiSave, HiUpload, HiQuestionMarkCircle } from "react-icons/hi"; // drawing icon, save icon
+import { HiPencilAlt, HiPhotograph, HiUpload, HiQuestionMarkCircle, HiViewGrid } from "react-icons/hi"; // drawing icon, save icon
 import { Drawing } from "./Drawing.tsx"
 import { Image } from "./Image";
+import { Gallery } from "./Gallery";
 import { AnnotationOverlay } from "./AnnotationOverlay";
 import { Tutorial } from "./Tutorial";
 import { useState, useRef, useEffect } from "react";
@@ -25,6 +26,48 @@ import { OverlayToolbar } from "./OverlayToolbar";
 import { ScribbleOverlay } from "./ScribbleOverlay";
 import { initialContent } from "./initialContent";
 import { Tooltip } from "./Tooltip";
+import { loadSnapshot, markSessionClosed, markSessionOpen, saveSnapshot, wasLastSessionClean } from "./storage";
+import { captureScribbleLayer, restoreScribbleLayer, type ScribbleLayer } from "./scribbleLayer";
+import { PageSidebar } from "./PageSidebar";
+import { createNotesFile, readNotesFile, type NotesContent } from "./notesFile";
+import { bundleAssets, collectGarbageAssets, importAssets, moveInlineImagesToAssets } from "./assets";
+import { countUnappliedRedactions } from "./redaction";
+import { formatValidationIssues, validateNotesContent, type BlockSchemaLike } from "./notesSchema";
+import { exportMarkdownBundle, toFileName } from "./markdownExport";
+import { ExportMenu } from "./ExportMenu";
+import {
+  formatBytes,
+  getImageBlockProps,
+  ingestImageFile,
+  loadIngestSettings,
+  subscribeToIngestReports,
+  withoutFullSizeImages,
+  type IngestResult
+} from "./imageIngest";
+import { ImageSettingsMenu } from "./ImageSettingsMenu";
+import { exportStandaloneHtml } from "./htmlExport";
+import { printNotes, type PaperSize } from "./print";
+import "./print.css";
+import { getImportFormat, importDocumentBlocks, type ImportFormat } from "./documentImport";
+import { ImportDialog, type ImportMode } from "./ImportDialog";
+import {
+  addPage,
+  createNotebook,
+  createPage,
+  createWorkspace,
+  deletePage,
+  duplicatePage,
+  getActiveNotebook,
+  getActivePage,
+  getPageSubtree,
+  indentPage,
+  movePage,
+  outdentPage,
+  updateNotebook,
+  updatePage,
+  type Page,
+  type Workspace,
+} from "./notebooks";
 
 // Custom "Drawing Block" menu item
 const insertDrawingBlockItem = (editor: BlockNoteEditor) => ({
@@ -53,10 +96,24 @@ const insertImageBlockItem = (editor: BlockNoteEditor) => ({
   subtext: "Insert an annotatable image block",
 });
 
+const insertGalleryBlockItem = (editor: BlockNoteEditor) => ({
+  title: "Insert Gallery Block",
+  onItemClick: () =>
+    insertOrUpdateBlock(editor, {
+      type: "gallery",
+      props: {},
+    } as unknown as PartialBlock),
+  aliases: ["gallery", "compare", "before after", "carousel"],
+  group: "Other",
+  icon: <HiViewGrid size={18} />,
+  subtext: "Insert several annotatable images in a grid, carousel or comparison",
+});
+
 // List containing all default Slash Menu Items, as well as our custom one.
 const getCustomSlashMenuItems = (editor: BlockNoteEditor) => [
   insertDrawingBlockItem(editor),
   insertImageBlockItem(editor),
+  insertGalleryBlockItem(editor),
   ...getDefaultReactSlashMenuItems(editor).filter(item =>
     !["Image", "Video", "Audio", "File", "Emoji"].includes(item.title))
 ];
@@ -69,7 +126,8 @@ const schema = BlockNoteSchema.create({
   blockSpecs: {
     ...filteredSpecs,
     drawing: Drawing,
-    imageUpload: Image
+    imageUpload: Image,
+    gallery: Gallery
   } as any
 });
 
@@ -82,6 +140,53 @@ interface Annotation {
   blockId?: string;
 }
 
+// Autosave written before notes were split into pages
+interface SessionSnapshot {
+  blocks: any[];
+  annotations: Annotation[];
+  textboxes: any[];
+  scribbleLayer: ScribbleLayer | null;
+  savedAt: number;
+}
+
+// Everything needed to bring the notes back after a reload
+interface WorkspaceSnapshot {
+  workspace: Workspace;
+  savedAt: number;
+}
+
+const SESSION_SNAPSHOT_KEY = 'session';
+const WORKSPACE_SNAPSHOT_KEY = 'workspace';
+const AUTOSAVE_DELAY_MS = 1000;
+
+const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+};
+
+const createInitialWorkspace = () =>
+  createWorkspace(createNotebook('My Notebook', createPage('Welcome to Notate', null, initialContent as any[])));
+
+// Notes autosaved before pages existed become the only page of a notebook
+const loadLegacySession = async (): Promise<WorkspaceSnapshot | null> => {
+  const session = await loadSnapshot<SessionSnapshot>(SESSION_SNAPSHOT_KEY);
+  if (!session) return null;
+
+  const page: Page = {
+    ...createPage('My Notes', null, session.blocks),
+    annotations: session.annotations || [],
+    textboxes: session.textboxes || [],
+    scribbleLayer: session.scribbleLayer
+  };
+  return { workspace: createWorkspace(createNotebook('My Notebook', page)), savedAt: session.savedAt };
+};
+
 function App() {
   const editor = useCreateBlockNote({ 
     schema,
@@ -91,7 +196,291 @@ function App() {
   const [textboxes, setTextboxes] = useState<any[]>([]);
   const [mode, setMode] = useState<'comment-mode' | 'textbox-mode' | 'scribble-mode' | 'no-annotation-mode'>('no-annotation-mode');
   const [showTutorial, setShowTutorial] = useState(false);
+  const [isRestoring, setIsRestoring] = useState(true);
+  const [workspace, setWorkspace] = useState<Workspace>(createInitialWorkspace);
+  const [pendingImport, setPendingImport] = useState<{ file: File; format: ImportFormat; localFiles: File[] } | null>(null);
+  // Size saved on the image that was just pasted, shown for a few seconds
+  const [ingestReport, setIngestReport] = useState<IngestResult | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const annotationsRef = useRef(annotations);
+  const textboxesRef = useRef(textboxes);
+  const workspaceRef = useRef(workspace);
+  // True while the editor is being filled with a page, so half-loaded content is never saved
+  const isLoadingPageRef = useRef(true);
+  const hasStartedRestore = useRef(false);
+  const autosaveTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+  annotationsRef.current = annotations;
+  textboxesRef.current = textboxes;
+
+  // Fold the live editor and overlay contents into the active page
+  const captureActivePage = (ws: Workspace): Workspace =>
+    updateNotebook(ws, ws.activeNotebookId, notebook =>
+      updatePage(notebook, ws.activePageId, {
+        blocks: editor.document,
+        annotations: annotationsRef.current,
+        textboxes: textboxesRef.current,
+        scribbleLayer: captureScribbleLayer()
+      })
+    );
+
+  // Resolves to whether the workspace made it into storage
+  const saveSession = async () => {
+    if (autosaveTimer.current) {
+      clearTimeout(autosaveTimer.current);
+      autosaveTimer.current = null;
+    }
+    if (isLoadingPageRef.current) return false;
+
+    // Only the ref is updated; the sidebar doesn't render page contents
+    workspaceRef.current = captureActivePage(workspaceRef.current);
+    const snapshot: WorkspaceSnapshot = {
+      workspace: workspaceRef.current,
+      savedAt: Date.now()
+    };
+
+    try {
+      await saveSnapshot(WORKSPACE_SNAPSHOT_KEY, snapshot);
+      return true;
+    } catch (error) {
+      console.error("Error autosaving notes:", error);
+      return false;
+    }
+  };
+
+  // Debounce saves so a burst of edits results in a single write
+  const scheduleAutosave = () => {
+    if (isLoadingPageRef.current) return;
+    if (autosaveTimer.current) {
+      clearTimeout(autosaveTimer.current);
+    }
+    autosaveTimer.current = setTimeout(saveSession, AUTOSAVE_DELAY_MS);
+  };
+
+  const updateWorkspace = (next: Workspace) => {
+    workspaceRef.current = next;
+    setWorkspace(next);
+    scheduleAutosave();
+  };
+
+  // Load a page's contents into the editor and overlays
+  const showPage = async (page: Page) => {
+    isLoadingPageRef.current = true;
+    try {
+      // Pages saved before the asset store existed still carry their images inline
+      const blocks = await moveInlineImagesToAssets(page.blocks);
+      editor.replaceBlocks(editor.document, blocks.length > 0 ? blocks : [{ type: 'paragraph' }]);
+      annotationsRef.current = page.annotations;
+      textboxesRef.current = page.textboxes;
+      setAnnotations(page.annotations);
+      setTextboxes(page.textboxes);
+      await restoreScribbleLayer(page.scribbleLayer);
+    } catch (error) {
+      console.error("Error loading page:", error);
+    }
+    isLoadingPageRef.current = false;
+  };
+
+  const switchToPage = async (next: Workspace) => {
+    updateWorkspace(next);
+    await showPage(getActivePage(next));
+  };
+
+  const handleSelectPage = (pageId: string) => {
+    if (pageId === workspaceRef.current.activePageId) return;
+    switchToPage({ ...captureActivePage(workspaceRef.current), activePageId: pageId });
+  };
+
+  const handleCreatePage = (parentId: string | null) => {
+    const captured = captureActivePage(workspaceRef.current);
+    const page = createPage('Untitled', parentId);
+    const next = updateNotebook(captured, captured.activeNotebookId, notebook => addPage(notebook, page));
+    switchToPage({ ...next, activePageId: page.id });
+  };
+
+  const handleRenamePage = (pageId: string, title: string) => {
+    const ws = workspaceRef.current;
+    updateWorkspace(updateNotebook(ws, ws.activeNotebookId, notebook => updatePage(notebook, pageId, { title })));
+  };
+
+  const handleDuplicatePage = (pageId: string) => {
+    const captured = captureActivePage(workspaceRef.current);
+    const { notebook, copyId } = duplicatePage(getActiveNotebook(captured), pageId);
+    const next = updateNotebook(captured, notebook.id, () => notebook);
+    switchToPage({ ...next, activePageId: copyId });
+  };
+
+  const handleMovePage = (pageId: string, direction: 'up' | 'down') => {
+    const ws = workspaceRef.current;
+    updateWorkspace(updateNotebook(ws, ws.activeNotebookId, notebook => movePage(notebook, pageId, direction)));
+  };
+
+  const handleIndentPage = (pageId: string) => {
+    const ws = workspaceRef.current;
+    updateWorkspace(updateNotebook(ws, ws.activeNotebookId, notebook => indentPage(notebook, pageId)));
+  };
+
+  const handleOutdentPage = (pageId: string) => {
+    const ws = workspaceRef.current;
+    updateWorkspace(updateNotebook(ws, ws.activeNotebookId, notebook => outdentPage(notebook, pageId)));
+  };
+
+  const handleDeletePage = (pageId: string) => {
+    const ws = workspaceRef.current;
+    const notebook = getActiveNotebook(ws);
+    const subtree = getPageSubtree(notebook, pageId);
+    const page = subtree[0];
+    if (!page) return;
+
+    const message = subtree.length > 1
+      ? `Delete "${page.title}" and its ${subtree.length - 1} subpage(s)? This cannot be undone.`
+      : `Delete "${page.title}"? This cannot be undone.`;
+    if (!window.confirm(message)) return;
+
+    let remaining = deletePage(notebook, pageId);
+    // A notebook always keeps at least one page
+    if (remaining.pages.length === 0) {
+      remaining = addPage(remaining, createPage());
+    }
+    const next = updateNotebook(ws, notebook.id, () => remaining);
+
+    if (subtree.some(p => p.id === ws.activePageId)) {
+      // Fall back to the closest page above the deleted one
+      const index = notebook.pages.indexOf(page);
+      const fallback = notebook.pages.slice(0, index).reverse().find(p => remaining.pages.includes(p)) ?? remaining.pages[0];
+      switchToPage({ ...next, activePageId: fallback.id });
+    } else {
+      updateWorkspace(next);
+    }
+  };
+
+  const handleSelectNotebook = (notebookId: string) => {
+    if (notebookId === workspaceRef.current.activeNotebookId) return;
+    const captured = captureActivePage(workspaceRef.current);
+    const notebook = captured.notebooks.find(nb => nb.id === notebookId);
+    if (!notebook) return;
+    switchToPage({ ...captured, activeNotebookId: notebook.id, activePageId: notebook.pages[0].id });
+  };
+
+  const handleCreateNotebook = () => {
+    const title = window.prompt('Name the new notebook:', 'Untitled Notebook');
+    if (title === null) return;
+    const captured = captureActivePage(workspaceRef.current);
+    const notebook = createNotebook(title.trim() || 'Untitled Notebook');
+    switchToPage({
+      notebooks: [...captured.notebooks, notebook],
+      activeNotebookId: notebook.id,
+      activePageId: notebook.pages[0].id
+    });
+  };
+
+  const handleRenameNotebook = (notebookId: string) => {
+    const ws = workspaceRef.current;
+    const notebook = ws.notebooks.find(nb => nb.id === notebookId);
+    if (!notebook) return;
+    const title = window.prompt('Rename notebook:', notebook.title);
+    if (!title?.trim()) return;
+    updateWorkspace(updateNotebook(ws, notebookId, nb => ({ ...nb, title: title.trim() })));
+  };
+
+  const handleDeleteNotebook = (notebookId: string) => {
+    const ws = workspaceRef.current;
+    const notebook = ws.notebooks.find(nb => nb.id === notebookId);
+    if (!notebook) return;
+    if (ws.notebooks.length === 1) {
+      alert('You need at least one notebook. Create another notebook before deleting this one.');
+      return;
+    }
+    if (!window.confirm(`Delete the notebook "${notebook.title}" and all of its pages? This cannot be undone.`)) return;
+
+    const notebooks = ws.notebooks.filter(nb => nb.id !== notebookId);
+    if (notebookId === ws.activeNotebookId) {
+      switchToPage({ notebooks, activeNotebookId: notebooks[0].id, activePageId: notebooks[0].pages[0].id });
+    } else {
+      updateWorkspace({ ...ws, notebooks });
+    }
+  };
+
+  // Restore the last autosaved workspace instead of the welcome content
+  useEffect(() => {
+    if (hasStartedRestore.current) return;
+    hasStartedRestore.current = true;
+
+    const restoreSession = async () => {
+      const lastSessionWasClean = wasLastSessionClean();
+      markSessionOpen();
+
+      try {
+        const snapshot = await loadSnapshot<WorkspaceSnapshot>(WORKSPACE_SNAPSHOT_KEY) ?? await loadLegacySession();
+        const shouldRestore = snapshot && (
+          lastSessionWasClean ||
+          window.confirm(
+            `Notate did not shut down cleanly last time. Recover the notes autosaved at ${new Date(snapshot.savedAt).toLocaleString()}?`
+          )
+        );
+
+        if (snapshot && shouldRestore) {
+          workspaceRef.current = snapshot.workspace;
+          setWorkspace(snapshot.workspace);
+          await showPage(getActivePage(snapshot.workspace));
+        }
+
+        // The snapshot is kept even if recovery was declined, so its images are too
+        collectGarbageAssets([snapshot, workspaceRef.current])
+          .catch(error => console.error("Error clearing unused images:", error));
+      } catch (error) {
+        console.error("Error restoring autosaved notes:", error);
+      }
+
+      isLoadingPageRef.current = false;
+      setIsRestoring(false);
+    };
+
+    restoreSession();
+  }, [editor]);
+
+  // Flush pending changes and record a clean shutdown when the page goes away. The
+  // shutdown only counts as clean once the save has landed; if the page is unloaded
+  // first, the next start offers to recover the last autosave instead
+  useEffect(() => {
+    let isHidden = false;
+
+    const handlePageHide = async () => {
+      isHidden = true;
+      if (isLoadingPageRef.current) return;
+      // A page back from the back/forward cache before the save finished is open again
+      if (await saveSession() && isHidden) markSessionClosed();
+    };
+
+    // Pages restored from the back/forward cache are open again without a fresh start
+    const handlePageShow = (event: PageTransitionEvent) => {
+      isHidden = false;
+      if (event.persisted) markSessionOpen();
+    };
+
+    window.addEventListener('pagehide', handlePageHide);
+    window.addEventListener('pageshow', handlePageShow);
+    return () => {
+      window.removeEventListener('pagehide', handlePageHide);
+      window.removeEventListener('pageshow', handlePageShow);
+    };
+  }, [editor]);
+
+  useEffect(() => {
+    scheduleAutosave();
+  }, [annotations, textboxes]);
+
+  useEffect(() => {
+    let hideTimeout: ReturnType<typeof setTimeout> | undefined;
+    const unsubscribe = subscribeToIngestReports(report => {
+      setIngestReport(report);
+      clearTimeout(hideTimeout);
+      hideTimeout = setTimeout(() => setIngestReport(null), 4000);
+    });
+    return () => {
+      unsubscribe();
+      clearTimeout(hideTimeout);
+    };
+  }, []);
 
   // Add clipboard paste handler
   useEffect(() => {
@@ -105,8 +494,8 @@ function App() {
       if (imageItem) {
         // Check if we're pasting onto an imageUpload block
         const currentBlock = editor.getTextCursorPosition()?.block;
-        if (currentBlock?.type === 'imageUpload') {
-          // Let the imageUpload block handle it
+        if (currentBlock?.type === 'imageUpload' || currentBlock?.type === 'gallery') {
+          // Let the imageUpload or gallery block handle it
           return;
         }
 
@@ -115,69 +504,16 @@ function App() {
         if (!blob) return;
 
         try {
-          // Create a promise to handle the image loading
-          const dataUrl = await new Promise<string>((resolve, reject) => {
-            const reader = new FileReader();
-            const timeoutId = setTimeout(() => {
-              reject(new Error("File reading timed out"));
-            }, 5000); // 5 second timeout
-
-            reader.onload = () => {
-              clearTimeout(timeoutId);
-              if (typeof reader.result === 'string') {
-                resolve(reader.result);
-              } else {
-                reject(new Error("Invalid file data"));
-              }
-            };
-            reader.onerror = () => {
-              clearTimeout(timeoutId);
-              reject(reader.error);
-            };
-            reader.readAsDataURL(blob);
-          });
-
-          // Validate the image before inserting
-          await new Promise<void>((resolve, reject) => {
-            const img = document.createElement('img');
-            const timeoutId = setTimeout(() => {
-              reject(new Error("Image loading timed out"));
-            }, 10000); // 10 second timeout
-
-            img.onload = () => {
-              clearTimeout(timeoutId);
-              // Get the current block
-              const currentBlock = editor.getTextCursorPosition()?.block;
-              if (!currentBlock) {
-                reject(new Error("No current block found"));
-                return;
-              }
-
-              // Create and insert the image upload block with a slight delay
-              setTimeout(() => {
-                editor.insertBlocks(
-                  [{
-                    type: "imageUpload",
-                    props: {
-                      src: dataUrl,
-                      width: img.naturalWidth,
-                      height: img.naturalHeight
-                    }
-                  } as unknown as PartialBlock],
-                  currentBlock,
-                  "after"
-                );
-                resolve();
-              }, 100);
-            };
-
-            img.onerror = () => {
-              clearTimeout(timeoutId);
-              reject(new Error("Failed to load image"));
-            };
-
-            img.src = dataUrl;
-          });
+          const image = await ingestImageFile(blob);
+          // Get the current block
+          const currentBlock = editor.getTextCursorPosition()?.block;
+          if (!currentBlock) throw new Error("No current block found");
+
+          editor.insertBlocks(
+            [{ type: "imageUpload", props: getImageBlockProps(image) } as unknown as PartialBlock],
+            currentBlock,
+            "after"
+          );
         } catch (error) {
           console.error("Error processing pasted image:", error);
           // You might want to show a toast or some UI feedback here
@@ -229,8 +565,8 @@ function App() {
       if (!targetBlock) return;
 
       // Check if we're dropping onto an imageUpload block
-      if (targetBlock.type === 'imageUpload') {
-        // Let the imageUpload block handle it
+      if (targetBlock.type === 'imageUpload' || targetBlock.type === 'gallery') {
+        // Let the imageUpload or gallery block handle it
         return;
       }
 
@@ -243,67 +579,17 @@ function App() {
         const file = imageItem.getAsFile();
         if (file) {
           try {
-            // Create a promise to handle the image loading
-            const dataUrl = await new Promise<string>((resolve, reject) => {
-              const reader = new FileReader();
-              const timeoutId = setTimeout(() => {
-                reject(new Error("File reading timed out"));
-              }, 5000); // 5 second timeout
-
-              reader.onload = () => {
-                clearTimeout(timeoutId);
-                if (typeof reader.result === 'string') {
-                  resolve(reader.result);
-                } else {
-                  reject(new Error("Invalid file data"));
-                }
-              };
-              reader.onerror = () => {
-                clearTimeout(timeoutId);
-                reject(reader.error);
-              };
-              reader.readAsDataURL(file);
-            });
-
-            // Validate the image before inserting
-            await new Promise<void>((resolve, reject) => {
-              const img = document.createElement('img');
-              const timeoutId = setTimeout(() => {
-                reject(new Error("Image loading timed out"));
-              }, 10000); // 10 second timeout
-
-              img.onload = () => {
-                clearTimeout(timeoutId);
-                // Get the drop position relative to the target block
-                const blockElement = blockElements[blocks.indexOf(targetBlock)];
-                const blockRect = blockElement.getBoundingClientRect();
-                const dropPosition = dropY > blockRect.top + blockRect.height / 2 ? "after" : "before";
-
-                // Insert the block with a slight delay
-                setTimeout(() => {
-                  editor.insertBlocks(
-                    [{
-                      type: "imageUpload",
-                      props: {
-                        src: dataUrl,
-                        width: img.naturalWidth,
-                        height: img.naturalHeight
-                      }
-                    } as unknown as PartialBlock],
-                    targetBlock,
-                    dropPosition
-                  );
-                  resolve();
-                }, 100);
-              };
-
-              img.onerror = () => {
-                clearTimeout(timeoutId);
-                reject(new Error("Failed to load image"));
-              };
-
-              img.src = dataUrl;
-            });
+            const image = await ingestImageFile(file);
+            // Get the drop position relative to the target block
+            const blockElement = blockElements[blocks.indexOf(targetBlock)];
+            const blockRect = blockElement.getBoundingClientRect();
+            const dropPosition = dropY > blockRect.top + blockRect.height / 2 ? "after" : "before";
+
+            editor.insertBlocks(
+              [{ type: "imageUpload", props: getImageBlockProps(image) } as unknown as PartialBlock],
+              targetBlock,
+              dropPosition
+            );
           } catch (error) {
             console.error("Error processing dropped image:", error);
             // You might want to show a toast or some UI feedback here
@@ -316,67 +602,17 @@ function App() {
       const imageFile = files.find(file => file.type.startsWith('image/'));
       if (imageFile) {
         try {
-          // Create a promise to handle the image loading
-          const dataUrl = await new Promise<string>((resolve, reject) => {
-            const reader = new FileReader();
-            const timeoutId = setTimeout(() => {
-              reject(new Error("File reading timed out"));
-            }, 5000); // 5 second timeout
-
-            reader.onload = () => {
-              clearTimeout(timeoutId);
-              if (typeof reader.result === 'string') {
-                resolve(reader.result);
-              } else {
-                reject(new Error("Invalid file data"));
-              }
-            };
-            reader.onerror = () => {
-              clearTimeout(timeoutId);
-              reject(reader.error);
-            };
-            reader.readAsDataURL(imageFile);
-          });
-
-          // Validate the image before inserting
-          await new Promise<void>((resolve, reject) => {
-            const img = document.createElement('img');
-            const timeoutId = setTimeout(() => {
-              reject(new Error("Image loading timed out"));
-            }, 10000); // 10 second timeout
-
-            img.onload = () => {
-              clearTimeout(timeoutId);
-              // Get the drop position relative to the target block
-              const blockElement = blockElements[blocks.indexOf(targetBlock)];
-              const blockRect = blockElement.getBoundingClientRect();
-              const dropPosition = dropY > blockRect.top + blockRect.height / 2 ? "after" : "before";
-
-              // Insert the block with a slight delay
-              setTimeout(() => {
-                editor.insertBlocks(
-                  [{
-                    type: "imageUpload",
-                    props: {
-                      src: dataUrl,
-                      width: img.naturalWidth,
-                      height: img.naturalHeight
-                    }
-                  } as unknown as PartialBlock],
-                  targetBlock,
-                  dropPosition
-                );
-                resolve();
-              }, 100);
-            };
-
-            img.onerror = () => {
-              clearTimeout(timeoutId);
-              reject(new Error("Failed to load image"));
-            };
-
-            img.src = dataUrl;
-          });
+          const image = await ingestImageFile(imageFile);
+          // Get the drop position relative to the target block
+          const blockElement = blockElements[blocks.indexOf(targetBlock)];
+          const blockRect = blockElement.getBoundingClientRect();
+          const dropPosition = dropY > blockRect.top + blockRect.height / 2 ? "after" : "before";
+
+          editor.insertBlocks(
+            [{ type: "imageUpload", props: getImageBlockProps(image) } as unknown as PartialBlock],
+            targetBlock,
+            dropPosition
+          );
         } catch (error) {
           console.error("Error processing dropped image file:", error);
           // You might want to show a toast or some UI feedback here
@@ -479,170 +715,199 @@ function App() {
     return mode === modeToCheck;
   };
 
-  const handleExport = async () => {
-    // Get all drawing blocks and their canvas data
-    const drawingBlocks = editor.document.filter(block => block.type === 'drawing');
-
-    // Get scribble overlay canvas data
-    const scribbleCanvas = document.querySelector('.blocknote-container > div > canvas') as HTMLCanvasElement;
-    let scribbleData = null;
-    if (scribbleCanvas) {
-      const ctx = scribbleCanvas.getContext('2d');
-      if (ctx) {
-        const imageData = ctx.getImageData(0, 0, scribbleCanvas.width, scribbleCanvas.height);
-        const editorContainer = document.querySelector('.blocknote-container') as HTMLElement;
-        const editorRect = editorContainer?.getBoundingClientRect();
-        
-        // Store the original canvas style dimensions
-        const originalWidth = scribbleCanvas.style.width;
-        const originalHeight = scribbleCanvas.style.height;
-        const originalTransform = scribbleCanvas.style.transform;
-        
-        scribbleData = {
-          width: scribbleCanvas.width,
-          height: scribbleCanvas.height,
-          styleWidth: originalWidth,
-          styleHeight: originalHeight,
-          transform: originalTransform,
-          pixelData: Array.from(imageData.data),
-          viewport: {
-            scrollHeight: document.documentElement.scrollHeight,
-            scrollWidth: document.documentElement.scrollWidth,
-            clientHeight: document.documentElement.clientHeight,
-            clientWidth: document.documentElement.clientWidth,
-            editorHeight: editorRect?.height || 0,
-            editorWidth: editorRect?.width || 0,
-            devicePixelRatio: window.devicePixelRatio
-          }
-        };
-      }
-    }
+  // Unapplied redaction marks are only a preview, so what they cover is still in the image
+  const confirmUnappliedRedactions = () => {
+    const count = countUnappliedRedactions(editor.document);
+    return count === 0 || window.confirm(
+      `${count} image(s) on this page have redaction marks that haven't been applied, so the parts they cover can still be seen in the export.\n\n` +
+      'To hide them for good, choose "Apply" in the image\'s redact tool first. Export anyway?'
+    );
+  };
 
-    const data = {
-      blocks: editor.document,
+  const handleExport = async () => {
+    if (!confirmUnappliedRedactions()) return;
+    // Full-size copies of downscaled images stay in this browser unless the settings say otherwise
+    const content: NotesContent = {
+      blocks: loadIngestSettings().exportOriginals ? editor.document : withoutFullSizeImages(editor.document),
       annotations,
       textboxes,
-      drawingData: drawingBlocks.map(block => {
-        const blockElement = document.querySelector(`.bn-block[data-id="${block.id}"]`);
-        const canvas = blockElement?.querySelector('canvas') as HTMLCanvasElement;
-        if (!canvas) return null;
-
-        const ctx = canvas.getContext('2d');
-        if (!ctx) return null;
-
-        const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
-        return {
-          blockId: block.id,
-          width: canvas.width,
-          height: canvas.height,
-          pixelData: Array.from(imageData.data)
-        };
-      }).filter(Boolean),
-      scribbleData
+      scribbleLayer: captureScribbleLayer()
     };
+    const notesFile = createNotesFile(getActivePage(workspaceRef.current).title, content, await bundleAssets(content.blocks));
+
+    downloadBlob(new Blob([JSON.stringify(notesFile)], { type: 'application/json' }), 'notes.json');
+  };
+
+  const handleExportMarkdown = async () => {
+    if (!confirmUnappliedRedactions()) return;
+    const title = getActivePage(workspaceRef.current).title;
+    const bundle = await exportMarkdownBundle(editor, title, annotations);
+    downloadBlob(bundle, `${toFileName(title)}.zip`);
+  };
 
-    const blob = new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = 'notes.json';
-    document.body.appendChild(a);
-    a.click();
-    document.body.removeChild(a);
-    URL.revokeObjectURL(url);
+  const handleExportHtml = async () => {
+    if (!confirmUnappliedRedactions()) return;
+    const title = getActivePage(workspaceRef.current).title;
+    const html = await exportStandaloneHtml(title);
+    downloadBlob(new Blob([html], { type: 'text/html' }), `${toFileName(title)}.html`);
+  };
+
+  const handlePrint = (paper: PaperSize) => {
+    if (!confirmUnappliedRedactions()) return;
+    printNotes(paper, annotations, textboxes.length > 0);
   };
 
   const handleImport = (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0];
-    if (!file) return;
+    const files = Array.from(event.target.files || []);
+    event.target.value = '';
+    // Images picked together with a Markdown or HTML file fill in its relative image paths
+    const file = files.find(f => getImportFormat(f.name));
+    if (!file) {
+      if (files.length > 0) {
+        alert('Please choose a Notate notes file (.json), a Markdown file (.md) or an HTML file (.html).');
+      }
+      return;
+    }
+    setPendingImport({ file, format: getImportFormat(file.name)!, localFiles: files.filter(f => f !== file) });
+  };
 
-    if (!window.confirm('Importing a file will replace all existing content. Are you sure you want to continue?')) {
-      event.target.value = '';
+  const applyImport = async (mode: ImportMode, content: Partial<NotesContent> & { blocks: any[] }, title: string) => {
+    const blocks = await moveInlineImagesToAssets(content.blocks);
+    if (mode === 'append') {
+      editor.insertBlocks(blocks, editor.document[editor.document.length - 1], 'after');
       return;
     }
 
-    const reader = new FileReader();
-    reader.onload = (e) => {
-      try {
-        const data = JSON.parse(e.target?.result as string);
-
-        if (data.blocks) {
-          editor.replaceBlocks(editor.document, data.blocks);
-          
-          // Wait for blocks to be rendered before restoring annotations
-          const observer = new MutationObserver((_, obs) => {
-            const editorElement = document.querySelector('.blocknote-editor');
-            if (!editorElement) return;
-
-            // Restore annotations and textboxes
-            if (data.annotations) setAnnotations(data.annotations);
-            if (data.textboxes) setTextboxes(data.textboxes);
-            
-            // Restore drawing data
-            if (data.drawingData) {
-              data.drawingData.forEach((drawing: any) => {
-                const blockElement = document.querySelector(`.bn-block[data-id="${drawing.blockId}"]`);
-                const canvas = blockElement?.querySelector('canvas') as HTMLCanvasElement;
-                if (!canvas || !drawing.pixelData) return;
-
-                canvas.width = drawing.width;
-                canvas.height = drawing.height;
-                
-                const ctx = canvas.getContext('2d');
-                if (!ctx) return;
-
-                const imageData = new ImageData(
-                  new Uint8ClampedArray(drawing.pixelData),
-                  drawing.width,
-                  drawing.height
-                );
-                ctx.putImageData(imageData, 0, 0);
-              });
-            }
-
-            // Restore scribble overlay data
-            if (data.scribbleData) {
-              const scribbleCanvas = document.querySelector('.blocknote-container > div > canvas') as HTMLCanvasElement;
-              if (scribbleCanvas && data.scribbleData.pixelData) {
-                // Set the canvas dimensions and styles
-                scribbleCanvas.width = data.scribbleData.width;
-                scribbleCanvas.height = data.scribbleData.height;
-                if (data.scribbleData.styleWidth) scribbleCanvas.style.width = data.scribbleData.styleWidth;
-                if (data.scribbleData.styleHeight) scribbleCanvas.style.height = data.scribbleData.styleHeight;
-                if (data.scribbleData.transform) scribbleCanvas.style.transform = data.scribbleData.transform;
-
-                const ctx = scribbleCanvas.getContext('2d');
-                if (ctx) {
-                  const imageData = new ImageData(
-                    new Uint8ClampedArray(data.scribbleData.pixelData),
-                    data.scribbleData.width,
-                    data.scribbleData.height
-                  );
-                  ctx.putImageData(imageData, 0, 0);
-                }
-              }
-            }
+    const pageContent = {
+      blocks,
+      annotations: content.annotations || [],
+      textboxes: content.textboxes || [],
+      scribbleLayer: content.scribbleLayer || null
+    };
+    if (mode === 'replace') {
+      await showPage({ ...getActivePage(workspaceRef.current), ...pageContent });
+      scheduleAutosave();
+      return;
+    }
 
-            obs.disconnect();
-            alert('Notes imported successfully!');
-          });
+    const captured = captureActivePage(workspaceRef.current);
+    const page: Page = { ...createPage(title), ...pageContent };
+    const next = updateNotebook(captured, captured.activeNotebookId, notebook => addPage(notebook, page));
+    await switchToPage({ ...next, activePageId: page.id });
+  };
 
-          observer.observe(document.body, {
-            childList: true,
-            subtree: true
-          });
+  const runImport = async (mode: ImportMode) => {
+    if (!pendingImport) return;
+    const { file, format, localFiles } = pendingImport;
+    setPendingImport(null);
+    const title = file.name.replace(/\.[^.]+$/, '') || 'Imported notes';
+
+    try {
+      const text = await file.text();
+
+      if (format === 'notes') {
+        // Reads both the current format and older exports with raw pixel arrays
+        const { content, assets, issues } = readNotesFile(
+          JSON.parse(text),
+          editor.schema.blockSchema as unknown as BlockSchemaLike
+        );
+        if (!content) {
+          alert(`This file can't be imported:\n\n${formatValidationIssues(issues)}`);
+          return;
         }
-      } catch (error) {
-        console.error('Error importing file:', error);
-        alert('Error importing file. Please make sure it is a valid JSON file.');
+        if (issues.length > 0 && !window.confirm(
+          `Some parts of this file are invalid and will be skipped:\n\n${formatValidationIssues(issues)}\n\nImport the remaining notes?`
+        )) {
+          return;
+        }
+        await importAssets(assets);
+        await applyImport(mode, content, title);
+        alert('Notes imported successfully!');
+        return;
       }
-    };
-    reader.readAsText(file);
+
+      const parsed = await importDocumentBlocks(editor, text, format, localFiles);
+      // Parsed documents can carry the same unsafe links and props as a notes file
+      const { content, issues } = validateNotesContent(
+        { blocks: parsed.blocks },
+        editor.schema.blockSchema as unknown as BlockSchemaLike
+      );
+      const { blocks } = content;
+      if (blocks.length === 0) {
+        alert("There is nothing to import: the file doesn't contain any text or images.");
+        return;
+      }
+      if (issues.length > 0 && !window.confirm(
+        `Some parts of this file are invalid and will be skipped:\n\n${formatValidationIssues(issues)}\n\nImport the remaining notes?`
+      )) {
+        return;
+      }
+      await applyImport(mode, { blocks }, title);
+      const { missingImages } = parsed;
+      if (missingImages.length > 0) {
+        alert(
+          `Notes imported, but ${missingImages.length} image(s) could not be loaded:\n\n` +
+          `${missingImages.slice(0, 8).map(src => `• ${src}`).join('\n')}\n\n` +
+          'Web images that could not be downloaded are linked instead. ' +
+          'To include images stored next to the file, select them together with the file when importing.'
+        );
+      } else {
+        alert('Notes imported successfully!');
+      }
+    } catch (error) {
+      console.error('Error importing file:', error);
+      alert('Error importing file. Please make sure it is a valid notes, Markdown or HTML file.');
+    }
   };
 
   return (
     <div className="blocknote-container">
       <OverlayToolbar mode={mode} setMode={setMode} />
+      <PageSidebar
+        workspace={workspace}
+        onSelectNotebook={handleSelectNotebook}
+        onCreateNotebook={handleCreateNotebook}
+        onRenameNotebook={handleRenameNotebook}
+        onDeleteNotebook={handleDeleteNotebook}
+        onSelectPage={handleSelectPage}
+        onCreatePage={handleCreatePage}
+        onRenamePage={handleRenamePage}
+        onDuplicatePage={handleDuplicatePage}
+        onMovePage={handleMovePage}
+        onIndentPage={handleIndentPage}
+        onOutdentPage={handleOutdentPage}
+        onDeletePage={handleDeletePage}
+      />
+      {pendingImport && (
+        <ImportDialog
+          fileName={pendingImport.file.name}
+          allowAppend={pendingImport.format !== 'notes'}
+          onChoose={runImport}
+          onCancel={() => setPendingImport(null)}
+        />
+      )}
+      {ingestReport && (
+        <div
+          style={{
+            position: 'fixed',
+            bottom: '24px',
+            left: '50%',
+            transform: 'translateX(-50%)',
+            zIndex: 1000,
+            padding: '8px 14px',
+            borderRadius: 8,
+            backgroundColor: '#333',
+            color: '#fff',
+            fontSize: 13,
+            boxShadow: '0 2px 8px rgba(0,0,0,0.2)',
+            pointerEvents: 'none',
+          }}
+        >
+          Image compressed from {formatBytes(ingestReport.originalBytes)} to {formatBytes(ingestReport.bytes)}
+          {ingestReport.originalBytes > 0 &&
+            ` (${Math.max(0, Math.round((1 - ingestReport.bytes / ingestReport.originalBytes) * 100))}% smaller)`}
+        </div>
+      )}
       {showTutorial && (
         <Tutorial onDismiss={() => setShowTutorial(false)} />
       )}
@@ -656,28 +921,38 @@ function App() {
         gap: '10px'
       }}>
         <Tooltip text="Export Notes">
-          <button
-            onClick={handleExport}
-            style={{
-              background: 'none',
-              border: 'none',
-              padding: 0,
-              margin: 0,
-              cursor: 'pointer',
-              outline: 'none',
-              borderRadius: '12px',
-              width: 56,
-              height: 56,
-              display: 'flex',
-              alignItems: 'center',
-              justifyContent: 'center',
-              boxShadow: '0 2px 8px rgba(0,0,0,0.10)',
-              backgroundColor: '#fff',
-            }}
-            aria-label="Export Notes"
-          >
-            <HiSave size={24} color="#5A5A5A" />
-          </button>
+          <ExportMenu
+            options={[
+              {
+                label: 'Notes file (.json)',
+                description: 'Everything, editable when imported back into Notate',
+                onSelect: handleExport
+              },
+              {
+                label: 'Markdown (.zip)',
+                description: 'For wikis and git repos, with drawings and images as files',
+                onSelect: handleExportMarkdown
+              },
+              {
+                label: 'Web page (.html)',
+                description: 'One file that opens in any browser, exactly as it looks here',
+                onSelect: handleExportHtml
+              },
+              {
+                label: 'Print on Letter paper',
+                description: 'Print or save as PDF, with comments as endnotes',
+                onSelect: () => handlePrint('letter')
+              },
+              {
+                label: 'Print on A4 paper',
+                description: 'Print or save as PDF, with comments as endnotes',
+                onSelect: () => handlePrint('a4')
+              }
+            ]}
+          />
+        </Tooltip>
+        <Tooltip text="Image Settings">
+          <ImageSettingsMenu />
         </Tooltip>
         <Tooltip text="Import Notes">
           <button
@@ -730,7 +1005,8 @@ function App() {
         <input
           ref={fileInputRef}
           type="file"
-          accept=".json"
+          accept=".json,.md,.markdown,.html,.htm,image/*"
+          multiple
           onChange={handleImport}
           style={{ display: 'none' }}
         />
@@ -740,9 +1016,12 @@ function App() {
         theme="light"
         className="blocknote-editor"
         slashMenu={false}
+        onChange={scheduleAutosave}
         style={{
           margin: '60px 40px 40px 40px', // top, right, bottom, left
           maxWidth: 'calc(100% - 80px)', // Account for left and right margins
+          // Keep the welcome content from flashing before the autosave is restored
+          visibility: isRestoring ? 'hidden' : 'visible',
         }}
       >
         <SuggestionMenuController
@@ -768,6 +1047,7 @@ function App() {
       <ScribbleOverlay
         isScribbleMode={isModeActive('scribble-mode')}
         setIsScribbleMode={setIsScribbleMode}
+        onScribbleChange={scheduleAutosave}
       />
     </div>
   );
@@ -3,7 +3,6 @@ import {
   type ReactCustomBlockImplementation,
 } from "@blocknote/react";
 import React, { useEffect, useRef, useState } from "react";
-import rough from "roughjs/bin/rough";
 import { 
   FaPen, 
   FaMinus, 
@@ -14,34 +13,248 @@ import {
   FaUndo,
   FaRedo,
   FaEraser,
-  FaTrash
+  FaTrash,
+  FaMousePointer,
+  FaSearchPlus,
+  FaSearchMinus,
+  FaExpand,
+  FaLayerGroup,
+  FaProjectDiagram,
+  FaPalette,
+  FaBold,
+  FaItalic,
+  FaAlignLeft,
+  FaAlignCenter,
+  FaAlignRight,
+  FaHighlighter,
+  FaMagnet,
+  FaRulerHorizontal,
+  FaDraftingCompass,
+  FaStamp,
+  FaCrop,
+  FaEyeSlash,
+  FaExpandArrowsAlt
 } from "react-icons/fa";
+import {
+  applyOperation,
+  applyShapeStyle,
+  applyTextStyle,
+  BACKGROUND_LAYER_ID,
+  createElementId,
+  createLayer,
+  createRemoveOperation,
+  createSeed,
+  DEFAULT_TEXT_STYLE,
+  getCommonBounds,
+  getElementBounds,
+  getElementLayerId,
+  getOperationLayers,
+  getPressureScale,
+  hitTestElement,
+  isElementInPolygon,
+  isPointInBounds,
+  layoutText,
+  parseElements,
+  parseLayers,
+  parseShapeStyle,
+  renderElements,
+  resizeElement,
+  roundCoord,
+  scaleElement,
+  serializeElements,
+  serializeLayers,
+  TEXT_FONTS,
+  TEXT_LINE_HEIGHT,
+  translateElement,
+  undoOperation,
+  type Bounds,
+  type ConnectorElement,
+  type DrawingElement,
+  type DrawingLayer,
+  type DrawingOperation,
+  type ShapeStyle,
+  type StrokePoint,
+  type TextElement,
+  type TextFont,
+  type TextStyle,
+  type Viewport,
+} from "./drawingElements";
+import { resolveAssetUrl } from "./assets";
+import {
+  drawRedactionOutline,
+  findRedactionAt,
+  MIN_REDACTION_SIZE,
+  parseRedactions,
+  REDACTION_EFFECTS,
+  scaleRedactions,
+  serializeRedactions,
+  type RedactionEffect,
+  type RedactionMark
+} from "./redaction";
+import { findConnectTarget, rerouteConnectors, routeConnector } from "./connectors";
+import {
+  alignBounds,
+  drawGuides,
+  PAPER_STYLES,
+  snapToGrid,
+  type Guide,
+  type PaperStyle,
+} from "./drawingAids";
+import { LayersPanel } from "./LayersPanel";
+import { Protractor, Ruler } from "./MeasuringTools";
+import { StampPalette } from "./StampPalette";
+import { BUILT_IN_STAMPS, createStamp, loadCustomStamps, placeStamp, saveCustomStamps, type Stamp } from "./stamps";
+import { StylePanel } from "./StylePanel";
+import {
+  capturePointer,
+  createPalmRejector,
+  getCoalescedSamples,
+  loadPressureSettings,
+  readPointerSample,
+  savePressureSettings,
+  toStrokePoint,
+  type PointerSample,
+  type PressureSettings,
+} from "./pointerInput";
+import { recognizeShape } from "./shapeRecognition";
+import { createStabilizer, loadStrokeSettings, saveStrokeSettings, type StrokeSettings } from "./strokeEngine";
+
+type SelectionCorner = "nw" | "ne" | "sw" | "se";
+
+const MIN_ZOOM = 0.1;
+const MAX_ZOOM = 8;
+const MINIMAP_WIDTH = 160;
+const MINIMAP_HEIGHT = 100;
+
+const clampZoom = (zoom: number) => Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, zoom));
+
+// Overview of the whole drawing with the visible frame outlined; click or drag to move the frame
+const DrawingMinimap = ({ elements, layers, view, size, onNavigate }: {
+  elements: DrawingElement[],
+  layers: DrawingLayer[],
+  view: Viewport,
+  size: { width: number, height: number },
+  onNavigate: (centerX: number, centerY: number) => void
+}) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  // Fit both the content and the visible frame, centered in the minimap
+  const frame: Bounds = { x: view.x, y: view.y, width: size.width / view.zoom, height: size.height / view.zoom };
+  const content = getCommonBounds(elements) ?? frame;
+  const left = Math.min(content.x, frame.x);
+  const top = Math.min(content.y, frame.y);
+  const right = Math.max(content.x + content.width, frame.x + frame.width);
+  const bottom = Math.max(content.y + content.height, frame.y + frame.height);
+  const scale = Math.min(MINIMAP_WIDTH / (right - left || 1), MINIMAP_HEIGHT / (bottom - top || 1)) * 0.9;
+  const overview: Viewport = {
+    x: (left + right) / 2 - MINIMAP_WIDTH / scale / 2,
+    y: (top + bottom) / 2 - MINIMAP_HEIGHT / scale / 2,
+    zoom: scale
+  };
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    renderElements(canvas, elements, { viewport: overview, layers });
+    const ctx = canvas.getContext('2d')!;
+    ctx.strokeStyle = '#2196F3';
+    ctx.lineWidth = 1.5;
+    ctx.strokeRect(
+      (frame.x - overview.x) * scale,
+      (frame.y - overview.y) * scale,
+      frame.width * scale,
+      frame.height * scale
+    );
+  }, [elements, layers, view, size]);
+
+  const handleMouseDown = (e: React.MouseEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+    // Hold on to the mapping from when the drag began so the minimap doesn't shift under the pointer
+    const rect = canvasRef.current!.getBoundingClientRect();
+    const navigate = (clientX: number, clientY: number) => onNavigate(
+      (clientX - rect.left) / scale + overview.x,
+      (clientY - rect.top) / scale + overview.y
+    );
+    const handleMove = (moveEvent: MouseEvent) => navigate(moveEvent.clientX, moveEvent.clientY);
+    const handleUp = () => {
+      document.removeEventListener("mousemove", handleMove);
+      document.removeEventListener("mouseup", handleUp);
+    };
+    navigate(e.clientX, e.clientY);
+    document.addEventListener("mousemove", handleMove);
+    document.addEventListener("mouseup", handleUp);
+  };
+
+  return (
+    <canvas
+      ref={canvasRef}
+      width={MINIMAP_WIDTH}
+      height={MINIMAP_HEIGHT}
+      onMouseDown={handleMouseDown}
+      style={{
+        position: 'absolute',
+        left: 8,
+        bottom: 8,
+        width: MINIMAP_WIDTH,
+        height: MINIMAP_HEIGHT,
+        backgroundColor: 'rgba(255, 255, 255, 0.9)',
+        border: '1px solid #ccc',
+        borderRadius: 4,
+        cursor: 'pointer',
+        zIndex: 3
+      }}
+    />
+  );
+};
 
 const drawingBlockSpec = {
   type: "drawing",
   propSchema: {
+    // Legacy PNG snapshot, migrated into `elements` the first time the block is opened
     canvasData: { default: "" },
+    elements: { default: "[]" },
+    layers: { default: "[]" },
+    // Visible frame: `width`/`height` is its size on the page, `viewX`/`viewY` the drawing
+    // coordinates at its top-left corner and `zoom` how far it is zoomed in
     width: { default: 800 },
     height: { default: 400 },
-    penColor: { default: "#333" }
+    viewX: { default: 0 },
+    viewY: { default: 0 },
+    zoom: { default: 1 },
+    penColor: { default: "#333" },
+    // Last style used for shapes and lines, as JSON
+    shapeStyle: { default: "{}" },
+    paper: { default: "none", values: ["none", "dots", "grid", "lined", "graph"] as const },
+    snapToGrid: { default: false }
   },
   content: "none" as const,
 };
 
-interface TextElement {
-  id: string;
-  x: number;
-  y: number;
-  text: string;
-  fontSize: number;
-  color: string;
-  isEditing: boolean;
-  isSelected: boolean;
-}
-
-export const DrawingCanvas = ({ backgroundImage, block, editor }: { backgroundImage?: string, block?: any, editor?: any }) => {
+export const DrawingCanvas = ({
+  backgroundImage,
+  block,
+  editor,
+  onPropsChange,
+  onEditImage,
+  onApplyRedactions,
+  onRestoreFullSize
+}: {
+  backgroundImage?: string,
+  // Anything with an `id` and drawing `props`; usually the block itself
+  block?: any,
+  editor?: any,
+  // Receives prop changes instead of the block, for drawings kept inside another block's props
+  onPropsChange?: (props: Record<string, any>) => void,
+  // Offered on image blocks to crop, rotate or flip the image
+  onEditImage?: () => void,
+  // Offered on image blocks to burn the redaction marks into the image and the elements
+  onApplyRedactions?: (marks: RedactionMark[], elements: DrawingElement[]) => Promise<void>,
+  // Offered on image blocks that kept the full-size copy of a downscaled image
+  onRestoreFullSize?: () => void
+}) => {
     const canvasRef = useRef<HTMLCanvasElement>(null);
-    const roughCanvasRef = useRef<ReturnType<typeof rough.canvas> | null>(null);
+    const backgroundRef = useRef<HTMLImageElement | null>(null);
     const isDrawing = useRef(false);
     const isMouseDown = useRef(false);
     const didDrawInStroke = useRef(false);
@@ -49,9 +262,30 @@ export const DrawingCanvas = ({ backgroundImage, block, editor }: { backgroundIm
     const startY = useRef(0);
     const currentX = useRef(0);
     const currentY = useRef(0);
-    const lastSavedSnapshot = useRef<string>("");
+    // Element being drawn by the current stroke, not yet part of the model
+    const draftElement = useRef<DrawingElement | null>(null);
+    // Elements touched by the eraser during the current stroke
+    const erasedIds = useRef<Set<string>>(new Set());
     const containerRef = useRef<HTMLDivElement>(null);
     const toolbarRef = useRef<HTMLDivElement>(null);
+    // Drawing blocks are an unbounded surface; image annotations stay pinned to their image
+    const canNavigate = !backgroundImage;
+    const [view, setView] = useState<Viewport>({ x: 0, y: 0, zoom: 1 });
+    const viewRef = useRef<Viewport>({ x: 0, y: 0, zoom: 1 });
+    const persistViewTimeout = useRef<ReturnType<typeof setTimeout> | null>(null);
+    const [isPanning, setIsPanning] = useState(false);
+    const [layers, setLayers] = useState<DrawingLayer[]>([]);
+    const layersRef = useRef<DrawingLayer[]>([]);
+    // New elements go on the active layer, and the eraser only touches that layer
+    const [activeLayerId, setActiveLayerId] = useState('');
+    const [showLayers, setShowLayers] = useState(false);
+    const [pressureSettings, setPressureSettings] = useState<PressureSettings>(loadPressureSettings);
+    // Pointer that owns the current stroke; other fingers are ignored until it lifts
+    const activePointerId = useRef<number | null>(null);
+    const isPalm = useRef(createPalmRejector()).current;
+    const [strokeSettings, setStrokeSettings] = useState<StrokeSettings>(loadStrokeSettings);
+    // Lazy brush for the pen stroke in progress
+    const stabilize = useRef<((x: number, y: number) => { x: number; y: number }) | null>(null);
 
   
     const [isSpaceHeld, setIsSpaceHeld] = useState(false);
@@ -65,17 +299,58 @@ export const DrawingCanvas = ({ backgroundImage, block, editor }: { backgroundIm
     const [isHovered, setIsHovered] = useState(false);
     const [isCanvasFocused, setIsCanvasFocused] = useState(false);
     const [fontSize, setFontSize] = useState(16);
+    // Style for new text, and of the selected text box while the text tool is active
+    const [textStyle, setTextStyle] = useState<TextStyle>({ ...DEFAULT_TEXT_STYLE });
+    const [highlightColor, setHighlightColor] = useState('#fff59d');
+    const [shapeStyle, setShapeStyle] = useState<ShapeStyle>(() => parseShapeStyle(block?.props?.shapeStyle));
+    const [showStylePanel, setShowStylePanel] = useState(false);
+    // Paper is only offered on drawing blocks; images are their own background
+    const [paper, setPaper] = useState<PaperStyle>(canNavigate ? block?.props?.paper || "none" : "none");
+    const [isSnapping, setIsSnapping] = useState<boolean>(!!block?.props?.snapToGrid);
+    const [showRuler, setShowRuler] = useState(false);
+    const [showProtractor, setShowProtractor] = useState(false);
+    const [showStamps, setShowStamps] = useState(false);
+    const [customStamps, setCustomStamps] = useState<Stamp[]>([]);
+    // Alignment guides for the shape or selection being placed
+    const guides = useRef<Guide[]>([]);
+    // Boxes of the other elements, gathered when the gesture starts
+    const guideTargets = useRef<Bounds[]>([]);
+    const [connectorStyle, setConnectorStyle] = useState<Pick<ConnectorElement, 'route' | 'arrowhead'>>({
+      route: 'straight',
+      arrowhead: true
+    });
 
   
-    const undoStack = useRef<string[]>([]);
-    const redoStack = useRef<string[]>([]);
-    const [textElements, setTextElements] = useState<TextElement[]>([]);
+    const [elements, setElements] = useState<DrawingElement[]>([]);
+    const elementsRef = useRef<DrawingElement[]>([]);
+    const undoStack = useRef<DrawingOperation[]>([]);
+    const redoStack = useRef<DrawingOperation[]>([]);
     const [activeTextInput, setActiveTextInput] = useState<{x: number; y: number} | null>(null);
     const [textInputValue, setTextInputValue] = useState('');
     const [selectedText, setSelectedText] = useState<string | null>(null);
+    const [editingText, setEditingText] = useState<string | null>(null);
     const [isDragging, setIsDragging] = useState(false);
     const [isResizing, setIsResizing] = useState(false);
     const dragStart = useRef<{x: number; y: number}>({ x: 0, y: 0 });
+    // Text element as it was before the current drag, resize or edit began
+    const textEditOrigin = useRef<TextElement | null>(null);
+    const isTransformingText = useRef(false);
+    const textResizeMode = useRef<'font' | 'width'>('font');
+    const [selectedIds, setSelectedIds] = useState<string[]>([]);
+    const selectedIdsRef = useRef<string[]>([]);
+    // Freeform lasso being drawn by the selection tool
+    const lassoPoints = useRef<StrokePoint[] | null>(null);
+    // Last color/width change, so dragging the picker or slider stays a single undo step
+    const lastStyleOperation = useRef<DrawingOperation | null>(null);
+    // The opacity change still being dragged, and the layer it is on
+    const lastLayerOperation = useRef<DrawingOperation | null>(null);
+    const lastLayerChange = useRef<string | null>(null);
+    // Redaction marks previewed on the image until they are applied
+    const [redactions, setRedactions] = useState<RedactionMark[]>([]);
+    const redactionsRef = useRef<RedactionMark[]>([]);
+    const draftRedaction = useRef<RedactionMark | null>(null);
+    const [redactionEffect, setRedactionEffect] = useState<RedactionEffect>('blur');
+    const [isApplyingRedactions, setIsApplyingRedactions] = useState(false);
     const [toolbarPosition, setToolbarPosition] = useState({ top: 0, left: 0 });
     const [mousePosition, setMousePosition] = useState<{ x: number; y: number } | null>(null);
 
@@ -99,161 +374,487 @@ export const DrawingCanvas = ({ backgroundImage, block, editor }: { backgroundIm
       
   
       useEffect(() => {
-        if (canvasRef.current) {
-          roughCanvasRef.current = rough.canvas(canvasRef.current);
-          const ctx = canvasRef.current.getContext("2d")!;
-      
-          const initializeCanvas = async () => {
-            // Only handle new background image if one is being added for the first time
-            if (backgroundImage && !block?.props?.canvasData) {
-              const img = new Image();
-              await new Promise((resolve) => {
-                img.onload = () => {
-                  const newSize = {
-                    width: img.naturalWidth,
-                    height: img.naturalHeight,
-                  };
-                  setSize(newSize);
-                  
-                  // Set initial pen color to red for images
-                  setBrushColor("#ff0000");
-                  
-                  // Update canvas dimensions
-                  canvasRef.current!.width = newSize.width;
-                  canvasRef.current!.height = newSize.height;
-                  
-                  // Draw the background image
-                  ctx.clearRect(0, 0, newSize.width, newSize.height);
-                  ctx.drawImage(img, 0, 0, newSize.width, newSize.height);
-                  
-                  // Save the initial state with background
-                  saveState();
-                  resolve(null);
-                };
-                img.src = backgroundImage;
-              });
-            }
-            // If there's existing canvas data, just restore that complete state
-            else if (block?.props?.canvasData) {
-              const img = new Image();
-              await new Promise((resolve) => {
-                img.onload = () => {
-                  // Update canvas dimensions from props
-                  const newSize = {
-                    width: block.props.width || 800,
-                    height: block.props.height || 400
-                  };
-                  setSize(newSize);
-                  canvasRef.current!.width = newSize.width;
-                  canvasRef.current!.height = newSize.height;
-                  
-                  // Draw the complete saved canvas state
-                  ctx.clearRect(0, 0, newSize.width, newSize.height);
-                  ctx.drawImage(img, 0, 0, newSize.width, newSize.height);
-                  lastSavedSnapshot.current = block.props.canvasData;
-                  undoStack.current = [block.props.canvasData];
-                  resolve(null);
-                };
-                img.src = block.props.canvasData;
-              });
-            }
-            // Initialize empty canvas with default size
-            else {
-              const defaultSize = { width: 800, height: 400 };
-              setSize(defaultSize);
-              canvasRef.current!.width = defaultSize.width;
-              canvasRef.current!.height = defaultSize.height;
-              ctx.clearRect(0, 0, defaultSize.width, defaultSize.height);
+        const storedLayers = parseLayers(block?.props?.layers, !!backgroundImage);
+        const drawable = storedLayers.filter(layer => layer.id !== BACKGROUND_LAYER_ID);
+        // Pin older elements to the layer they are shown on, so reordering layers keeps them there
+        let stored = parseElements(block?.props?.elements).map(el => ({
+          ...el,
+          layerId: getElementLayerId(el, storedLayers)
+        }));
+        const legacyData = block?.props?.canvasData;
+        const storedSize = {
+          width: block?.props?.width || 800,
+          height: block?.props?.height || 400
+        };
+
+        // Carry the old PNG snapshot over as a bitmap at the bottom of the stack
+        if (legacyData) {
+          stored = [
+            {
+              id: createElementId(),
+              type: "bitmap",
+              x: 0,
+              y: 0,
+              width: storedSize.width,
+              height: storedSize.height,
+              src: legacyData,
+              color: block?.props?.penColor || "#333",
+              strokeWidth: 0,
+              roughness: 0,
+              seed: 0,
+              layerId: drawable[0].id
+            },
+            ...stored
+          ];
+        }
+
+        const storedRedactions = backgroundImage ? parseRedactions(block?.props?.redactions) : [];
+        redactionsRef.current = storedRedactions;
+        setRedactions(storedRedactions);
+        layersRef.current = storedLayers;
+        setLayers(storedLayers);
+        setActiveLayerId(drawable[drawable.length - 1].id);
+        elementsRef.current = stored;
+        setElements(stored);
+        undoStack.current = [];
+        redoStack.current = [];
+        setSize(storedSize);
+        const storedView = canNavigate
+          ? { x: block?.props?.viewX || 0, y: block?.props?.viewY || 0, zoom: clampZoom(block?.props?.zoom || 1) }
+          : { x: 0, y: 0, zoom: 1 };
+        viewRef.current = storedView;
+        setView(storedView);
+        if (legacyData) {
+          persistElements(stored);
+        }
+
+        let isCurrent = true;
+        if (backgroundImage) {
+          const img = new Image();
+          img.onload = () => {
+            if (!isCurrent) return;
+            backgroundRef.current = img;
+            // Set initial pen color to red for images that have not been drawn on yet
+            if (stored.length === 0) {
+              setBrushColor("#ff0000");
             }
+            redraw();
           };
-
-          initializeCanvas();
+          resolveAssetUrl(backgroundImage)
+            .then(url => {
+              img.src = url;
+            })
+            .catch(error => console.error("Error loading drawing background:", error));
+        } else {
+          backgroundRef.current = null;
         }
+        return () => {
+          isCurrent = false;
+        };
       }, [backgroundImage, block?.id]);
-      
-  
-    const saveState = () => {
-      if (!canvasRef.current) return;
 
+    // Repaint from the model whenever it, the view or the canvas dimensions change
+    useEffect(() => {
+      redraw();
+    }, [elements, layers, size, view, tool, paper, redactions]);
+
+    const redraw = () => {
       const canvas = canvasRef.current;
-      const tempCanvas = document.createElement('canvas');
-      tempCanvas.width = canvas.width;
-      tempCanvas.height = canvas.height;
-      const tempCtx = tempCanvas.getContext('2d')!;
-      
-      // Draw the current canvas state (includes background and drawings)
-      tempCtx.drawImage(canvas, 0, 0);
-      
-      // Add text elements if any
-      if (tool === 'text' && textElements.length > 0) {
-        textElements.forEach(element => {
-          tempCtx.font = `${element.fontSize}px Arial`;
-          tempCtx.fillStyle = element.color;
-          tempCtx.fillText(element.text, element.x, element.y);
+      if (!canvas) return;
+
+      const hiddenIds = new Set(erasedIds.current);
+      // Text is shown as editable DOM elements while the text tool is active
+      if (tool === 'text') {
+        elementsRef.current.forEach(el => {
+          if (el.type === 'text') hiddenIds.add(el.id);
         });
       }
-      
-      const dataURL = tempCanvas.toDataURL();
-      if (dataURL && lastSavedSnapshot.current !== dataURL) {
-        undoStack.current.push(dataURL);
-        redoStack.current = [];
-        lastSavedSnapshot.current = dataURL;
-
-        // Update block props with current canvas state and dimensions
-        if (editor && block) {
-          editor.updateBlock(block, {
-            props: {
-              canvasData: dataURL,
-              width: canvas.width,
-              height: canvas.height
-            }
-          });
-        }
+
+      const visible = draftElement.current
+        ? [...elementsRef.current, draftElement.current]
+        : elementsRef.current;
+      const marks = draftRedaction.current
+        ? [...redactionsRef.current, draftRedaction.current]
+        : redactionsRef.current;
+      renderElements(canvas, visible, {
+        background: backgroundRef.current,
+        viewport: viewRef.current,
+        layers: layersRef.current,
+        paper,
+        hiddenIds,
+        onBitmapLoad: redraw,
+        redactions: marks
+      });
+      drawGuides(canvas.getContext('2d')!, guides.current, viewRef.current);
+      marks.forEach(mark => drawRedactionOutline(canvas.getContext('2d')!, mark));
+
+      if (lassoPoints.current && lassoPoints.current.length > 1) {
+        const ctx = canvas.getContext('2d')!;
+        const { x, y, zoom } = viewRef.current;
+        ctx.save();
+        ctx.setTransform(zoom, 0, 0, zoom, -x * zoom, -y * zoom);
+        ctx.beginPath();
+        lassoPoints.current.forEach(([x, y], i) => (i === 0 ? ctx.moveTo(x, y) : ctx.lineTo(x, y)));
+        ctx.closePath();
+        ctx.setLineDash([4 / zoom, 4 / zoom]);
+        ctx.strokeStyle = '#2196F3';
+        ctx.lineWidth = 1 / zoom;
+        ctx.stroke();
+        ctx.fillStyle = 'rgba(33, 150, 243, 0.08)';
+        ctx.fill();
+        ctx.restore();
       }
     };
-  
-    const restoreState = (dataURL: string) => {
+
+    const updateProps = (props: Record<string, any>) => {
+      if (onPropsChange) {
+        onPropsChange(props);
+      } else if (editor && block) {
+        editor.updateBlock(block, { props });
+      }
+    };
+
+    const persistElements = (next: DrawingElement[]) => {
       const canvas = canvasRef.current;
-      if (!canvas) return;
-      const ctx = canvas.getContext("2d")!;
-      const img = new Image();
-      img.onload = () => {
-        ctx.clearRect(0, 0, canvas.width, canvas.height);
-        ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
-      };
-      img.src = dataURL;
+      updateProps({
+        elements: serializeElements(next),
+        canvasData: "",
+        ...(canvas ? { width: canvas.width, height: canvas.height } : {})
+      });
+    };
+
+    const updateRedactions = (next: RedactionMark[]) => {
+      redactionsRef.current = next;
+      setRedactions(next);
+      updateProps({ redactions: serializeRedactions(next) });
+    };
+
+    const handleApplyRedactions = async () => {
+      if (!onApplyRedactions || redactionsRef.current.length === 0) return;
+      setIsApplyingRedactions(true);
+      try {
+        await onApplyRedactions(redactionsRef.current, elementsRef.current);
+      } finally {
+        setIsApplyingRedactions(false);
+      }
+    };
+
+    // Move the visible frame; the props are only written once the gesture settles
+    const updateView = (next: Viewport) => {
+      viewRef.current = next;
+      setView(next);
+      if (persistViewTimeout.current) clearTimeout(persistViewTimeout.current);
+      persistViewTimeout.current = setTimeout(() => {
+        updateProps({ viewX: roundCoord(next.x), viewY: roundCoord(next.y), zoom: Math.round(next.zoom * 1000) / 1000 });
+      }, 300);
+    };
+
+    // A pending view write would target a block that may have been deleted
+    useEffect(() => () => {
+      if (persistViewTimeout.current) clearTimeout(persistViewTimeout.current);
+    }, []);
+
+    // Zoom while keeping the drawing point under (screenX, screenY) in place
+    const zoomAt = (zoom: number, screenX: number, screenY: number) => {
+      const current = viewRef.current;
+      const nextZoom = clampZoom(zoom);
+      const worldX = screenX / current.zoom + current.x;
+      const worldY = screenY / current.zoom + current.y;
+      updateView({ x: worldX - screenX / nextZoom, y: worldY - screenY / nextZoom, zoom: nextZoom });
+    };
+
+    const zoomBy = (factor: number) => zoomAt(viewRef.current.zoom * factor, size.width / 2, size.height / 2);
+
+    // Center the view on a drawing point without changing the zoom
+    const centerViewOn = (worldX: number, worldY: number) => {
+      const { zoom } = viewRef.current;
+      updateView({ x: worldX - size.width / zoom / 2, y: worldY - size.height / zoom / 2, zoom });
+    };
+
+    const zoomToFit = () => {
+      const bounds = getCommonBounds(elementsRef.current);
+      if (!bounds) {
+        updateView({ x: 0, y: 0, zoom: 1 });
+        return;
+      }
+      const padding = 20;
+      const zoom = clampZoom(Math.min(
+        (size.width - padding * 2) / Math.max(bounds.width, 1),
+        (size.height - padding * 2) / Math.max(bounds.height, 1)
+      ));
+      updateView({
+        x: bounds.x + bounds.width / 2 - size.width / zoom / 2,
+        y: bounds.y + bounds.height / 2 - size.height / zoom / 2,
+        zoom
+      });
+    };
+
+    // Convert a pointer position to drawing coordinates
+    const toWorld = (clientX: number, clientY: number) => {
+      const rect = canvasRef.current!.getBoundingClientRect();
+      const { x, y, zoom } = viewRef.current;
+      return { x: (clientX - rect.left) / zoom + x, y: (clientY - rect.top) / zoom + y };
+    };
+
+    const toScreen = (x: number, y: number) => ({
+      x: (x - view.x) * view.zoom,
+      y: (y - view.y) * view.zoom
+    });
+
+    const updateLayers = (next: DrawingLayer[]) => {
+      layersRef.current = next;
+      setLayers(next);
+      updateProps({ layers: serializeLayers(next) });
+    };
+
+    // Layer changes are undone like drawing changes
+    const commitLayers = (next: DrawingLayer[]) => {
+      commitOperation({ type: 'layers', before: layersRef.current, after: next });
+    };
+
+    // Layers put back by undo or redo; the active layer may be one that is gone again
+    const restoreLayers = (next: DrawingLayer[]) => {
+      updateLayers(next);
+      const drawable = next.filter(layer => layer.id !== BACKGROUND_LAYER_ID);
+      if (!drawable.some(layer => layer.id === activeLayerId) && drawable.length > 0) {
+        setActiveLayerId(drawable[drawable.length - 1].id);
+      }
+    };
+
+    const isLayerVisible = (id: string) => layersRef.current.find(layer => layer.id === id)?.visible ?? true;
+
+    // Only elements on visible layers can be picked or edited
+    const isElementVisible = (el: DrawingElement) => isLayerVisible(getElementLayerId(el, layersRef.current));
+
+    const handleAddLayer = () => {
+      const drawable = layersRef.current.filter(layer => layer.id !== BACKGROUND_LAYER_ID);
+      const layer = createLayer(`Layer ${drawable.length + 1}`);
+      // Insert right above the active layer
+      const index = layersRef.current.findIndex(l => l.id === activeLayerId);
+      const next = [...layersRef.current];
+      next.splice(index === -1 ? next.length : index + 1, 0, layer);
+      commitLayers(next);
+      setActiveLayerId(layer.id);
+    };
+
+    const handleDeleteLayer = (id: string) => {
+      const drawable = layersRef.current.filter(layer => layer.id !== BACKGROUND_LAYER_ID);
+      if (drawable.length <= 1) {
+        alert('A drawing needs at least one layer.');
+        return;
+      }
+      const layer = drawable.find(l => l.id === id);
+      if (!layer) return;
+      const onLayer = elementsRef.current.filter(el => getElementLayerId(el, layersRef.current) === id);
+      if (onLayer.length > 0 && !window.confirm(`Delete "${layer.name}" and everything drawn on it?`)) return;
+
+      updateSelection([]);
+      // One undo step brings back the layer together with what was drawn on it
+      commitOperation({
+        type: 'batch',
+        operations: [
+          ...(onLayer.length > 0 ? [createRemoveOperation(elementsRef.current, onLayer)] : []),
+          { type: 'layers', before: layersRef.current, after: layersRef.current.filter(l => l.id !== id) }
+        ]
+      });
+      const remaining = drawable.filter(l => l.id !== id);
+      if (activeLayerId === id) {
+        setActiveLayerId(remaining[remaining.length - 1].id);
+      }
+    };
+
+    // Swap a layer with its neighbour; the background always stays at the bottom
+    const handleMoveLayer = (id: string, direction: 'up' | 'down') => {
+      const next = [...layersRef.current];
+      const index = next.findIndex(layer => layer.id === id);
+      const target = direction === 'up' ? index + 1 : index - 1;
+      if (index === -1 || target < 0 || target >= next.length || next[target].id === BACKGROUND_LAYER_ID) return;
+      [next[index], next[target]] = [next[target], next[index]];
+      commitLayers(next);
+    };
+
+    const handleRenameLayer = (id: string) => {
+      const layer = layersRef.current.find(l => l.id === id);
+      if (!layer) return;
+      const name = window.prompt('Layer name:', layer.name);
+      if (name && name.trim()) {
+        commitLayers(layersRef.current.map(l => (l.id === id ? { ...l, name: name.trim() } : l)));
+      }
+    };
+
+    const handleChangeLayer = (id: string, changes: Partial<DrawingLayer>) => {
+      const next = layersRef.current.map(layer => (layer.id === id ? { ...layer, ...changes } : layer));
+      // Dragging the opacity slider stays one undo step, like restyling elements
+      const last = undoStack.current[undoStack.current.length - 1];
+      const isSameDrag = changes.opacity !== undefined && lastLayerChange.current === id;
+      if (isSameDrag && last && last === lastLayerOperation.current && last.type === 'layers') {
+        last.after = next;
+        updateLayers(next);
+      } else {
+        commitLayers(next);
+        lastLayerOperation.current = changes.opacity !== undefined ? undoStack.current[undoStack.current.length - 1] : null;
+        lastLayerChange.current = id;
+      }
+      if (changes.visible === false) {
+        updateSelection(selectedIdsRef.current.filter(selectedId => {
+          const el = elementsRef.current.find(e => e.id === selectedId);
+          return el && getElementLayerId(el, layersRef.current) !== id;
+        }));
+      }
+    };
+
+    // Pressure sensitivity is remembered per tool across every drawing
+    const updatePressureSetting = (pressureTool: 'pen' | 'eraser', value: number) => {
+      const next = { ...pressureSettings, [pressureTool]: value };
+      setPressureSettings(next);
+      savePressureSettings(next);
+    };
+
+    const updateStrokeSettings = (changes: Partial<StrokeSettings>) => {
+      const next = { ...strokeSettings, ...changes };
+      setStrokeSettings(next);
+      saveStrokeSettings(next);
+    };
+
+    // Replace the model without recording history, used for live previews. Connectors are
+    // rerouted on every change so they follow the elements they're attached to
+    const setLiveElements = (next: DrawingElement[]) => {
+      const routed = rerouteConnectors(next);
+      elementsRef.current = routed;
+      setElements(routed);
+    };
+
+    const pushHistory = (op: DrawingOperation) => {
+      undoStack.current.push(op);
+      redoStack.current = [];
+    };
+
+    const commitOperation = (op: DrawingOperation) => {
+      pushHistory(op);
+      const layers = getOperationLayers(op, false);
+      if (layers) updateLayers(layers);
+      setLiveElements(applyOperation(elementsRef.current, op));
+      persistElements(elementsRef.current);
     };
   
     const handleUndo = () => {
-      if (undoStack.current.length < 2) return;
-      if (tool === 'text') {
-        renderTextToCanvas();
-        setTextElements([]);
-      }
-      const current = undoStack.current.pop();
-      if (current) redoStack.current.push(current);
-      restoreState(undoStack.current[undoStack.current.length - 1]);
-      lastSavedSnapshot.current = undoStack.current[undoStack.current.length - 1];
+      const op = undoStack.current.pop();
+      if (!op) return;
+      redoStack.current.push(op);
+      const layers = getOperationLayers(op, true);
+      if (layers) restoreLayers(layers);
+      setLiveElements(undoOperation(elementsRef.current, op));
+      persistElements(elementsRef.current);
     };
   
     const handleRedo = () => {
-      if (redoStack.current.length === 0) return;
-      if (tool === 'text') {
-        renderTextToCanvas();
-        setTextElements([]);
-      }
-      const next = redoStack.current.pop()!;
-      undoStack.current.push(next);
-      restoreState(next);
-      lastSavedSnapshot.current = next;
+      const op = redoStack.current.pop();
+      if (!op) return;
+      undoStack.current.push(op);
+      const layers = getOperationLayers(op, false);
+      if (layers) restoreLayers(layers);
+      setLiveElements(applyOperation(elementsRef.current, op));
+      persistElements(elementsRef.current);
     };
   
+    const updateSelection = (ids: string[]) => {
+      selectedIdsRef.current = ids;
+      setSelectedIds(ids);
+      lastStyleOperation.current = null;
+    };
+
+    const getSelectedElements = () =>
+      elementsRef.current.filter(el => selectedIdsRef.current.includes(el.id));
+
+    const deleteSelection = () => {
+      const selected = getSelectedElements();
+      updateSelection([]);
+      if (selected.length > 0) {
+        commitOperation(createRemoveOperation(elementsRef.current, selected));
+      }
+    };
+
+    // Restyle the selection with the toolbar color picker, size slider or style panel
+    const applyStyleToSelection = (changes: { color?: string; strokeWidth?: number; style?: Partial<ShapeStyle> }) => {
+      const before = getSelectedElements();
+      if (before.length === 0) return;
+
+      const after = before.map(el => {
+        const next = {
+          ...el,
+          ...(changes.color !== undefined ? { color: changes.color } : {}),
+          ...(changes.strokeWidth !== undefined && el.type !== 'text' && el.type !== 'bitmap'
+            ? { strokeWidth: changes.strokeWidth }
+            : {})
+        };
+        return changes.style ? applyShapeStyle(next, changes.style) : next;
+      });
+      commitStyleChange(before, after);
+    };
+
+    // Record a restyle; dragging a picker or slider over the same elements stays one undo step
+    const commitStyleChange = (before: DrawingElement[], after: DrawingElement[]) => {
+      const last = undoStack.current[undoStack.current.length - 1];
+      const sameElements = last?.type === 'update' &&
+        last.after.map(el => el.id).join() === after.map(el => el.id).join();
+      if (last && last === lastStyleOperation.current && last.type === 'update' && sameElements) {
+        // Still the same adjustment: keep the original "before" and only move the "after"
+        last.after = after;
+        setLiveElements(applyOperation(elementsRef.current, { type: 'update', before, after }));
+        persistElements(elementsRef.current);
+      } else {
+        const op: DrawingOperation = { type: 'update', before, after };
+        commitOperation(op);
+        lastStyleOperation.current = op;
+      }
+    };
+
+    const updateShapeStyle = (changes: Partial<ShapeStyle>) => {
+      const next = { ...shapeStyle, ...changes };
+      setShapeStyle(next);
+      if (tool === 'select') {
+        applyStyleToSelection({ style: changes });
+      }
+      updateProps({ shapeStyle: JSON.stringify(next) });
+    };
+
+    // Drop a stamp where it was dragged to, or in the middle of the view when clicked. The
+    // copies are selected so they can be moved or restyled right away
+    const handlePlaceStamp = (stamp: Stamp, point?: { clientX: number; clientY: number }) => {
+      const rect = canvasRef.current?.getBoundingClientRect();
+      if (!rect || !isLayerVisible(activeLayerId)) return;
+      if (point && (point.clientX < rect.left || point.clientX > rect.right || point.clientY < rect.top || point.clientY > rect.bottom)) {
+        return;
+      }
+      const { x, y } = point
+        ? toWorld(point.clientX, point.clientY)
+        : toWorld(rect.left + rect.width / 2, rect.top + rect.height / 2);
+      const placed = placeStamp(stamp, x, y, activeLayerId);
+      commitOperation({ type: 'add', elements: placed });
+      setTool('select');
+      updateSelection(placed.map(el => el.id));
+    };
+
+    const handleSaveStamp = () => {
+      const selected = getSelectedElements().filter(el => el.type !== 'bitmap');
+      if (selected.length === 0) return;
+      const name = window.prompt('Stamp name:', 'My stamp');
+      if (!name?.trim()) return;
+      const next = [...loadCustomStamps(), createStamp(name.trim(), selected)];
+      setCustomStamps(next);
+      saveCustomStamps(next);
+    };
+
+    const handleDeleteStamp = (stamp: Stamp) => {
+      if (!window.confirm(`Delete the stamp "${stamp.name}"?`)) return;
+      const next = loadCustomStamps().filter(s => s.id !== stamp.id);
+      setCustomStamps(next);
+      saveCustomStamps(next);
+    };
+
     const handleClearCanvas = () => {
-      const canvas = canvasRef.current;
-      if (!canvas) return;
-      const ctx = canvas.getContext("2d")!;
-      ctx.clearRect(0, 0, canvas.width, canvas.height);
-      saveState();
+      if (elementsRef.current.length === 0) return;
+      commitOperation(createRemoveOperation(elementsRef.current, elementsRef.current));
     };
   
     useEffect(() => {
@@ -269,6 +870,18 @@ export const DrawingCanvas = ({ backgroundImage, block, editor }: { backgroundIm
               handleUndo();
             }
           }
+
+          if (!isInput && selectedIdsRef.current.length > 0) {
+            if (e.key === "Backspace" || e.key === "Delete") {
+              // Keep the editor from deleting the whole block
+              e.preventDefault();
+              e.stopPropagation();
+              deleteSelection();
+            } else if (e.key === "Escape") {
+              e.preventDefault();
+              updateSelection([]);
+            }
+          }
         };
       
         document.addEventListener("keydown", handler, true);
@@ -290,9 +903,6 @@ export const DrawingCanvas = ({ backgroundImage, block, editor }: { backgroundIm
         if (e.code === "Space") {
           e.preventDefault();
           setIsSpaceHeld(false);
-          // if ((tool === "line" || tool === "rect" || tool === "ellipse") && isDrawing.current) {
-          //   stopDrawing();
-          // }
           stopDrawing(); 
         }
       };
@@ -324,213 +934,485 @@ export const DrawingCanvas = ({ backgroundImage, block, editor }: { backgroundIm
       };
     }, [tool]);
   
-    const startDrawing = (x: number, y: number) => {
+    // Pinch (reported as ctrl+wheel) always zooms; the plain wheel zooms once the block is active
+    useEffect(() => {
+      const container = containerRef.current;
+      if (!container || !canNavigate) return;
+
+      const handleWheel = (e: WheelEvent) => {
+        if (!(e.ctrlKey || e.metaKey || isHovered)) return;
+        e.preventDefault();
+        const rect = canvasRef.current!.getBoundingClientRect();
+        zoomAt(viewRef.current.zoom * Math.exp(-e.deltaY * 0.0015), e.clientX - rect.left, e.clientY - rect.top);
+      };
+
+      container.addEventListener("wheel", handleWheel, { passive: false });
+      return () => container.removeEventListener("wheel", handleWheel);
+    }, [canNavigate, isHovered, size]);
+
+    // Drag the view around with the middle button, or with space held while the button is down
+    const beginPan = (e: React.PointerEvent) => {
+      e.preventDefault();
+      const from = viewRef.current;
+      const startClientX = e.clientX;
+      const startClientY = e.clientY;
+      setIsPanning(true);
+
+      const handleMove = (moveEvent: PointerEvent) => {
+        if (moveEvent.pointerId !== e.pointerId) return;
+        updateView({
+          x: from.x - (moveEvent.clientX - startClientX) / from.zoom,
+          y: from.y - (moveEvent.clientY - startClientY) / from.zoom,
+          zoom: from.zoom
+        });
+      };
+      const handleUp = (upEvent: PointerEvent) => {
+        if (upEvent.pointerId !== e.pointerId) return;
+        document.removeEventListener("pointermove", handleMove);
+        document.removeEventListener("pointerup", handleUp);
+        document.removeEventListener("pointercancel", handleUp);
+        setIsPanning(false);
+      };
+      document.addEventListener("pointermove", handleMove);
+      document.addEventListener("pointerup", handleUp);
+      document.addEventListener("pointercancel", handleUp);
+    };
+
+    const handlePanPointerDown = (e: React.PointerEvent) => {
+      if (!canNavigate || !(e.button === 1 || (e.button === 0 && isSpaceHeld))) return;
+      if (toolbarRef.current?.contains(e.target as Node)) return;
+      // Space alone still draws; pressing the button turns the hover stroke into a pan
+      isDrawing.current = false;
+      draftElement.current = null;
+      beginPan(e);
+      redraw();
+    };
+
+    // Gather what new shapes and moved selections can line up with
+    const collectGuideTargets = (excludeIds: string[] = []) => {
+      guideTargets.current = elementsRef.current
+        .filter(el => !excludeIds.includes(el.id) && el.type !== 'stroke' && el.type !== 'bitmap' && isElementVisible(el))
+        .map(getElementBounds);
+    };
+
+    // Where a shape's corner or a line's end lands: on the grid when snapping, otherwise
+    // lined up with nearby shapes when one is close
+    const snapPoint = (x: number, y: number) => {
+      if (isSnapping) {
+        guides.current = [];
+        return { x: snapToGrid(x), y: snapToGrid(y) };
+      }
+      const alignment = alignBounds({ x, y, width: 0, height: 0 }, guideTargets.current, 6 / viewRef.current.zoom);
+      guides.current = alignment.guides;
+      return { x: x + alignment.dx, y: y + alignment.dy };
+    };
+
+    const isShapeTool = ['line', 'arrow', 'rect', 'ellipse', 'connector'].includes(tool);
+
+    const startDrawing = (x: number, y: number, sample: PointerSample) => {
+      if (isShapeTool) {
+        collectGuideTargets();
+        ({ x, y } = snapPoint(x, y));
+      }
       startX.current = x;
       startY.current = y;
       currentX.current = x;
       currentY.current = y;
       isDrawing.current = true;
       didDrawInStroke.current = false;
-    };
-  
-    // Add arrow drawing function
-    const drawArrow = (ctx: CanvasRenderingContext2D, fromX: number, fromY: number, toX: number, toY: number, color: string, lineWidth: number) => {
-      // Calculate proportional measurements based on line width
-      const headLength = lineWidth * 4; // Length of arrow head scales with line width
-      const headWidth = Math.PI / 6; // 30 degrees angle for arrow head
-      
-      const angle = Math.atan2(toY - fromY, toX - fromX);
-      
-      // Draw the main line
-      ctx.beginPath();
-      ctx.moveTo(fromX, fromY);
-      ctx.lineTo(toX, toY);
-      ctx.strokeStyle = color;
-      ctx.lineWidth = lineWidth;
-      ctx.stroke();
-      
-      // Calculate arrow head points
-      const tip = { x: toX, y: toY };
-      const left = {
-        x: toX - headLength * Math.cos(angle - headWidth),
-        y: toY - headLength * Math.sin(angle - headWidth)
-      };
-      const right = {
-        x: toX - headLength * Math.cos(angle + headWidth),
-        y: toY - headLength * Math.sin(angle + headWidth)
+      erasedIds.current = new Set();
+      draftElement.current = null;
+      // Redaction marks belong to the image, not to a layer
+      if (tool === 'redact') {
+        draftRedaction.current = { id: createElementId(), effect: redactionEffect, x, y, width: 0, height: 0 };
+        return;
+      }
+      // Nothing is drawn or erased on a hidden layer
+      if (!isLayerVisible(activeLayerId)) {
+        isDrawing.current = false;
+        return;
+      }
+
+      const base = {
+        id: createElementId(),
+        color: brushColor,
+        strokeWidth: brushSize,
+        roughness: 1,
+        seed: createSeed(),
+        layerId: activeLayerId
       };
-      
-      // Draw the arrow head
-      ctx.beginPath();
-      ctx.moveTo(tip.x, tip.y);
-      ctx.lineTo(left.x, left.y);
-      ctx.lineTo(right.x, right.y);
-      ctx.closePath();
-      ctx.fillStyle = color;
-      ctx.fill();
-      
-      // Draw outline for the arrow head to match line thickness
-      ctx.beginPath();
-      ctx.moveTo(tip.x, tip.y);
-      ctx.lineTo(left.x, left.y);
-      ctx.lineTo(right.x, right.y);
-      ctx.closePath();
-      ctx.strokeStyle = color;
-      ctx.lineWidth = lineWidth / 2;
-      ctx.stroke();
-    };
-
-    const draw = (x: number, y: number) => {
-      if (!isDrawing.current || !roughCanvasRef.current) return;
-      const canvas = canvasRef.current!;
-      const ctx = canvas.getContext('2d')!;
-      const rc = roughCanvasRef.current;
+      if (tool === 'pen') {
+        // The stabilizer radius is in screen pixels, so it feels the same at every zoom
+        stabilize.current = createStabilizer(strokeSettings.stabilizer / viewRef.current.zoom);
+        draftElement.current = {
+          ...base,
+          type: 'stroke',
+          points: [toStrokePoint(x, y, sample)],
+          ...(strokeSettings.smooth ? { smooth: true } : {}),
+          // Mouse strokes have no pressure to follow
+          ...(sample.pointerType !== 'mouse'
+            ? { pointerType: sample.pointerType, pressureSensitivity: pressureSettings.pen }
+            : {})
+        };
+      } else if (tool === 'line' || tool === 'arrow') {
+        draftElement.current = applyShapeStyle({ ...base, type: tool, x1: x, y1: y, x2: x, y2: y }, shapeStyle);
+      } else if (tool === 'rect' || tool === 'ellipse') {
+        draftElement.current = applyShapeStyle({ ...base, type: tool, x, y, width: 0, height: 0 }, shapeStyle);
+      } else if (tool === 'connector') {
+        const target = findConnectTarget(elementsRef.current.filter(isElementVisible), x, y, 6 / viewRef.current.zoom);
+        draftElement.current = applyShapeStyle({
+          ...base,
+          type: 'connector',
+          x1: x,
+          y1: y,
+          x2: x,
+          y2: y,
+          ...connectorStyle,
+          ...(target ? { startId: target.id } : {})
+        }, shapeStyle);
+      }
+    };
+
+    // Extend the current stroke by one input sample; the caller repaints once per event
+    const draw = (x: number, y: number, sample: PointerSample) => {
+      if (!isDrawing.current) return;
 
+      if (isShapeTool) {
+        ({ x, y } = snapPoint(x, y));
+      }
       currentX.current = x;
       currentY.current = y;
-
-      if (tool === 'pen' || tool === 'eraser') {
-        if (tool === 'eraser') {
-          // Eraser functionality
-          ctx.save();
-          ctx.beginPath();
-          ctx.arc(x, y, brushSize * 2, 0, Math.PI * 2);
-          ctx.clip();
-          ctx.clearRect(x - brushSize * 2, y - brushSize * 2, brushSize * 4, brushSize * 4);
-          ctx.restore();
-        } else {
-          rc.line(startX.current, startY.current, x, y, {
-            stroke: brushColor,
-            strokeWidth: brushSize,
-          });
-        }
-        startX.current = x;
-        startY.current = y;
+      const draft = draftElement.current;
+
+      if (draftRedaction.current) {
+        draftRedaction.current = {
+          ...draftRedaction.current,
+          x: Math.max(0, Math.min(startX.current, x)),
+          y: Math.max(0, Math.min(startY.current, y)),
+          width: Math.abs(x - startX.current),
+          height: Math.abs(y - startY.current)
+        };
         didDrawInStroke.current = true;
-      } else {
-        // Restore the last saved snapshot
-        const img = new Image();
-        img.onload = () => {
-          ctx.clearRect(0, 0, canvas.width, canvas.height);
-          ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
-          if (tool === 'line') {
-            rc.line(startX.current, startY.current, currentX.current, currentY.current, {
-              stroke: brushColor,
-              strokeWidth: brushSize,
-            });
-          } else if (tool === 'arrow') {
-            drawArrow(
-              ctx,
-              startX.current,
-              startY.current,
-              currentX.current,
-              currentY.current,
-              brushColor,
-              brushSize
-            );
-          } else if (tool === 'rect') {
-            const width = currentX.current - startX.current;
-            const height = currentY.current - startY.current;
-            rc.rectangle(startX.current, startY.current, width, height, {
-              stroke: brushColor,
-              strokeWidth: brushSize,
-            });
-          } else if (tool === 'ellipse') {
-            const cx = (startX.current + currentX.current) / 2;
-            const cy = (startY.current + currentY.current) / 2;
-            const rx = Math.abs(currentX.current - startX.current) / 2;
-            const ry = Math.abs(currentY.current - startY.current) / 2;
-            rc.ellipse(cx, cy, rx * 2, ry * 2, {
-              stroke: brushColor,
-              strokeWidth: brushSize,
-            });
+      } else if (tool === 'eraser') {
+        // The eraser keeps the same size on screen at every zoom, and pressing harder widens it
+        const radius = brushSize * 2 / viewRef.current.zoom * getPressureScale(sample.pressure, pressureSettings.eraser);
+        elementsRef.current.forEach(el => {
+          if (getElementLayerId(el, layersRef.current) !== activeLayerId) return;
+          if (!erasedIds.current.has(el.id) && hitTestElement(el, x, y, radius)) {
+            erasedIds.current.add(el.id);
+            didDrawInStroke.current = true;
           }
-        };
-        img.src = lastSavedSnapshot.current;
+        });
+      } else if (draft?.type === 'stroke') {
+        const brush = stabilize.current ? stabilize.current(x, y) : { x, y };
+        draft.points.push(toStrokePoint(brush.x, brush.y, sample));
+        didDrawInStroke.current = true;
+      } else if (draft?.type === 'line' || draft?.type === 'arrow') {
+        draft.x2 = x;
+        draft.y2 = y;
+        didDrawInStroke.current = true;
+      } else if (draft?.type === 'rect' || draft?.type === 'ellipse') {
+        draft.x = Math.min(startX.current, x);
+        draft.y = Math.min(startY.current, y);
+        draft.width = Math.abs(x - startX.current);
+        draft.height = Math.abs(y - startY.current);
+        didDrawInStroke.current = true;
+      } else if (draft?.type === 'connector') {
+        // Attach the free end to whatever is under the pointer, but never back to the start
+        const target = findConnectTarget(
+          elementsRef.current.filter(isElementVisible), x, y, 6 / viewRef.current.zoom, draft.startId
+        );
+        const { endId: _endId, axis: _axis, ...rest } = draft;
+        const byId = new Map(elementsRef.current.map(el => [el.id, el]));
+        draftElement.current = routeConnector({ ...rest, x2: x, y2: y, ...(target ? { endId: target.id } : {}) }, byId);
+        didDrawInStroke.current = true;
       }
     };
       
   
     const stopDrawing = () => {
-      if (!isDrawing.current || !roughCanvasRef.current) return;
+      activePointerId.current = null;
+      if (!isDrawing.current) return;
       isDrawing.current = false;
-      const rc = roughCanvasRef.current;
-      const ctx = canvasRef.current!.getContext('2d')!;
-
-      if (tool === 'line') {
-        rc.line(startX.current, startY.current, currentX.current, currentY.current, {
-          stroke: brushColor,
-          strokeWidth: brushSize,
-        });
-      } else if (tool === 'arrow') {
-        drawArrow(
-          ctx,
-          startX.current,
-          startY.current,
-          currentX.current,
-          currentY.current,
-          brushColor,
-          brushSize
-        );
-      } else if (tool === 'rect') {
-        const width = currentX.current - startX.current;
-        const height = currentY.current - startY.current;
-        rc.rectangle(startX.current, startY.current, width, height, {
-          stroke: brushColor,
-          strokeWidth: brushSize,
-        });
-      } else if (tool === 'ellipse') {
-        const cx = (startX.current + currentX.current) / 2;
-        const cy = (startY.current + currentY.current) / 2;
-        const rx = Math.abs(currentX.current - startX.current) / 2;
-        const ry = Math.abs(currentY.current - startY.current) / 2;
-        rc.ellipse(cx, cy, rx * 2, ry * 2, {
-          stroke: brushColor,
-          strokeWidth: brushSize,
-        });
-      }
-      if ((tool === 'line' || tool === 'rect' || tool === 'ellipse' || tool === 'arrow') || (tool === 'pen' && didDrawInStroke.current)) {
-        saveState();
+      const draft = draftElement.current;
+      draftElement.current = null;
+      const redaction = draftRedaction.current;
+      draftRedaction.current = null;
+      guides.current = [];
+
+      if (redaction) {
+        if (redaction.width >= MIN_REDACTION_SIZE && redaction.height >= MIN_REDACTION_SIZE) {
+          updateRedactions([...redactionsRef.current, redaction]);
+        } else {
+          // Clicking a mark without dragging takes it away again
+          const clicked = findRedactionAt(redactionsRef.current, startX.current, startY.current);
+          if (clicked) updateRedactions(redactionsRef.current.filter(mark => mark !== clicked));
+        }
+      } else if (tool === 'eraser') {
+        const erased = elementsRef.current.filter(el => erasedIds.current.has(el.id));
+        erasedIds.current = new Set();
+        if (erased.length > 0) {
+          commitOperation(createRemoveOperation(elementsRef.current, erased));
+        }
+      } else if (draft && didDrawInStroke.current) {
+        commitOperation({ type: 'add', elements: [draft] });
+        // Snapping is its own step, so a single undo brings back the stroke as drawn
+        const shape = draft.type === 'stroke' && strokeSettings.snapShapes ? recognizeShape(draft) : null;
+        if (shape) {
+          commitOperation({ type: 'update', before: [draft], after: [shape] });
+        }
       }
+      redraw();
       setMousePosition(null);
     };
   
-    const handleMouseDown = (e: React.MouseEvent) => {
+    // Track a selection-tool drag on the document so it keeps working outside the canvas
+    const trackPointer = (onMove: (x: number, y: number, e: PointerEvent) => void, onUp: () => void) => {
+      const handleMove = (e: PointerEvent) => {
+        if (!e.isPrimary) return;
+        const { x, y } = toWorld(e.clientX, e.clientY);
+        onMove(x, y, e);
+      };
+      const handleUp = (e: PointerEvent) => {
+        if (!e.isPrimary) return;
+        document.removeEventListener("pointermove", handleMove);
+        document.removeEventListener("pointerup", handleUp);
+        document.removeEventListener("pointercancel", handleUp);
+        onUp();
+      };
+      document.addEventListener("pointermove", handleMove);
+      document.addEventListener("pointerup", handleUp);
+      document.addEventListener("pointercancel", handleUp);
+    };
+
+    // Record a live move or resize of the selection as one undoable update
+    const finishSelectionTransform = (origin: DrawingElement[]) => {
+      const ids = origin.map(el => el.id);
+      const after = elementsRef.current.filter(el => ids.includes(el.id));
+      if (JSON.stringify(after) === JSON.stringify(origin)) return;
+      pushHistory({ type: 'update', before: origin, after });
+      persistElements(elementsRef.current);
+    };
+
+    const beginSelectionMove = (ids: string[], fromX: number, fromY: number) => {
+      const origin = elementsRef.current.filter(el => ids.includes(el.id));
+      const originById = new Map(origin.map(el => [el.id, el]));
+      const originBounds = getCommonBounds(origin);
+      collectGuideTargets(ids);
+
+      trackPointer(
+        (x, y) => {
+          let dx = x - fromX;
+          let dy = y - fromY;
+          // Line the selection's box up with the grid, or with the shapes around it
+          if (originBounds) {
+            if (isSnapping) {
+              dx = snapToGrid(originBounds.x + dx) - originBounds.x;
+              dy = snapToGrid(originBounds.y + dy) - originBounds.y;
+            } else {
+              const moved = { ...originBounds, x: originBounds.x + dx, y: originBounds.y + dy };
+              const alignment = alignBounds(moved, guideTargets.current, 6 / viewRef.current.zoom);
+              dx += alignment.dx;
+              dy += alignment.dy;
+              guides.current = alignment.guides;
+            }
+          }
+          setLiveElements(elementsRef.current.map(el => {
+            const start = originById.get(el.id);
+            return start ? translateElement(start, dx, dy) : el;
+          }));
+        },
+        () => {
+          guides.current = [];
+          finishSelectionTransform(origin);
+          redraw();
+        }
+      );
+    };
+
+    const beginLasso = (x: number, y: number, baseIds: string[]) => {
+      lassoPoints.current = [[x, y]];
+
+      trackPointer(
+        (x, y) => {
+          lassoPoints.current?.push([roundCoord(x), roundCoord(y)]);
+          redraw();
+        },
+        () => {
+          const polygon = lassoPoints.current ?? [];
+          lassoPoints.current = null;
+          const picked = elementsRef.current
+            .filter(el => isElementVisible(el) && isElementInPolygon(el, polygon))
+            .map(el => el.id);
+          updateSelection([...new Set([...baseIds, ...picked])]);
+          redraw();
+        }
+      );
+    };
+
+    const handleSelectMouseDown = (e: React.MouseEvent) => {
+      const { x, y } = toWorld(e.clientX, e.clientY);
+
+      // Topmost element under the pointer wins
+      const tolerance = 4 / viewRef.current.zoom;
+      const hit = [...elementsRef.current].reverse().find(el =>
+        isElementVisible(el) && (
+          hitTestElement(el, x, y, tolerance) ||
+          (el.type === 'bitmap' && isPointInBounds(getElementBounds(el), x, y))
+        )
+      );
+      const currentIds = selectedIdsRef.current;
+      const selectionBounds = getCommonBounds(getSelectedElements());
+
+      if (hit) {
+        let ids = currentIds;
+        if (e.shiftKey) {
+          ids = ids.includes(hit.id) ? ids.filter(id => id !== hit.id) : [...ids, hit.id];
+        } else if (!ids.includes(hit.id)) {
+          ids = [hit.id];
+        }
+        updateSelection(ids);
+        if (ids.includes(hit.id)) {
+          beginSelectionMove(ids, x, y);
+        }
+      } else if (!e.shiftKey && selectionBounds && isPointInBounds(selectionBounds, x, y, tolerance)) {
+        beginSelectionMove(currentIds, x, y);
+      } else {
+        const baseIds = e.shiftKey ? currentIds : [];
+        updateSelection(baseIds);
+        beginLasso(x, y, baseIds);
+      }
+    };
+
+    // Double-click a connector to label it, or text to edit it
+    const handleSelectDoubleClick = (e: React.MouseEvent) => {
+      if (tool !== 'select') return;
+      const { x, y } = toWorld(e.clientX, e.clientY);
+      const tolerance = 4 / viewRef.current.zoom;
+      const connector = [...elementsRef.current].reverse().find(el =>
+        (el.type === 'connector' || el.type === 'text') && isElementVisible(el) && hitTestElement(el, x, y, tolerance)
+      );
+      // Text is edited in place with the text tool
+      if (connector?.type === 'text') {
+        setTool('text');
+        textEditOrigin.current = connector;
+        setEditingText(connector.id);
+        selectText(connector.id);
+        return;
+      }
+      if (connector?.type !== 'connector') return;
+
+      const label = window.prompt('Connector label:', connector.label ?? '');
+      if (label === null || label.trim() === (connector.label ?? '')) return;
+      const { label: _label, ...rest } = connector;
+      commitOperation({
+        type: 'update',
+        before: [connector],
+        after: [label.trim() ? { ...rest, label: label.trim() } : rest]
+      });
+    };
+
+    // Scale the selection by dragging a corner handle; the opposite corner stays put
+    const handleSelectionResizeMouseDown = (e: React.MouseEvent, corner: SelectionCorner) => {
+      e.preventDefault();
+      e.stopPropagation();
+
+      const origin = getSelectedElements();
+      const from = getCommonBounds(origin);
+      if (!from) return;
+
+      const anchorX = corner.includes('w') ? from.x + from.width : from.x;
+      const anchorY = corner.includes('n') ? from.y + from.height : from.y;
+
+      trackPointer(
+        (x, y, moveEvent) => {
+          const minSize = 4 / viewRef.current.zoom;
+          let width = Math.max(minSize, Math.abs(x - anchorX));
+          let height = Math.max(minSize, Math.abs(y - anchorY));
+          // Shift keeps the original proportions
+          if (moveEvent.shiftKey && from.width > 0 && from.height > 0) {
+            const scale = Math.max(width / from.width, height / from.height);
+            width = from.width * scale;
+            height = from.height * scale;
+          }
+
+          const to: Bounds = {
+            x: corner.includes('w') ? anchorX - width : anchorX,
+            y: corner.includes('n') ? anchorY - height : anchorY,
+            width,
+            height
+          };
+          // Flat selections (e.g. a horizontal line) can only be stretched along their length
+          if (from.width === 0) {
+            to.x = from.x;
+            to.width = 0;
+          }
+          if (from.height === 0) {
+            to.y = from.y;
+            to.height = 0;
+          }
+
+          const resized = new Map(origin.map(el => [el.id, resizeElement(el, from, to)]));
+          setLiveElements(elementsRef.current.map(el => resized.get(el.id) ?? el));
+        },
+        () => finishSelectionTransform(origin)
+      );
+    };
+
+    const handlePointerDown = (e: React.PointerEvent) => {
+      if (isPalm(e.nativeEvent)) return;
+      if (e.button !== 0 || (canNavigate && isSpaceHeld)) return; // Panning
+      // A second finger doesn't interrupt the stroke in progress
+      if (activePointerId.current !== null && activePointerId.current !== e.pointerId) return;
       if (tool === 'text') return; // Don't start drawing if using text tool
+      if (tool === 'select') {
+        handleSelectMouseDown(e);
+        return;
+      }
       isMouseDown.current = true;
-      const rect = canvasRef.current!.getBoundingClientRect();
-      startDrawing(e.clientX - rect.left, e.clientY - rect.top);
+      activePointerId.current = e.pointerId;
+      capturePointer(e.currentTarget, e.pointerId);
+      const { x, y } = toWorld(e.clientX, e.clientY);
+      startDrawing(x, y, readPointerSample(e.nativeEvent));
+      redraw();
     };
   
-    const handleMouseMove = (e: React.MouseEvent) => {
+    const handlePointerMove = (e: React.PointerEvent) => {
       if (tool === 'text') {
         handleTextMouseMove(e);
         handleResizeMouseMove(e);
         return;
       }
+      // Selection gestures and panning track the pointer on the document themselves
+      if (tool === 'select' || isPanning || isPalm(e.nativeEvent)) return;
+      if (activePointerId.current !== null && activePointerId.current !== e.pointerId) return;
 
       const rect = canvasRef.current!.getBoundingClientRect();
-      const x = e.clientX - rect.left;
-      const y = e.clientY - rect.top;
 
       // Update mouse position for eraser outline
-      setMousePosition({ x, y });
+      setMousePosition({ x: e.clientX - rect.left, y: e.clientY - rect.top });
 
       // Only start a stroke when spacebar is currently held or mouse is down
       const shouldStartStroke = (isSpaceHeld || isMouseDown.current) && !isDrawing.current;
 
       if (shouldStartStroke) {
-        startDrawing(x, y);
+        const { x, y } = toWorld(e.clientX, e.clientY);
+        startDrawing(x, y, readPointerSample(e.nativeEvent));
+        redraw();
         return;
       }
 
       if (isDrawing.current) {
-        draw(x, y);
+        getCoalescedSamples(e.nativeEvent).forEach(sample => {
+          const { x, y } = toWorld(sample.clientX, sample.clientY);
+          draw(x, y, readPointerSample(sample));
+        });
+        redraw();
       }
     };
 
-  
-    const handleMouseUp = () => {
+    const handlePointerUp = (e: React.PointerEvent) => {
+      if (activePointerId.current !== null && activePointerId.current !== e.pointerId) return;
       isMouseDown.current = false;
       stopDrawing();
     };
@@ -540,67 +1422,55 @@ export const DrawingCanvas = ({ backgroundImage, block, editor }: { backgroundIm
       e.stopPropagation();
       
       const canvas = canvasRef.current!;
-      const ctx = canvas.getContext('2d')!;
       
       // Store initial state
-      const initialState = canvas.toDataURL();
+      const initialElements = elementsRef.current;
+      const initialRedactions = redactionsRef.current;
       const initialWidth = canvas.width;
       const initialHeight = canvas.height;
       const aspectRatio = initialWidth / initialHeight;
       const startX = e.clientX;
       const startY = e.clientY;
 
-      let resizeTimeout: NodeJS.Timeout | null = null;
       let lastWidth = initialWidth;
       let lastHeight = initialHeight;
 
-      const redrawCanvas = async (width: number, height: number) => {
-        // Update canvas dimensions
-        canvas.width = width;
-        canvas.height = height;
+      // Annotations scale with their image; a drawing's frame just shows more or less of the surface
+      const resizeTo = (width: number, height: number) => {
         setSize({ width, height });
-        
-        // Draw the resized content
-        const img = new Image();
-        await new Promise<void>((resolve) => {
-          img.onload = () => {
-            ctx.clearRect(0, 0, width, height);
-            ctx.drawImage(img, 0, 0, width, height);
-            resolve();
-          };
-          img.src = initialState;
-        });
+        if (!canNavigate) {
+          setLiveElements(initialElements.map(el =>
+            scaleElement(el, width / initialWidth, height / initialHeight)
+          ));
+          redactionsRef.current = scaleRedactions(initialRedactions, width / initialWidth, height / initialHeight);
+        }
       };
 
       const onMouseMove = (e: MouseEvent) => {
         const delta = Math.max(e.clientX - startX, e.clientY - startY);
-        const newWidth = Math.max(100, initialWidth + delta);
-        const newHeight = newWidth / aspectRatio;
+        const newWidth = Math.round(Math.max(100, initialWidth + delta));
+        const newHeight = Math.round(newWidth / aspectRatio);
 
         if (Math.abs(newWidth - lastWidth) > 1 || Math.abs(newHeight - lastHeight) > 1) {
           lastWidth = newWidth;
           lastHeight = newHeight;
-
-          if (resizeTimeout) {
-            clearTimeout(resizeTimeout);
-          }
-
-          resizeTimeout = setTimeout(() => {
-            redrawCanvas(newWidth, newHeight);
-          }, 0);
+          resizeTo(newWidth, newHeight);
         }
       };
 
-      const onMouseUp = async () => {
+      const onMouseUp = () => {
         document.removeEventListener("mousemove", onMouseMove);
         document.removeEventListener("mouseup", onMouseUp);
 
-        if (resizeTimeout) {
-          clearTimeout(resizeTimeout);
+        resizeTo(lastWidth, lastHeight);
+        if (!canNavigate && initialElements.length > 0) {
+          pushHistory({ type: 'update', before: initialElements, after: elementsRef.current });
         }
-
-        await redrawCanvas(lastWidth, lastHeight);
-        saveState();
+        if (initialRedactions.length > 0) {
+          updateRedactions(redactionsRef.current);
+        }
+        // Canvas dimensions are read back when persisting, so wait for React to apply them
+        requestAnimationFrame(() => persistElements(elementsRef.current));
       };
 
       document.addEventListener("mousemove", onMouseMove);
@@ -632,13 +1502,12 @@ export const DrawingCanvas = ({ backgroundImage, block, editor }: { backgroundIm
         x >= resizeHandleArea.right - resizeHandleArea.width && 
         y >= resizeHandleArea.bottom - resizeHandleArea.height;
 
-      // Only create new text if not clicking in resize area
-      if (!isInResizeArea) {
-        // Deselect any selected text
-        setTextElements(prev => prev.map(el => ({ ...el, isSelected: false })));
+      // Only create new text if not clicking in resize area, and never on a hidden layer
+      if (!isInResizeArea && isLayerVisible(activeLayerId)) {
+        // Deselect any selected text; the toolbar style carries over to the new text
         setSelectedText(null);
 
-        setActiveTextInput({ x, y });
+        setActiveTextInput(toWorld(e.clientX, e.clientY));
         setTextInputValue('');
       }
     };
@@ -651,96 +1520,175 @@ export const DrawingCanvas = ({ backgroundImage, block, editor }: { backgroundIm
         return;
       }
 
-      const newText: TextElement = {
-        id: Date.now().toString(),
-        x: activeTextInput.x,
-        y: activeTextInput.y,
-        text: textInputValue,
-        fontSize,
-        color: brushColor,
-        isEditing: false,
-        isSelected: false
-      };
+      const newText: TextElement = { ...getDraftText(), id: createElementId() };
 
-      setTextElements(prev => [...prev, newText]);
+      commitOperation({ type: 'add', elements: [newText] });
       setActiveTextInput(null);
       setTextInputValue('');
     };
 
+    // Text being typed with the text tool, before it's added
+    const getDraftText = (): TextElement => applyTextStyle({
+      id: '',
+      type: 'text',
+      x: activeTextInput?.x ?? 0,
+      y: activeTextInput?.y ?? 0,
+      text: textInputValue,
+      fontSize,
+      color: brushColor,
+      strokeWidth: 0,
+      roughness: 0,
+      seed: 0,
+      layerId: activeLayerId
+    }, textStyle);
+
+    const findTextElement = (id: string | null) =>
+      elementsRef.current.find((el): el is TextElement => el.id === id && el.type === 'text') ?? null;
+
+    // Select a text box and show its style in the toolbar
+    const selectText = (id: string) => {
+      setSelectedText(id);
+      const element = findTextElement(id);
+      if (element) {
+        setTextStyle({
+          fontFamily: element.fontFamily ?? DEFAULT_TEXT_STYLE.fontFamily,
+          bold: element.bold ?? DEFAULT_TEXT_STYLE.bold,
+          italic: element.italic ?? DEFAULT_TEXT_STYLE.italic,
+          align: element.align ?? DEFAULT_TEXT_STYLE.align,
+          background: element.background ?? DEFAULT_TEXT_STYLE.background,
+          rotation: element.rotation ?? DEFAULT_TEXT_STYLE.rotation
+        });
+      }
+    };
+
+    // Style new text, and restyle the selected text box if there is one
+    const updateTextStyle = (changes: Partial<TextStyle>) => {
+      setTextStyle(style => ({ ...style, ...changes }));
+      const element = findTextElement(selectedText);
+      if (element) {
+        commitStyleChange([element], [applyTextStyle(element, changes)]);
+      }
+    };
+
+    // Overlay text is laid out like the canvas draws it: `x`/`y` is the left edge and the
+    // middle of the first line, and rotation turns the box around its center
+    const getTextOverlayPosition = (element: TextElement): React.CSSProperties => {
+      const { x, y } = toScreen(element.x, element.y);
+      return {
+        position: 'absolute',
+        left: x,
+        top: y - (element.fontSize * TEXT_LINE_HEIGHT * view.zoom) / 2,
+        transform: element.rotation ? `rotate(${element.rotation}deg)` : undefined,
+      };
+    };
+
+    const getTextOverlayStyle = (element: TextElement): React.CSSProperties => ({
+      fontFamily: TEXT_FONTS[element.fontFamily ?? 'sans'].family,
+      fontSize: element.fontSize * view.zoom,
+      fontWeight: element.bold ? 'bold' : 'normal',
+      fontStyle: element.italic ? 'italic' : 'normal',
+      lineHeight: TEXT_LINE_HEIGHT,
+      color: element.color,
+      whiteSpace: element.width ? 'pre-wrap' : 'pre',
+      overflowWrap: 'anywhere',
+      width: element.width ? element.width * view.zoom : undefined,
+      textAlign: element.align ?? 'left',
+      backgroundColor: element.background || 'transparent',
+    });
+
+    // The editor grows with what's typed, with room for the next character
+    const getTextEditorStyle = (element: TextElement): React.CSSProperties => {
+      const { width, height } = layoutText(element);
+      return {
+        ...getTextOverlayStyle(element),
+        display: 'block',
+        width: (element.width ?? width + element.fontSize) * view.zoom,
+        height: height * view.zoom,
+        padding: 0,
+        margin: 0,
+        border: 'none',
+        outline: '1px dashed #666',
+        resize: 'none',
+        overflow: 'hidden',
+      };
+    };
+
+    // Apply a change to one text element without recording history
+    const updateTextElement = (id: string, changes: Partial<TextElement>) => {
+      setLiveElements(elementsRef.current.map(el =>
+        el.id === id && el.type === 'text' ? { ...el, ...changes } : el
+      ));
+    };
+
+    // Record the change made since `textEditOrigin` as a single undoable step
+    const finishTextChange = () => {
+      const origin = textEditOrigin.current;
+      textEditOrigin.current = null;
+      if (!origin) return;
+
+      const current = findTextElement(origin.id);
+      if (!current || JSON.stringify(current) === JSON.stringify(origin)) return;
+      pushHistory({ type: 'update', before: [origin], after: [current] });
+      persistElements(elementsRef.current);
+    };
+
     // Handle text element selection
     const handleTextClick = (e: React.MouseEvent, id: string) => {
       if (tool !== 'text') return;
       e.stopPropagation();
-      
-      setTextElements(prev => prev.map(el => ({
-        ...el,
-        isSelected: el.id === id
-      })));
-      setSelectedText(id);
+      selectText(id);
     };
 
     // Handle text dragging
     const handleTextMouseDown = (e: React.MouseEvent, id: string) => {
-      if (tool !== 'text') return;
+      if (tool !== 'text' || editingText === id) return;
       e.stopPropagation();
-
-      const rect = canvasRef.current!.getBoundingClientRect();
-      dragStart.current = {
-        x: e.clientX - rect.left,
-        y: e.clientY - rect.top
-      };
+
+      dragStart.current = toWorld(e.clientX, e.clientY);
+      textEditOrigin.current = findTextElement(id);
+      isTransformingText.current = true;
       setIsDragging(true);
-      setSelectedText(id);
-      setTextElements(prev => prev.map(el => ({
-        ...el,
-        isSelected: el.id === id
-      })));
+      selectText(id);
     };
 
     const handleTextMouseMove = (e: React.MouseEvent) => {
       if (!isDragging || !selectedText) return;
 
-      const rect = canvasRef.current!.getBoundingClientRect();
-      const x = e.clientX - rect.left;
-      const y = e.clientY - rect.top;
+      const { x, y } = toWorld(e.clientX, e.clientY);
       const dx = x - dragStart.current.x;
       const dy = y - dragStart.current.y;
 
-      setTextElements(prev => prev.map(el => 
-        el.id === selectedText
-          ? {
-              ...el,
-              x: el.x + dx,
-              y: el.y + dy
-            }
-          : el
-      ));
+      const element = findTextElement(selectedText);
+      if (element) {
+        updateTextElement(selectedText, { x: element.x + dx, y: element.y + dy });
+      }
 
       dragStart.current = { x, y };
     };
 
-    // Handle text resizing
-    const handleTextResize = (e: React.MouseEvent, id: string) => {
+    // Handle text resizing: the corner handle sets the font size, the side handle the wrap width
+    const handleTextResize = (e: React.MouseEvent, id: string, mode: 'font' | 'width') => {
       if (tool !== 'text') return;
       e.stopPropagation();
+      textEditOrigin.current = findTextElement(id);
+      textResizeMode.current = mode;
+      isTransformingText.current = true;
       setIsResizing(true);
-      setSelectedText(id);
+      selectText(id);
     };
 
     const handleResizeMouseMove = (e: React.MouseEvent) => {
       if (!isResizing || !selectedText) return;
 
-      const rect = canvasRef.current!.getBoundingClientRect();
-      const y = e.clientY - rect.top;
-      
-      setTextElements(prev => prev.map(el => 
-        el.id === selectedText
-          ? {
-              ...el,
-              fontSize: Math.max(12, Math.abs(y - el.y) * 2)
-            }
-          : el
-      ));
+      const { x, y } = toWorld(e.clientX, e.clientY);
+
+      const element = findTextElement(selectedText);
+      if (!element) return;
+      if (textResizeMode.current === 'width') {
+        updateTextElement(selectedText, { width: roundCoord(Math.max(element.fontSize * 2, x - element.x)) });
+      } else {
+        updateTextElement(selectedText, { fontSize: Math.max(12, Math.abs(y - element.y) * 2) });
+      }
     };
 
     // Add event listeners for drag and resize
@@ -748,146 +1696,44 @@ export const DrawingCanvas = ({ backgroundImage, block, editor }: { backgroundIm
       const handleMouseUp = () => {
         setIsDragging(false);
         setIsResizing(false);
+        if (isTransformingText.current) {
+          isTransformingText.current = false;
+          finishTextChange();
+        }
       };
 
       window.addEventListener('mouseup', handleMouseUp);
       return () => window.removeEventListener('mouseup', handleMouseUp);
     }, []);
 
-    // Handle tool changes
-    useEffect(() => {
-      if (tool !== 'text') {
-        // Create a temporary canvas to ensure proper rendering
-        const tempCanvas = document.createElement('canvas');
-        const canvas = canvasRef.current;
-        if (!canvas) return;
-        
-        tempCanvas.width = canvas.width;
-        tempCanvas.height = canvas.height;
-        const tempCtx = tempCanvas.getContext('2d')!;
-        
-        // Copy current canvas state
-        tempCtx.drawImage(canvas, 0, 0);
-        
-        // Render text elements
-        textElements.forEach(element => {
-          tempCtx.font = `${element.fontSize}px Arial`;
-          tempCtx.fillStyle = element.color;
-          tempCtx.fillText(element.text, element.x, element.y);
-        });
-        
-        // Copy back to main canvas
-        const ctx = canvas.getContext('2d')!;
-        ctx.clearRect(0, 0, canvas.width, canvas.height);
-        ctx.drawImage(tempCanvas, 0, 0);
-        
-        // Save state and clear text elements
-        const dataURL = canvas.toDataURL();
-        if (dataURL && undoStack.current[undoStack.current.length - 1] !== dataURL) {
-          undoStack.current.push(dataURL);
-          redoStack.current = [];
-          lastSavedSnapshot.current = dataURL;
-        }
-        
-        setTextElements([]);
-        setSelectedText(null);
-        setActiveTextInput(null);
-      }
-    }, [tool]);
-
-    // Modify the renderTextToCanvas function
-    const renderTextToCanvas = () => {
-      const canvas = canvasRef.current;
-      if (!canvas) return;
-      
-      // Create a temporary canvas
-      const tempCanvas = document.createElement('canvas');
-      tempCanvas.width = canvas.width;
-      tempCanvas.height = canvas.height;
-      const tempCtx = tempCanvas.getContext('2d')!;
-      
-      // Copy current canvas state
-      tempCtx.drawImage(canvas, 0, 0);
-      
-      // Render text elements
-      textElements.forEach(element => {
-        tempCtx.font = `${element.fontSize}px Arial`;
-        tempCtx.fillStyle = element.color;
-        // Adjust the text baseline to match the overlay positioning
-        tempCtx.textBaseline = 'middle';
-        tempCtx.fillText(element.text, element.x, element.y);
-      });
-      
-      // Copy back to main canvas
-      const ctx = canvas.getContext('2d')!;
-      ctx.clearRect(0, 0, canvas.width, canvas.height);
-      ctx.drawImage(tempCanvas, 0, 0);
-    };
-
     // Handle text editing
     const startEditing = (id: string) => {
       if (tool !== 'text') return;
-      setTextElements(prev => prev.map(el => ({
-        ...el,
-        isEditing: el.id === id,
-        isSelected: el.id === id
-      })));
-      setSelectedText(id);
+      textEditOrigin.current = findTextElement(id);
+      setEditingText(id);
+      selectText(id);
     };
 
-    const handleTextEdit = (id: string, newText: string) => {
-      setTextElements(prev => prev.map(el => 
-        el.id === id
-          ? {
-              ...el,
-              text: newText,
-              isEditing: false
-            }
-          : el
-      ));
+    const handleTextEdit = () => {
+      setEditingText(null);
+      finishTextChange();
     };
 
-    // Handle tool changes
+    // Leaving the text tool drops any in-progress text selection
     useEffect(() => {
       if (tool !== 'text') {
-        // Create a temporary canvas to ensure proper rendering
-        const tempCanvas = document.createElement('canvas');
-        const canvas = canvasRef.current;
-        if (!canvas) return;
-        
-        tempCanvas.width = canvas.width;
-        tempCanvas.height = canvas.height;
-        const tempCtx = tempCanvas.getContext('2d')!;
-        
-        // Copy current canvas state
-        tempCtx.drawImage(canvas, 0, 0);
-        
-        // Render text elements
-        textElements.forEach(element => {
-          tempCtx.font = `${element.fontSize}px Arial`;
-          tempCtx.fillStyle = element.color;
-          tempCtx.fillText(element.text, element.x, element.y);
-        });
-        
-        // Copy back to main canvas
-        const ctx = canvas.getContext('2d')!;
-        ctx.clearRect(0, 0, canvas.width, canvas.height);
-        ctx.drawImage(tempCanvas, 0, 0);
-        
-        // Save state and clear text elements
-        const dataURL = canvas.toDataURL();
-        if (dataURL && undoStack.current[undoStack.current.length - 1] !== dataURL) {
-          undoStack.current.push(dataURL);
-          redoStack.current = [];
-          lastSavedSnapshot.current = dataURL;
-        }
-        
-        setTextElements([]);
         setSelectedText(null);
+        setEditingText(null);
         setActiveTextInput(null);
       }
+      if (tool !== 'select') {
+        updateSelection([]);
+      }
     }, [tool]);
 
+    // Ids can outlive their elements after an undo, so resolve against the current model
+    const selectionBounds = getCommonBounds(elements.filter(el => selectedIds.includes(el.id)));
+
     // Update toolbar position when canvas size changes
     useEffect(() => {
       const updateToolbarPosition = () => {
@@ -934,8 +1780,9 @@ export const DrawingCanvas = ({ backgroundImage, block, editor }: { backgroundIm
         height: size.height,
         overflow: "hidden"
       }}
-      onMouseMove={handleMouseMove}
-      onMouseLeave={() => {
+      onPointerDown={handlePanPointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerLeave={() => {
         setMousePosition(null);
         stopDrawing();
       }}
@@ -957,66 +1804,65 @@ export const DrawingCanvas = ({ backgroundImage, block, editor }: { backgroundIm
         onClick={handleCanvasClick}
       >
         {/* Existing Text Elements */}
-        {textElements.map(element => (
+        {tool === 'text' && elements.map(element => element.type === 'text' && isElementVisible(element) && (
           <div
             key={element.id}
             style={{
-              position: 'absolute',
-              left: Math.min(element.x, size.width - 20),
-              top: element.y - (element.fontSize / 2),
-              cursor: tool === 'text' ? 'move' : 'default',
+              ...getTextOverlayPosition(element),
+              cursor: editingText === element.id ? 'text' : 'move',
               zIndex: 2,
             }}
             onClick={(e) => handleTextClick(e, element.id)}
             onMouseDown={(e) => handleTextMouseDown(e, element.id)}
           >
-            <div
-              style={{
-                font: `${element.fontSize}px Arial`,
-                color: element.color,
-                userSelect: 'none',
-                padding: '2px',
-                whiteSpace: 'nowrap',
-                border: element.isSelected ? '1px dashed #666' : 'none',
-                position: 'relative',
-              }}
-              onDoubleClick={(e) => {
-                e.stopPropagation();
-                startEditing(element.id);
-              }}
-            >
-              {element.isEditing ? (
-                <input
-                  autoFocus
-                  value={element.text}
-                  onChange={(e) => {
-                    setTextElements(prev => prev.map(el =>
-                      el.id === element.id ? { ...el, text: e.target.value } : el
-                    ));
-                  }}
-                  onBlur={() => handleTextEdit(element.id, element.text)}
-                  onKeyDown={(e) => {
-                    if (e.key === 'Enter') {
-                      e.preventDefault();
-                      e.stopPropagation();
-                      handleTextEdit(element.id, element.text);
-                    }
-                  }}
-                  style={{
-                    background: 'transparent',
-                    border: 'none',
-                    outline: 'none',
-                    font: `${element.fontSize}px Arial`,
-                    color: element.color,
-                    padding: '2px',
-                    margin: 0,
-                    width: 'auto'
-                  }}
-                />
-              ) : (
-                <>
-                  {element.text}
-                  {element.isSelected && (
+            {editingText === element.id ? (
+              <textarea
+                autoFocus
+                value={element.text}
+                onChange={(e) => updateTextElement(element.id, { text: e.target.value })}
+                onBlur={handleTextEdit}
+                onKeyDown={(e) => {
+                  // Shift+Enter starts a new line
+                  if ((e.key === 'Enter' && !e.shiftKey) || e.key === 'Escape') {
+                    e.preventDefault();
+                    e.stopPropagation();
+                    handleTextEdit();
+                  }
+                }}
+                style={getTextEditorStyle(element)}
+              />
+            ) : (
+              <div
+                style={{
+                  ...getTextOverlayStyle(element),
+                  userSelect: 'none',
+                  outline: selectedText === element.id ? '1px dashed #666' : 'none',
+                  position: 'relative',
+                }}
+                onDoubleClick={(e) => {
+                  e.stopPropagation();
+                  startEditing(element.id);
+                }}
+              >
+                {element.text}
+                {selectedText === element.id && (
+                  <>
+                    {/* Drag sideways to set the wrap width */}
+                    <div
+                      style={{
+                        position: 'absolute',
+                        top: '50%',
+                        right: -8,
+                        width: 6,
+                        height: 16,
+                        marginTop: -8,
+                        backgroundColor: '#666',
+                        cursor: 'ew-resize',
+                        borderRadius: 3,
+                      }}
+                      onMouseDown={(e) => handleTextResize(e, element.id, 'width')}
+                      title="Drag to set the wrap width"
+                    />
                     <div
                       style={{
                         position: 'absolute',
@@ -1028,50 +1874,38 @@ export const DrawingCanvas = ({ backgroundImage, block, editor }: { backgroundIm
                         cursor: 'nwse-resize',
                         borderRadius: '50%',
                       }}
-                      onMouseDown={(e) => handleTextResize(e, element.id)}
+                      onMouseDown={(e) => handleTextResize(e, element.id, 'font')}
+                      title="Drag to change the font size"
                     />
-                  )}
-                </>
-              )}
-            </div>
+                  </>
+                )}
+              </div>
+            )}
           </div>
         ))}
 
         {/* Active Text Input */}
-        {activeTextInput && (
-          <div
-            style={{
-              position: 'absolute',
-              left: Math.min(activeTextInput.x, size.width - 20),
-              top: activeTextInput.y - (fontSize / 2),
-              zIndex: 2,
-            }}
-          >
-            <input
-              autoFocus
-              value={textInputValue}
-              onChange={(e) => setTextInputValue(e.target.value)}
-              onBlur={handleTextComplete}
-              onKeyDown={(e) => {
-                if (e.key === 'Enter') {
-                  e.preventDefault();
-                  e.stopPropagation();
-                  handleTextComplete();
-                }
-              }}
-              style={{
-                background: 'transparent',
-                border: 'none',
-                outline: 'none',
-                font: `${fontSize}px Arial`,
-                color: brushColor,
-                padding: '2px',
-                margin: 0,
-                width: 'auto'
-              }}
-            />
-          </div>
-        )}
+        {activeTextInput && (() => {
+          const draft = getDraftText();
+          return (
+            <div style={{ ...getTextOverlayPosition(draft), zIndex: 2 }}>
+              <textarea
+                autoFocus
+                value={textInputValue}
+                onChange={(e) => setTextInputValue(e.target.value)}
+                onBlur={handleTextComplete}
+                onKeyDown={(e) => {
+                  if ((e.key === 'Enter' && !e.shiftKey) || e.key === 'Escape') {
+                    e.preventDefault();
+                    e.stopPropagation();
+                    handleTextComplete();
+                  }
+                }}
+                style={getTextEditorStyle(draft)}
+              />
+            </div>
+          );
+        })()}
       </div>
 
       <canvas
@@ -1086,12 +1920,53 @@ export const DrawingCanvas = ({ backgroundImage, block, editor }: { backgroundIm
           width: "100%", 
           height: "100%",
           pointerEvents: tool === 'text' ? 'none' : 'auto',
-          cursor: tool === 'eraser' ? 'none' : 'default'
+          // Let touch and pens draw instead of scrolling the page
+          touchAction: 'none',
+          cursor: isPanning ? 'grabbing' : tool === 'eraser' ? 'none' : 'default'
         }}
-        onMouseDown={handleMouseDown}
-        onMouseUp={handleMouseUp}
+        onPointerDown={handlePointerDown}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+        onDoubleClick={handleSelectDoubleClick}
       />
 
+      {/* Selection box with corner handles */}
+      {tool === 'select' && selectionBounds && (
+        <div
+          style={{
+            position: 'absolute',
+            left: toScreen(selectionBounds.x, selectionBounds.y).x - 4,
+            top: toScreen(selectionBounds.x, selectionBounds.y).y - 4,
+            width: selectionBounds.width * view.zoom + 8,
+            height: selectionBounds.height * view.zoom + 8,
+            border: '1px dashed #2196F3',
+            pointerEvents: 'none',
+            zIndex: 2
+          }}
+        >
+          {(['nw', 'ne', 'sw', 'se'] as const).map(corner => (
+            <div
+              key={corner}
+              onPointerDown={(e) => handleSelectionResizeMouseDown(e, corner)}
+              style={{
+                position: 'absolute',
+                left: corner.includes('w') ? -5 : undefined,
+                right: corner.includes('e') ? -5 : undefined,
+                top: corner.includes('n') ? -5 : undefined,
+                bottom: corner.includes('s') ? -5 : undefined,
+                width: 8,
+                height: 8,
+                backgroundColor: '#fff',
+                border: '1px solid #2196F3',
+                borderRadius: 2,
+                cursor: corner === 'nw' || corner === 'se' ? 'nwse-resize' : 'nesw-resize',
+                pointerEvents: 'auto'
+              }}
+            />
+          ))}
+        </div>
+      )}
+
       {/* Eraser cursor overlay */}
       {tool === 'eraser' && mousePosition && (
         <div
@@ -1110,6 +1985,37 @@ export const DrawingCanvas = ({ backgroundImage, block, editor }: { backgroundIm
         />
       )}
 
+      {canNavigate && isHovered && elements.length > 0 && (
+        <DrawingMinimap elements={elements} layers={layers} view={view} size={size} onNavigate={centerViewOn} />
+      )}
+
+      {isHovered && showLayers && (
+        <LayersPanel
+          layers={layers}
+          activeLayerId={activeLayerId}
+          onSelect={setActiveLayerId}
+          onAdd={handleAddLayer}
+          onDelete={handleDeleteLayer}
+          onMove={handleMoveLayer}
+          onRename={handleRenameLayer}
+          onChange={handleChangeLayer}
+        />
+      )}
+
+      {isHovered && showStylePanel && <StylePanel style={shapeStyle} onChange={updateShapeStyle} />}
+
+      {isHovered && showStamps && (
+        <StampPalette
+          stamps={[...BUILT_IN_STAMPS, ...customStamps]}
+          onPlace={handlePlaceStamp}
+          onDelete={handleDeleteStamp}
+          onSaveSelection={tool === 'select' && selectedIds.length > 0 ? handleSaveStamp : undefined}
+        />
+      )}
+
+      {showRuler && <Ruler zoom={view.zoom} />}
+      {showProtractor && <Protractor />}
+
       {/* Modern resize handle */}
       <div
         onMouseDown={handleResizeMouseDown}
@@ -1196,6 +2102,27 @@ export const DrawingCanvas = ({ backgroundImage, block, editor }: { backgroundIm
         >
           {/* Tool Buttons */}
           <div style={{ display: 'flex', gap: 4, borderRight: '1px solid #ddd', paddingRight: 8, flexShrink: 0 }}>
+            <button
+              onClick={() => setTool('select')}
+              style={{
+                fontSize: 16,
+                backgroundColor: tool === 'select' ? '#e0e0e0' : '#fff',
+                color: '#333',
+                border: 'none',
+                borderRadius: 4,
+                padding: '6px',
+                cursor: 'pointer',
+                display: 'flex',
+                alignItems: 'center',
+                justifyContent: 'center',
+                width: 32,
+                height: 32,
+                flexShrink: 0,
+              }}
+              title="Select Tool (drag to lasso, Shift+click to add, Backspace to delete)"
+            >
+              <FaMousePointer size={14} />
+            </button>
             <button
               onClick={() => setTool('pen')}
               style={{
@@ -1322,6 +2249,27 @@ export const DrawingCanvas = ({ backgroundImage, block, editor }: { backgroundIm
             >
               <FaCircle size={14} />
             </button>
+            <button
+              onClick={() => setTool('connector')}
+              style={{
+                fontSize: 16,
+                backgroundColor: tool === 'connector' ? '#e0e0e0' : '#fff',
+                color: '#333',
+                border: 'none',
+                borderRadius: 4,
+                padding: '6px',
+                cursor: 'pointer',
+                display: 'flex',
+                alignItems: 'center',
+                justifyContent: 'center',
+                width: 32,
+                height: 32,
+                flexShrink: 0,
+              }}
+              title="Connector Tool (drag from one shape or text to another)"
+            >
+              <FaProjectDiagram size={14} />
+            </button>
             <button
               onClick={() => setTool('text')}
               style={{
@@ -1343,6 +2291,142 @@ export const DrawingCanvas = ({ backgroundImage, block, editor }: { backgroundIm
             >
               <FaFont size={14} />
             </button>
+            <button
+              onClick={() => setShowLayers(show => !show)}
+              style={{
+                fontSize: 16,
+                backgroundColor: showLayers ? '#e0e0e0' : '#fff',
+                color: '#333',
+                border: 'none',
+                borderRadius: 4,
+                padding: '6px',
+                cursor: 'pointer',
+                display: 'flex',
+                alignItems: 'center',
+                justifyContent: 'center',
+                width: 32,
+                height: 32,
+                flexShrink: 0,
+              }}
+              title="Layers"
+            >
+              <FaLayerGroup size={14} />
+            </button>
+            <button
+              onClick={() => setShowStylePanel(show => !show)}
+              style={{
+                fontSize: 16,
+                backgroundColor: showStylePanel ? '#e0e0e0' : '#fff',
+                color: '#333',
+                border: 'none',
+                borderRadius: 4,
+                padding: '6px',
+                cursor: 'pointer',
+                display: 'flex',
+                alignItems: 'center',
+                justifyContent: 'center',
+                width: 32,
+                height: 32,
+                flexShrink: 0,
+              }}
+              title="Shape Style (fill, stroke, roughness, corners, opacity)"
+            >
+              <FaPalette size={14} />
+            </button>
+            <button
+              onClick={() => {
+                // Custom stamps may have been saved from another drawing
+                setCustomStamps(loadCustomStamps());
+                setShowStamps(show => !show);
+              }}
+              style={{
+                fontSize: 16,
+                backgroundColor: showStamps ? '#e0e0e0' : '#fff',
+                color: '#333',
+                border: 'none',
+                borderRadius: 4,
+                padding: '6px',
+                cursor: 'pointer',
+                display: 'flex',
+                alignItems: 'center',
+                justifyContent: 'center',
+                width: 32,
+                height: 32,
+                flexShrink: 0,
+              }}
+              title="Stamps"
+            >
+              <FaStamp size={14} />
+            </button>
+            {onEditImage && (
+              <button
+                onClick={onEditImage}
+                style={{
+                  fontSize: 16,
+                  backgroundColor: '#fff',
+                  color: '#333',
+                  border: 'none',
+                  borderRadius: 4,
+                  padding: '6px',
+                  cursor: 'pointer',
+                  display: 'flex',
+                  alignItems: 'center',
+                  justifyContent: 'center',
+                  width: 32,
+                  height: 32,
+                  flexShrink: 0,
+                }}
+                title="Crop, rotate or flip the image"
+              >
+                <FaCrop size={14} />
+              </button>
+            )}
+            {onRestoreFullSize && (
+              <button
+                onClick={onRestoreFullSize}
+                style={{
+                  fontSize: 16,
+                  backgroundColor: '#fff',
+                  color: '#333',
+                  border: 'none',
+                  borderRadius: 4,
+                  padding: '6px',
+                  cursor: 'pointer',
+                  display: 'flex',
+                  alignItems: 'center',
+                  justifyContent: 'center',
+                  width: 32,
+                  height: 32,
+                  flexShrink: 0,
+                }}
+                title="Restore the full-size image"
+              >
+                <FaExpandArrowsAlt size={14} />
+              </button>
+            )}
+            {onApplyRedactions && (
+              <button
+                onClick={() => setTool('redact')}
+                style={{
+                  fontSize: 16,
+                  backgroundColor: tool === 'redact' ? '#e0e0e0' : '#fff',
+                  color: '#333',
+                  border: 'none',
+                  borderRadius: 4,
+                  padding: '6px',
+                  cursor: 'pointer',
+                  display: 'flex',
+                  alignItems: 'center',
+                  justifyContent: 'center',
+                  width: 32,
+                  height: 32,
+                  flexShrink: 0,
+                }}
+                title="Redact Tool (drag over emails, tokens or names to hide them; click a mark to remove it)"
+              >
+                <FaEyeSlash size={14} />
+              </button>
+            )}
           </div>
 
           {/* Undo/Redo/Clear Buttons */}
@@ -1412,6 +2496,93 @@ export const DrawingCanvas = ({ backgroundImage, block, editor }: { backgroundIm
             </button>
           </div>
 
+          {/* Zoom Buttons */}
+          {canNavigate && (
+            <div style={{ display: 'flex', alignItems: 'center', gap: 4, borderRight: '1px solid #ddd', paddingRight: 8, flexShrink: 0 }}>
+              <button
+                onClick={() => zoomBy(1 / 1.25)}
+                style={{
+                  fontSize: 16,
+                  backgroundColor: '#fff',
+                  color: '#333',
+                  border: 'none',
+                  borderRadius: 4,
+                  padding: '6px',
+                  cursor: 'pointer',
+                  display: 'flex',
+                  alignItems: 'center',
+                  justifyContent: 'center',
+                  width: 32,
+                  height: 32,
+                  flexShrink: 0,
+                }}
+                title="Zoom Out"
+              >
+                <FaSearchMinus size={14} />
+              </button>
+              <button
+                onClick={() => zoomAt(1, size.width / 2, size.height / 2)}
+                style={{
+                  fontSize: 12,
+                  backgroundColor: '#fff',
+                  color: '#333',
+                  border: 'none',
+                  borderRadius: 4,
+                  padding: '6px',
+                  cursor: 'pointer',
+                  minWidth: 44,
+                  height: 32,
+                  flexShrink: 0,
+                }}
+                title="Reset Zoom to 100%"
+              >
+                {Math.round(view.zoom * 100)}%
+              </button>
+              <button
+                onClick={() => zoomBy(1.25)}
+                style={{
+                  fontSize: 16,
+                  backgroundColor: '#fff',
+                  color: '#333',
+                  border: 'none',
+                  borderRadius: 4,
+                  padding: '6px',
+                  cursor: 'pointer',
+                  display: 'flex',
+                  alignItems: 'center',
+                  justifyContent: 'center',
+                  width: 32,
+                  height: 32,
+                  flexShrink: 0,
+                }}
+                title="Zoom In (scroll or pinch over the drawing)"
+              >
+                <FaSearchPlus size={14} />
+              </button>
+              <button
+                onClick={zoomToFit}
+                style={{
+                  fontSize: 16,
+                  backgroundColor: '#fff',
+                  color: '#333',
+                  border: 'none',
+                  borderRadius: 4,
+                  padding: '6px',
+                  cursor: 'pointer',
+                  display: 'flex',
+                  alignItems: 'center',
+                  justifyContent: 'center',
+                  width: 32,
+                  height: 32,
+                  flexShrink: 0,
+                }}
+                title="Zoom to Fit"
+              >
+                <FaExpand size={14} />
+              </button>
+            </div>
+          )}
+
           {/* Brush Size */}
           <div style={{ display: "flex", alignItems: "center", gap: 6, borderRight: '1px solid #ddd', paddingRight: 8, flexShrink: 0 }}>
             <input
@@ -1425,6 +2596,9 @@ export const DrawingCanvas = ({ backgroundImage, block, editor }: { backgroundIm
                   setFontSize(value);
                 } else {
                   setBrushSize(value);
+                  if (tool === 'select') {
+                    applyStyleToSelection({ strokeWidth: value });
+                  }
                 }
               }}
               style={{
@@ -1438,6 +2612,391 @@ export const DrawingCanvas = ({ backgroundImage, block, editor }: { backgroundIm
             </span>
           </div>
 
+          {/* Stroke Style */}
+          {tool === 'pen' && (
+            <div style={{ display: "flex", alignItems: "center", gap: 6, borderRight: '1px solid #ddd', paddingRight: 8, flexShrink: 0 }}>
+              <button
+                onClick={() => updateStrokeSettings({ smooth: !strokeSettings.smooth })}
+                style={{
+                  fontSize: 12,
+                  backgroundColor: '#fff',
+                  color: '#333',
+                  border: '1px solid #ddd',
+                  borderRadius: 4,
+                  padding: '4px 8px',
+                  cursor: 'pointer',
+                  height: 28,
+                  flexShrink: 0,
+                }}
+                title="Switch between smooth tapered strokes and the hand-drawn look"
+              >
+                {strokeSettings.smooth ? 'Smooth' : 'Hand-drawn'}
+              </button>
+              <button
+                onClick={() => updateStrokeSettings({ snapShapes: !strokeSettings.snapShapes })}
+                style={{
+                  fontSize: 12,
+                  backgroundColor: strokeSettings.snapShapes ? '#e0e0e0' : '#fff',
+                  color: '#333',
+                  border: '1px solid #ddd',
+                  borderRadius: 4,
+                  padding: '4px 8px',
+                  cursor: 'pointer',
+                  height: 28,
+                  flexShrink: 0,
+                }}
+                title="Snap shapes: turn strokes that look like a line, arrow, rectangle, circle, triangle or diamond into clean shapes (undo to keep the stroke as drawn)"
+              >
+                Snap shapes
+              </button>
+              <span style={{ fontSize: 12, color: "#333", flexShrink: 0 }}>Steady</span>
+              <input
+                type="range"
+                min={0}
+                max={20}
+                value={strokeSettings.stabilizer}
+                onChange={(e) => updateStrokeSettings({ stabilizer: Number(e.target.value) })}
+                style={{
+                  width: 60,
+                  cursor: "pointer",
+                  flexShrink: 0,
+                }}
+                title="Stabilizer: higher values steady shaky lines but make the pen trail the pointer"
+              />
+            </div>
+          )}
+
+          {/* Redaction */}
+          {tool === 'redact' && (
+            <div style={{ display: "flex", alignItems: "center", gap: 4, borderRight: '1px solid #ddd', paddingRight: 8, flexShrink: 0 }}>
+              {REDACTION_EFFECTS.map(option => (
+                <button
+                  key={option.value}
+                  onClick={() => setRedactionEffect(option.value)}
+                  style={{
+                    fontSize: 12,
+                    backgroundColor: redactionEffect === option.value ? '#e0e0e0' : '#fff',
+                    color: '#333',
+                    border: '1px solid #ddd',
+                    borderRadius: 4,
+                    padding: '4px 8px',
+                    cursor: 'pointer',
+                    height: 28,
+                    flexShrink: 0,
+                  }}
+                >
+                  {option.label}
+                </button>
+              ))}
+              <button
+                onClick={handleApplyRedactions}
+                disabled={redactions.length === 0 || isApplyingRedactions}
+                style={{
+                  fontSize: 12,
+                  backgroundColor: '#e53935',
+                  color: '#fff',
+                  border: '1px solid #e53935',
+                  borderRadius: 4,
+                  padding: '4px 8px',
+                  cursor: 'pointer',
+                  height: 28,
+                  flexShrink: 0,
+                  opacity: redactions.length === 0 || isApplyingRedactions ? 0.5 : 1,
+                }}
+                title="Redraw the image with the marks burned in, so what they cover is gone for good"
+              >
+                {isApplyingRedactions ? 'Applying...' : `Apply (${redactions.length})`}
+              </button>
+              <button
+                onClick={() => updateRedactions([])}
+                disabled={redactions.length === 0}
+                style={{
+                  fontSize: 12,
+                  backgroundColor: '#fff',
+                  color: '#333',
+                  border: '1px solid #ddd',
+                  borderRadius: 4,
+                  padding: '4px 8px',
+                  cursor: 'pointer',
+                  height: 28,
+                  flexShrink: 0,
+                }}
+              >
+                Discard
+              </button>
+            </div>
+          )}
+
+          {/* Text Style */}
+          {tool === 'text' && (
+            <div style={{ display: "flex", alignItems: "center", gap: 4, borderRight: '1px solid #ddd', paddingRight: 8, flexShrink: 0 }}>
+              <select
+                value={textStyle.fontFamily}
+                onChange={(e) => updateTextStyle({ fontFamily: e.target.value as TextFont })}
+                style={{ fontSize: 12, height: 28, border: '1px solid #ddd', borderRadius: 4, cursor: 'pointer', flexShrink: 0 }}
+                title="Font"
+              >
+                {(Object.keys(TEXT_FONTS) as TextFont[]).map(font => (
+                  <option key={font} value={font} style={{ fontFamily: TEXT_FONTS[font].family }}>
+                    {TEXT_FONTS[font].label}
+                  </option>
+                ))}
+              </select>
+              <button
+                onClick={() => updateTextStyle({ bold: !textStyle.bold })}
+                style={{
+                  fontSize: 12,
+                  backgroundColor: textStyle.bold ? '#e0e0e0' : '#fff',
+                  color: '#333',
+                  border: '1px solid #ddd',
+                  borderRadius: 4,
+                  padding: '4px 6px',
+                  cursor: 'pointer',
+                  display: 'flex',
+                  alignItems: 'center',
+                  height: 28,
+                  flexShrink: 0,
+                }}
+                title="Bold"
+              >
+                <FaBold size={11} />
+              </button>
+              <button
+                onClick={() => updateTextStyle({ italic: !textStyle.italic })}
+                style={{
+                  fontSize: 12,
+                  backgroundColor: textStyle.italic ? '#e0e0e0' : '#fff',
+                  color: '#333',
+                  border: '1px solid #ddd',
+                  borderRadius: 4,
+                  padding: '4px 6px',
+                  cursor: 'pointer',
+                  display: 'flex',
+                  alignItems: 'center',
+                  height: 28,
+                  flexShrink: 0,
+                }}
+                title="Italic"
+              >
+                <FaItalic size={11} />
+              </button>
+              {([['left', FaAlignLeft], ['center', FaAlignCenter], ['right', FaAlignRight]] as const).map(([align, Icon]) => (
+                <button
+                  key={align}
+                  onClick={() => updateTextStyle({ align })}
+                  style={{
+                    fontSize: 12,
+                    backgroundColor: textStyle.align === align ? '#e0e0e0' : '#fff',
+                    color: '#333',
+                    border: '1px solid #ddd',
+                    borderRadius: 4,
+                    padding: '4px 6px',
+                    cursor: 'pointer',
+                    display: 'flex',
+                    alignItems: 'center',
+                    height: 28,
+                    flexShrink: 0,
+                  }}
+                  title={`Align ${align}`}
+                >
+                  <Icon size={11} />
+                </button>
+              ))}
+              <button
+                onClick={() => updateTextStyle({ background: textStyle.background ? '' : highlightColor })}
+                style={{
+                  fontSize: 12,
+                  backgroundColor: !!textStyle.background ? '#e0e0e0' : '#fff',
+                  color: '#333',
+                  border: '1px solid #ddd',
+                  borderRadius: 4,
+                  padding: '4px 6px',
+                  cursor: 'pointer',
+                  display: 'flex',
+                  alignItems: 'center',
+                  height: 28,
+                  flexShrink: 0,
+                }}
+                title="Highlight"
+              >
+                <FaHighlighter size={11} />
+              </button>
+              <input
+                type="color"
+                value={textStyle.background || highlightColor}
+                onChange={(e) => {
+                  setHighlightColor(e.target.value);
+                  updateTextStyle({ background: e.target.value });
+                }}
+                style={{ width: 22, height: 28, padding: 0, border: 'none', background: 'none', cursor: 'pointer', flexShrink: 0 }}
+                title="Highlight color"
+              />
+              <span style={{ fontSize: 12, color: "#333", marginLeft: 4, flexShrink: 0 }}>Rotate</span>
+              <input
+                type="range"
+                min={-180}
+                max={180}
+                step={5}
+                value={textStyle.rotation}
+                onChange={(e) => updateTextStyle({ rotation: Number(e.target.value) })}
+                style={{
+                  width: 60,
+                  cursor: "pointer",
+                  flexShrink: 0,
+                }}
+                title={`Rotation ${textStyle.rotation}°`}
+              />
+            </div>
+          )}
+
+          {/* Connector Style */}
+          {tool === 'connector' && (
+            <div style={{ display: "flex", alignItems: "center", gap: 6, borderRight: '1px solid #ddd', paddingRight: 8, flexShrink: 0 }}>
+              <button
+                onClick={() => setConnectorStyle(style => ({ ...style, route: style.route === 'straight' ? 'elbow' : 'straight' }))}
+                style={{
+                  fontSize: 12,
+                  backgroundColor: '#fff',
+                  color: '#333',
+                  border: '1px solid #ddd',
+                  borderRadius: 4,
+                  padding: '4px 8px',
+                  cursor: 'pointer',
+                  height: 28,
+                  flexShrink: 0,
+                }}
+                title="Switch between straight and elbow connectors"
+              >
+                {connectorStyle.route === 'straight' ? 'Straight' : 'Elbow'}
+              </button>
+              <button
+                onClick={() => setConnectorStyle(style => ({ ...style, arrowhead: !style.arrowhead }))}
+                style={{
+                  fontSize: 12,
+                  backgroundColor: '#fff',
+                  color: '#333',
+                  border: '1px solid #ddd',
+                  borderRadius: 4,
+                  padding: '4px 8px',
+                  cursor: 'pointer',
+                  height: 28,
+                  flexShrink: 0,
+                }}
+                title="Switch between an arrow and a plain line"
+              >
+                {connectorStyle.arrowhead ? 'Arrow' : 'Line'}
+              </button>
+            </div>
+          )}
+
+          {/* Pen Pressure */}
+          {(tool === 'pen' || tool === 'eraser') && (
+            <div
+              style={{ display: "flex", alignItems: "center", gap: 6, borderRight: '1px solid #ddd', paddingRight: 8, flexShrink: 0 }}
+              title="How much pen pressure changes the width (no effect with a mouse)"
+            >
+              <span style={{ fontSize: 12, color: "#333", flexShrink: 0 }}>Pressure</span>
+              <input
+                type="range"
+                min={0}
+                max={100}
+                value={Math.round(pressureSettings[tool] * 100)}
+                onChange={(e) => updatePressureSetting(tool, Number(e.target.value) / 100)}
+                style={{
+                  width: 60,
+                  cursor: "pointer",
+                  flexShrink: 0,
+                }}
+              />
+            </div>
+          )}
+
+          {/* Alignment Aids */}
+          <div style={{ display: "flex", alignItems: "center", gap: 4, borderRight: '1px solid #ddd', paddingRight: 8, flexShrink: 0 }}>
+            {canNavigate && (
+              <select
+                value={paper}
+                onChange={(e) => {
+                  const value = e.target.value as PaperStyle;
+                  setPaper(value);
+                  updateProps({ paper: value });
+                }}
+                style={{ fontSize: 12, height: 28, border: '1px solid #ddd', borderRadius: 4, cursor: 'pointer', flexShrink: 0 }}
+                title="Background"
+              >
+                {PAPER_STYLES.map(option => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+              </select>
+            )}
+            <button
+              onClick={() => {
+                setIsSnapping(!isSnapping);
+                updateProps({ snapToGrid: !isSnapping });
+              }}
+              style={{
+                fontSize: 16,
+                backgroundColor: isSnapping ? '#e0e0e0' : '#fff',
+                color: '#333',
+                border: 'none',
+                borderRadius: 4,
+                padding: '6px',
+                cursor: 'pointer',
+                display: 'flex',
+                alignItems: 'center',
+                justifyContent: 'center',
+                width: 32,
+                height: 32,
+                flexShrink: 0,
+              }}
+              title="Snap to grid (otherwise shapes line up with the ones around them)"
+            >
+              <FaMagnet size={14} />
+            </button>
+            <button
+              onClick={() => setShowRuler(show => !show)}
+              style={{
+                fontSize: 16,
+                backgroundColor: showRuler ? '#e0e0e0' : '#fff',
+                color: '#333',
+                border: 'none',
+                borderRadius: 4,
+                padding: '6px',
+                cursor: 'pointer',
+                display: 'flex',
+                alignItems: 'center',
+                justifyContent: 'center',
+                width: 32,
+                height: 32,
+                flexShrink: 0,
+              }}
+              title="Ruler"
+            >
+              <FaRulerHorizontal size={14} />
+            </button>
+            <button
+              onClick={() => setShowProtractor(show => !show)}
+              style={{
+                fontSize: 16,
+                backgroundColor: showProtractor ? '#e0e0e0' : '#fff',
+                color: '#333',
+                border: 'none',
+                borderRadius: 4,
+                padding: '6px',
+                cursor: 'pointer',
+                display: 'flex',
+                alignItems: 'center',
+                justifyContent: 'center',
+                width: 32,
+                height: 32,
+                flexShrink: 0,
+              }}
+              title="Protractor"
+            >
+              <FaDraftingCompass size={14} />
+            </button>
+          </div>
+
           {/* Color Picker */}
           <div style={{ flexShrink: 0 }}>
             <input
@@ -1445,14 +3004,10 @@ export const DrawingCanvas = ({ backgroundImage, block, editor }: { backgroundIm
               value={brushColor}
               onChange={(e) => {
                 setBrushColor(e.target.value);
-                if (editor && block) {
-                  editor.updateBlock(block, {
-                    props: {
-                      ...block.props,
-                      penColor: e.target.value
-                    }
-                  });
+                if (tool === 'select') {
+                  applyStyleToSelection({ color: e.target.value });
                 }
+                updateProps({ penColor: e.target.value });
               }}
               style={{
                 width: 32,
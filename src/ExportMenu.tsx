@@ -0,0 +1,115 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { HiSave } from 'react-icons/hi';
+
+export interface ExportOption {
+  label: string;
+  description: string;
+  onSelect: () => void | Promise<void>;
+}
+
+interface ExportMenuProps {
+  options: ExportOption[];
+}
+
+const fontFamily = "'Inter', -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, Helvetica, Arial, sans-serif";
+
+export const ExportMenu: React.FC<ExportMenuProps> = ({ options }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [busyLabel, setBusyLabel] = useState<string | null>(null);
+  const [hoveredLabel, setHoveredLabel] = useState<string | null>(null);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  // Close the menu when clicking anywhere else
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleClick = (e: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(e.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, [isOpen]);
+
+  const handleSelect = async (option: ExportOption) => {
+    setBusyLabel(option.label);
+    try {
+      await option.onSelect();
+    } catch (error) {
+      console.error("Error exporting notes:", error);
+      alert('Something went wrong while exporting. Please try again.');
+    }
+    setBusyLabel(null);
+    setIsOpen(false);
+  };
+
+  return (
+    <div ref={menuRef} style={{ position: 'relative' }}>
+      <button
+        onClick={() => setIsOpen(open => !open)}
+        style={{
+          background: 'none',
+          border: 'none',
+          padding: 0,
+          margin: 0,
+          cursor: 'pointer',
+          outline: 'none',
+          borderRadius: '12px',
+          width: 56,
+          height: 56,
+          display: 'flex',
+          alignItems: 'center',
+          justifyContent: 'center',
+          boxShadow: '0 2px 8px rgba(0,0,0,0.10)',
+          backgroundColor: '#fff',
+        }}
+        aria-label="Export Notes"
+        aria-expanded={isOpen}
+      >
+        <HiSave size={24} color="#5A5A5A" />
+      </button>
+      {isOpen && (
+        <div
+          style={{
+            position: 'absolute',
+            right: 66,
+            bottom: 0,
+            width: 240,
+            padding: 6,
+            backgroundColor: '#fff',
+            borderRadius: 12,
+            boxShadow: '0 4px 16px rgba(0,0,0,0.15)',
+            fontFamily,
+            textAlign: 'left',
+          }}
+        >
+          {options.map(option => (
+            <button
+              key={option.label}
+              onClick={() => handleSelect(option)}
+              disabled={busyLabel !== null}
+              onMouseEnter={() => setHoveredLabel(option.label)}
+              onMouseLeave={() => setHoveredLabel(null)}
+              style={{
+                display: 'block',
+                width: '100%',
+                padding: '8px 10px',
+                border: 'none',
+                borderRadius: 8,
+                textAlign: 'left',
+                cursor: busyLabel !== null ? 'wait' : 'pointer',
+                fontFamily,
+                backgroundColor: hoveredLabel === option.label ? '#f2f2f2' : 'transparent',
+              }}
+            >
+              <div style={{ fontSize: 14, fontWeight: 600, color: '#333' }}>
+                {busyLabel === option.label ? 'Exporting…' : option.label}
+              </div>
+              <div style={{ fontSize: 12, color: '#777', marginTop: 2 }}>{option.description}</div>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,479 @@
+import {
+  createReactBlockSpec,
+  type ReactCustomBlockImplementation,
+} from "@blocknote/react";
+import React, { useEffect, useRef, useState } from "react";
+import { FaChevronLeft, FaChevronRight, FaPlus, FaTimes } from "react-icons/fa";
+import { DrawingCanvas } from "./Drawing.tsx";
+import { createElementId, type DrawingElement } from "./drawingElements";
+import {
+  applyDrawingProps,
+  GALLERY_GAP,
+  GALLERY_LAYOUTS,
+  getGalleryColumnWidth,
+  parseGalleryImages,
+  serializeGalleryImages,
+  type GalleryImage,
+  type GalleryLayout
+} from "./galleryImages";
+import { applyImageEdit, applyRedactions, confirmRedactingCopies, restoreFullSizeImage } from "./imageActions";
+import { parseImageEdit, type ImageEdit } from "./imageEdit";
+import { ImageEditor } from "./ImageEditor";
+import { ingestImageFile, type IngestResult } from "./imageIngest";
+import type { RedactionMark } from "./redaction";
+
+const galleryBlockSpec = {
+  type: "gallery",
+  propSchema: {
+    layout: { default: "grid", values: ["grid", "carousel", "side-by-side", "slider"] as const },
+    // JSON array of the images, each with its own annotations
+    images: { default: "[]" }
+  },
+  content: "none" as const,
+};
+
+const buttonStyle = (active = false): React.CSSProperties => ({
+  fontSize: 12,
+  backgroundColor: active ? '#e0e0e0' : '#fff',
+  color: '#333',
+  border: '1px solid #ddd',
+  borderRadius: 4,
+  padding: '4px 8px',
+  cursor: 'pointer',
+  height: 28,
+  display: 'flex',
+  alignItems: 'center',
+  gap: 4,
+  flexShrink: 0,
+});
+
+const iconButtonStyle: React.CSSProperties = {
+  background: 'none',
+  border: 'none',
+  color: '#777',
+  cursor: 'pointer',
+  padding: 4,
+  display: 'flex',
+  alignItems: 'center',
+  flexShrink: 0,
+};
+
+// A new gallery image, scaled down to fit the layout it is added in
+const createGalleryImage = (image: IngestResult, maxWidth: number): GalleryImage => {
+  const scale = Math.min(1, maxWidth / image.width);
+  return {
+    id: createElementId(),
+    src: image.src,
+    width: Math.round(image.width * scale),
+    height: Math.round(image.height * scale),
+    caption: "",
+    elements: "[]",
+    layers: "[]",
+    ...(image.fullSizeSrc ? { fullSizeSrc: image.fullSizeSrc } : {})
+  };
+};
+
+const GalleryView = ({ block, editor }: any) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isDragging, setIsDragging] = useState(false);
+  // Image being cropped, rotated or flipped; its editor takes the place of the layout
+  const [editingImageId, setEditingImageId] = useState<string | null>(null);
+  const [slide, setSlide] = useState(0);
+  // Percentage of the slider comparison given to the first image
+  const [sliderPosition, setSliderPosition] = useState(50);
+
+  const layout: GalleryLayout = block.props.layout;
+  const images = parseGalleryImages(block.props.images);
+  const currentSlide = Math.min(slide, Math.max(0, images.length - 1));
+
+  // Canvases report changes from handlers set up on earlier renders, so always start from
+  // what the block holds now
+  const getImages = () => parseGalleryImages(editor.getBlock(block.id)?.props.images ?? block.props.images);
+
+  const saveImages = (next: GalleryImage[]) => {
+    editor.updateBlock(block, { props: { images: serializeGalleryImages(next) } });
+  };
+
+  const updateImage = (id: string, update: (image: GalleryImage) => GalleryImage) => {
+    saveImages(getImages().map(image => (image.id === id ? update(image) : image)));
+  };
+
+  const removeImage = (image: GalleryImage) => {
+    if (image.elements !== "[]" && !window.confirm("Remove this image and its annotations from the gallery?")) return;
+    saveImages(getImages().filter(other => other.id !== image.id));
+  };
+
+  const moveImage = (id: string, offset: number) => {
+    const next = getImages();
+    const from = next.findIndex(image => image.id === id);
+    const to = from + offset;
+    if (from < 0 || to < 0 || to >= next.length) return;
+    [next[from], next[to]] = [next[to], next[from]];
+    saveImages(next);
+  };
+
+  const addFiles = async (files: Blob[]) => {
+    const imageFiles = files.filter(file => file.type.startsWith("image/"));
+    if (imageFiles.length === 0) return;
+    setIsLoading(true);
+    try {
+      const added: GalleryImage[] = [];
+      for (const file of imageFiles) {
+        added.push(createGalleryImage(await ingestImageFile(file), getGalleryColumnWidth(layout)));
+      }
+      const existing = getImages();
+      saveImages([...existing, ...added]);
+      // Show the first new image
+      setSlide(existing.length);
+    } catch (error) {
+      console.error("Error adding images to gallery:", error);
+      alert("Some images couldn't be added. Please try again.");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Pasting while the gallery is focused adds the image to it
+  useEffect(() => {
+    const handlePaste = (e: ClipboardEvent) => {
+      const isBlockFocused = editor.getTextCursorPosition()?.block?.id === block.id;
+      const isPasteInContainer = containerRef.current?.contains(e.target as Node);
+      if (!isBlockFocused && !isPasteInContainer) return;
+
+      const files = Array.from(e.clipboardData?.items || [])
+        .filter(item => item.type.startsWith('image'))
+        .map(item => item.getAsFile())
+        .filter((file): file is File => !!file);
+      if (files.length === 0) return;
+      e.preventDefault();
+      e.stopPropagation();
+      addFiles(files);
+    };
+
+    document.addEventListener('paste', handlePaste, true);
+    return () => document.removeEventListener('paste', handlePaste, true);
+  }, [block, editor]);
+
+  // Listened for directly on the container, like image blocks do: the editor's own drop
+  // handler stops these events before they would reach React's handlers
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    const handleDragOver = (e: DragEvent) => {
+      e.preventDefault();
+      e.stopPropagation();
+      setIsDragging(true);
+    };
+
+    const handleDragLeave = (e: DragEvent) => {
+      if (!container.contains(e.relatedTarget as Node)) setIsDragging(false);
+    };
+
+    const handleDrop = (e: DragEvent) => {
+      e.preventDefault();
+      e.stopPropagation();
+      setIsDragging(false);
+      addFiles(Array.from(e.dataTransfer?.files || []));
+    };
+
+    container.addEventListener('dragover', handleDragOver);
+    container.addEventListener('dragleave', handleDragLeave);
+    container.addEventListener('drop', handleDrop);
+    return () => {
+      container.removeEventListener('dragover', handleDragOver);
+      container.removeEventListener('dragleave', handleDragLeave);
+      container.removeEventListener('drop', handleDrop);
+    };
+  }, [block, editor, layout]);
+
+  // Gallery images are cropped, restored and redacted like image blocks
+  const handleApplyImageEdit = async (image: GalleryImage, edit: ImageEdit) => {
+    try {
+      const changes = await applyImageEdit(image, edit);
+      updateImage(image.id, current => ({ ...current, ...changes }));
+      setEditingImageId(null);
+    } catch (error) {
+      console.error("Error editing image:", error);
+      alert("This image couldn't be edited. Images linked from other websites can only be edited if the website allows it.");
+    }
+  };
+
+  const handleRestoreFullSize = async (image: GalleryImage) => {
+    try {
+      const changes = await restoreFullSizeImage(image);
+      updateImage(image.id, current => ({ ...current, ...changes }));
+    } catch (error) {
+      console.error("Error restoring full-size image:", error);
+      alert("The full-size image couldn't be restored.");
+    }
+  };
+
+  const handleApplyRedactions = async (image: GalleryImage, marks: RedactionMark[], elements: DrawingElement[]) => {
+    if (!confirmRedactingCopies(image)) return;
+    try {
+      const changes = await applyRedactions(image, marks, elements);
+      updateImage(image.id, current => ({ ...current, ...changes }));
+    } catch (error) {
+      console.error("Error applying redactions:", error);
+      alert("The redactions couldn't be applied. Images linked from other websites can only be redacted if the website allows it.");
+    }
+  };
+
+  const renderCanvas = (image: GalleryImage) => (
+    <DrawingCanvas
+      key={image.id}
+      backgroundImage={image.src}
+      block={{ id: `${block.id}-${image.id}`, props: image }}
+      editor={editor}
+      onPropsChange={props => updateImage(image.id, current => applyDrawingProps(current, props))}
+      onEditImage={() => setEditingImageId(image.id)}
+      onApplyRedactions={(marks, elements) => handleApplyRedactions(image, marks, elements)}
+      onRestoreFullSize={image.fullSizeSrc ? () => handleRestoreFullSize(image) : undefined}
+    />
+  );
+
+  const renderCaption = (image: GalleryImage, index: number, canMove = false) => (
+    <div style={{ display: 'flex', alignItems: 'center', gap: 2, width: image.width, maxWidth: '100%' }}>
+      {canMove && (
+        <button
+          onClick={() => moveImage(image.id, -1)}
+          disabled={index === 0}
+          style={{ ...iconButtonStyle, opacity: index === 0 ? 0.3 : 1 }}
+          title="Move earlier"
+        >
+          <FaChevronLeft size={10} />
+        </button>
+      )}
+      <input
+        value={image.caption}
+        onChange={(e) => {
+          const caption = e.target.value;
+          updateImage(image.id, current => ({ ...current, caption }));
+        }}
+        placeholder={`Image ${index + 1}`}
+        style={{
+          flex: 1,
+          minWidth: 0,
+          fontSize: 13,
+          color: '#555',
+          border: 'none',
+          borderBottom: '1px solid transparent',
+          textAlign: 'center',
+          background: 'none',
+          outline: 'none',
+        }}
+        onFocus={(e) => (e.currentTarget.style.borderBottomColor = '#ddd')}
+        onBlur={(e) => (e.currentTarget.style.borderBottomColor = 'transparent')}
+      />
+      {canMove && (
+        <button
+          onClick={() => moveImage(image.id, 1)}
+          disabled={index === images.length - 1}
+          style={{ ...iconButtonStyle, opacity: index === images.length - 1 ? 0.3 : 1 }}
+          title="Move later"
+        >
+          <FaChevronRight size={10} />
+        </button>
+      )}
+      <button onClick={() => removeImage(image)} style={iconButtonStyle} title="Remove from gallery">
+        <FaTimes size={11} />
+      </button>
+    </div>
+  );
+
+  const renderFigure = (image: GalleryImage, index: number, canMove = false) => (
+    <div key={image.id} style={{ display: 'flex', flexDirection: 'column', alignItems: 'center', gap: 4 }}>
+      {renderCanvas(image)}
+      {renderCaption(image, index, canMove)}
+    </div>
+  );
+
+  const renderLayout = () => {
+    const editingImage = images.find(image => image.id === editingImageId);
+    if (editingImage) {
+      return (
+        <ImageEditor
+          src={editingImage.originalSrc || editingImage.src}
+          edit={parseImageEdit(editingImage.imageEdit)}
+          onApply={edit => handleApplyImageEdit(editingImage, edit)}
+          onCancel={() => setEditingImageId(null)}
+        />
+      );
+    }
+
+    if (layout === 'carousel') {
+      const image = images[currentSlide];
+      return (
+        <div style={{ display: 'flex', flexDirection: 'column', alignItems: 'center', gap: 6 }}>
+          {renderFigure(image, currentSlide)}
+          <div style={{ display: 'flex', alignItems: 'center', gap: 8 }}>
+            <button
+              onClick={() => setSlide(currentSlide - 1)}
+              disabled={currentSlide === 0}
+              style={{ ...buttonStyle(), opacity: currentSlide === 0 ? 0.5 : 1 }}
+              title="Previous image"
+            >
+              <FaChevronLeft size={12} />
+            </button>
+            <span style={{ fontSize: 12, color: '#777' }}>{currentSlide + 1} / {images.length}</span>
+            <button
+              onClick={() => setSlide(currentSlide + 1)}
+              disabled={currentSlide === images.length - 1}
+              style={{ ...buttonStyle(), opacity: currentSlide === images.length - 1 ? 0.5 : 1 }}
+              title="Next image"
+            >
+              <FaChevronRight size={12} />
+            </button>
+          </div>
+        </div>
+      );
+    }
+
+    // The compare layouts put the first two images against each other
+    if ((layout === 'side-by-side' || layout === 'slider') && images.length >= 2) {
+      const [before, after] = images;
+      if (layout === 'side-by-side') {
+        return (
+          <div style={{ display: 'flex', gap: GALLERY_GAP, alignItems: 'flex-start', overflowX: 'auto' }}>
+            {renderFigure(before, 0)}
+            {renderFigure(after, 1)}
+          </div>
+        );
+      }
+      // The first image covers the left part and the second shows through on the right;
+      // each is annotated where it is visible
+      return (
+        <div style={{ display: 'flex', flexDirection: 'column', alignItems: 'center', gap: 6 }}>
+          <div
+            style={{
+              position: 'relative',
+              width: Math.max(before.width, after.width),
+              height: Math.max(before.height, after.height),
+            }}
+          >
+            <div style={{ position: 'absolute', top: 0, left: 0 }}>{renderCanvas(after)}</div>
+            <div
+              style={{
+                position: 'absolute',
+                top: 0,
+                left: 0,
+                bottom: 0,
+                width: `${sliderPosition}%`,
+                overflow: 'hidden',
+              }}
+            >
+              {renderCanvas(before)}
+            </div>
+            <div
+              style={{
+                position: 'absolute',
+                top: 0,
+                bottom: 0,
+                left: `${sliderPosition}%`,
+                width: 2,
+                marginLeft: -1,
+                backgroundColor: '#fff',
+                boxShadow: '0 0 4px rgba(0, 0, 0, 0.5)',
+                pointerEvents: 'none',
+              }}
+            />
+          </div>
+          <div style={{ display: 'flex', alignItems: 'center', gap: 8, width: Math.max(before.width, after.width), maxWidth: '100%' }}>
+            <div style={{ flex: 1 }}>{renderCaption(before, 0)}</div>
+            <input
+              type="range"
+              min={0}
+              max={100}
+              value={sliderPosition}
+              onChange={(e) => setSliderPosition(Number(e.target.value))}
+              style={{ width: 160, cursor: 'pointer', flexShrink: 0 }}
+              title="Drag to compare"
+            />
+            <div style={{ flex: 1 }}>{renderCaption(after, 1)}</div>
+          </div>
+        </div>
+      );
+    }
+
+    return (
+      <div style={{ display: 'flex', flexWrap: 'wrap', gap: GALLERY_GAP, alignItems: 'flex-start' }}>
+        {images.map((image, index) => renderFigure(image, index, layout === 'grid'))}
+      </div>
+    );
+  };
+
+  return (
+    <div
+      ref={containerRef}
+      contentEditable={false}
+      style={{
+        display: 'flex',
+        flexDirection: 'column',
+        gap: 8,
+        padding: 8,
+        border: isDragging ? '2px dashed #2196F3' : '1px solid #eee',
+        borderRadius: 8,
+        fontFamily: "'Inter', sans-serif",
+        backgroundColor: isDragging ? '#e3f2fd' : '#fff',
+      }}
+    >
+      <div style={{ display: 'flex', alignItems: 'center', gap: 4, flexWrap: 'wrap' }}>
+        {GALLERY_LAYOUTS.map(option => (
+          <button
+            key={option.value}
+            onClick={() => editor.updateBlock(block, { props: { layout: option.value } })}
+            style={buttonStyle(layout === option.value)}
+          >
+            {option.label}
+          </button>
+        ))}
+        <button
+          onClick={() => inputRef.current?.click()}
+          disabled={isLoading}
+          style={{ ...buttonStyle(), marginLeft: 'auto', opacity: isLoading ? 0.6 : 1 }}
+          title="Add images (or paste or drop them here)"
+        >
+          <FaPlus size={10} />
+          {isLoading ? 'Adding...' : 'Add images'}
+        </button>
+        <input
+          ref={inputRef}
+          type="file"
+          accept="image/*"
+          multiple
+          onChange={(e) => {
+            addFiles(Array.from(e.target.files || []));
+            e.target.value = '';
+          }}
+          style={{ display: 'none' }}
+        />
+      </div>
+
+      {images.length === 0 ? (
+        <div style={{ padding: 24, textAlign: 'center', color: '#666', fontSize: 14 }}>
+          {isLoading ? 'Processing images...' : 'Add, paste or drop images to compare them'}
+        </div>
+      ) : (
+        <>
+          {renderLayout()}
+          {(layout === 'side-by-side' || layout === 'slider') && images.length !== 2 && (
+            <div style={{ fontSize: 12, color: '#777', textAlign: 'center' }}>
+              {images.length < 2
+                ? 'Add a second image to compare'
+                : 'Comparing the first two images; reorder them in the grid layout to compare others'}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+const galleryBlockImplementation: ReactCustomBlockImplementation<typeof galleryBlockSpec, any, any> = {
+  render: (props) => <GalleryView {...props} />,
+};
+
+export const Gallery = createReactBlockSpec(galleryBlockSpec, galleryBlockImplementation);
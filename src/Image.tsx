@@ -4,12 +4,30 @@ import {
   } from "@blocknote/react";
   import React, { useRef, useEffect, useState } from "react";
   import { DrawingCanvas } from "./Drawing.tsx"; // Make sure this path is correct
+  import { ImageEditor } from "./ImageEditor";
+  import { getImageBlockProps, ingestImageFile, type IngestResult } from "./imageIngest";
+  import type { DrawingElement } from "./drawingElements";
+  import { parseImageEdit, type ImageEdit } from "./imageEdit";
+  import { applyImageEdit, applyRedactions, confirmRedactingCopies, restoreFullSizeImage } from "./imageActions";
+  import { resolveAssetUrl } from "./assets";
+  import type { RedactionMark } from "./redaction";
   
   const imageUploadBlockSpec = {
     type: "imageUpload",
     propSchema: {
       src: { default: "" },
+      // The pasted image before it was scaled down, if the image settings keep it
+      fullSizeSrc: { default: "" },
+      // The upload before it was cropped, rotated or flipped; empty while `src` is unedited
+      originalSrc: { default: "" },
+      imageEdit: { default: "{}" },
+      // Redaction marks not yet burned into `src`
+      redactions: { default: "[]" },
       canvasData: { default: "" },
+      elements: { default: "[]" },
+      layers: { default: "[]" },
+      shapeStyle: { default: "{}" },
+      snapToGrid: { default: false },
       width: { default: 800 },
       height: { default: 400 }
     },
@@ -22,10 +40,12 @@ import {
     const [imageError, setImageError] = useState<string | null>(null);
     const [isDragging, setIsDragging] = useState(false);
     const [isLoading, setIsLoading] = useState(false);
+    const [isEditingImage, setIsEditingImage] = useState(false);
 
     const validateAndUpdateImage = async (dataUrl: string) => {
       setIsLoading(true);
       try {
+        const url = await resolveAssetUrl(dataUrl);
         // Create a new image and wait for it to load
         await new Promise<void>((resolve, reject) => {
           const img = document.createElement('img');
@@ -36,17 +56,26 @@ import {
 
           img.onload = () => {
             clearTimeout(timeoutId);
+            // Re-validating the current image must not reset its drawing or size
+            const isNewImage = dataUrl !== block.props.src;
             // Update the block with a slight delay to ensure the editor is ready
             setTimeout(() => {
-              editor.updateBlock(block, {
-                type: "imageUpload",
-                props: {
-                  src: dataUrl,
-                  canvasData: "",
-                  width: img.naturalWidth,
-                  height: img.naturalHeight
-                }
-              });
+              if (isNewImage) {
+                editor.updateBlock(block, {
+                  type: "imageUpload",
+                  props: {
+                    src: dataUrl,
+                    originalSrc: "",
+                    imageEdit: "{}",
+                    fullSizeSrc: "",
+                    redactions: "[]",
+                    canvasData: "",
+                    elements: "[]",
+                    width: img.naturalWidth,
+                    height: img.naturalHeight
+                  }
+                });
+              }
               setImageError(null);
               setIsLoading(false);
               resolve();
@@ -58,7 +87,7 @@ import {
             reject(new Error("Failed to load image"));
           };
 
-          img.src = dataUrl;
+          img.src = url;
         });
       } catch (error) {
         console.error("Error processing image:", error);
@@ -68,6 +97,23 @@ import {
       }
     };
 
+    // Store a freshly pasted, dropped or uploaded image, starting a new drawing on it
+    const updateImage = (image: IngestResult) => {
+      editor.updateBlock(block, {
+        type: "imageUpload",
+        props: {
+          ...getImageBlockProps(image),
+          originalSrc: "",
+          imageEdit: "{}",
+          redactions: "[]",
+          canvasData: "",
+          elements: "[]"
+        }
+      });
+      setImageError(null);
+      setIsLoading(false);
+    };
+
     // Handle clipboard paste events
     useEffect(() => {
       const handlePaste = async (e: ClipboardEvent) => {
@@ -91,28 +137,7 @@ import {
 
           try {
             setIsLoading(true);
-            const dataUrl = await new Promise<string>((resolve, reject) => {
-              const reader = new FileReader();
-              const timeoutId = setTimeout(() => {
-                reject(new Error("File reading timed out"));
-              }, 5000); // 5 second timeout
-
-              reader.onload = () => {
-                clearTimeout(timeoutId);
-                if (typeof reader.result === 'string') {
-                  resolve(reader.result);
-                } else {
-                  reject(new Error("Invalid file data"));
-                }
-              };
-              reader.onerror = () => {
-                clearTimeout(timeoutId);
-                reject(reader.error);
-              };
-              reader.readAsDataURL(blob);
-            });
-
-            await validateAndUpdateImage(dataUrl);
+            updateImage(await ingestImageFile(blob));
           } catch (error) {
             console.error("Error processing pasted image:", error);
             setImageError("Failed to process pasted image. Please try again.");
@@ -137,28 +162,7 @@ import {
   
       try {
         setIsLoading(true);
-        const dataUrl = await new Promise<string>((resolve, reject) => {
-          const reader = new FileReader();
-          const timeoutId = setTimeout(() => {
-            reject(new Error("File reading timed out"));
-          }, 5000); // 5 second timeout
-
-          reader.onload = () => {
-            clearTimeout(timeoutId);
-            if (typeof reader.result === 'string') {
-              resolve(reader.result);
-            } else {
-              reject(new Error("Invalid file data"));
-            }
-          };
-          reader.onerror = () => {
-            clearTimeout(timeoutId);
-            reject(reader.error);
-          };
-          reader.readAsDataURL(file);
-        });
-
-        await validateAndUpdateImage(dataUrl);
+        updateImage(await ingestImageFile(file));
       } catch (error) {
         console.error("Error processing uploaded image:", error);
         setImageError("Failed to process uploaded image. Please try again.");
@@ -166,6 +170,36 @@ import {
       }
     };
   
+    const handleApplyImageEdit = async (edit: ImageEdit) => {
+      try {
+        editor.updateBlock(block, { type: "imageUpload", props: await applyImageEdit(block.props, edit) });
+        setIsEditingImage(false);
+      } catch (error) {
+        console.error("Error editing image:", error);
+        alert("This image couldn't be edited. Images linked from other websites can only be edited if the website allows it.");
+      }
+    };
+
+    const handleRestoreFullSize = async () => {
+      try {
+        editor.updateBlock(block, { type: "imageUpload", props: await restoreFullSizeImage(block.props) });
+      } catch (error) {
+        console.error("Error restoring full-size image:", error);
+        alert("The full-size image couldn't be restored.");
+      }
+    };
+
+    const handleApplyRedactions = async (marks: RedactionMark[], elements: DrawingElement[]) => {
+      if (!confirmRedactingCopies(block.props)) return;
+      try {
+        const props = await applyRedactions(block.props, marks, elements);
+        editor.updateBlock(block, { type: "imageUpload", props: { ...props, canvasData: "" } });
+      } catch (error) {
+        console.error("Error applying redactions:", error);
+        alert("The redactions couldn't be applied. Images linked from other websites can only be redacted if the website allows it.");
+      }
+    };
+
     const handleUploadClick = () => {
       inputRef.current?.click();
     };
@@ -223,28 +257,7 @@ import {
           if (file) {
             try {
               setIsLoading(true);
-              const dataUrl = await new Promise<string>((resolve, reject) => {
-                const reader = new FileReader();
-                const timeoutId = setTimeout(() => {
-                  reject(new Error("File reading timed out"));
-                }, 5000); // 5 second timeout
-
-                reader.onload = () => {
-                  clearTimeout(timeoutId);
-                  if (typeof reader.result === 'string') {
-                    resolve(reader.result);
-                  } else {
-                    reject(new Error("Invalid file data"));
-                  }
-                };
-                reader.onerror = () => {
-                  clearTimeout(timeoutId);
-                  reject(reader.error);
-                };
-                reader.readAsDataURL(file);
-              });
-
-              await validateAndUpdateImage(dataUrl);
+              updateImage(await ingestImageFile(file));
             } catch (error) {
               console.error("Error processing dropped image:", error);
               setImageError("Failed to process dropped image. Please try again.");
@@ -259,28 +272,7 @@ import {
         if (imageFile) {
           try {
             setIsLoading(true);
-            const dataUrl = await new Promise<string>((resolve, reject) => {
-              const reader = new FileReader();
-              const timeoutId = setTimeout(() => {
-                reject(new Error("File reading timed out"));
-              }, 5000); // 5 second timeout
-
-              reader.onload = () => {
-                clearTimeout(timeoutId);
-                if (typeof reader.result === 'string') {
-                  resolve(reader.result);
-                } else {
-                  reject(new Error("Invalid file data"));
-                }
-              };
-              reader.onerror = () => {
-                clearTimeout(timeoutId);
-                reject(reader.error);
-              };
-              reader.readAsDataURL(imageFile);
-            });
-
-            await validateAndUpdateImage(dataUrl);
+            updateImage(await ingestImageFile(imageFile));
           } catch (error) {
             console.error("Error processing dropped image file:", error);
             setImageError("Failed to process dropped image file. Please try again.");
@@ -372,11 +364,25 @@ import {
       );
     }
   
+    if (uploaded && isEditingImage) {
+      return (
+        <ImageEditor
+          src={block.props.originalSrc || block.props.src}
+          edit={parseImageEdit(block.props.imageEdit)}
+          onApply={handleApplyImageEdit}
+          onCancel={() => setIsEditingImage(false)}
+        />
+      );
+    }
+  
     return uploaded ? (
         <DrawingCanvas 
           backgroundImage={block.props.src} 
           block={block} 
           editor={editor} 
+          onEditImage={() => setIsEditingImage(true)}
+          onApplyRedactions={handleApplyRedactions}
+          onRestoreFullSize={block.props.fullSizeSrc ? handleRestoreFullSize : undefined}
         />
       ) : (
         <div
@@ -0,0 +1,312 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { FaArrowsAltH, FaArrowsAltV, FaRedoAlt, FaUndoAlt } from 'react-icons/fa';
+import type { Bounds } from './drawingElements';
+import {
+  CROP_ASPECTS,
+  DEFAULT_IMAGE_EDIT,
+  fitCrop,
+  getEditTransform,
+  getRotatedSize,
+  normalizeRotation,
+  type ImageEdit
+} from './imageEdit';
+import { loadImage } from './assets';
+
+interface ImageEditorProps {
+  // The untouched upload; the edit is always made from it
+  src: string;
+  edit: ImageEdit;
+  onApply: (edit: ImageEdit) => Promise<void>;
+  onCancel: () => void;
+}
+
+const PREVIEW_WIDTH = 720;
+const PREVIEW_HEIGHT = 440;
+const MIN_CROP = 16;
+const HANDLE_SIZE = 12;
+
+type CropHandle = 'move' | 'nw' | 'ne' | 'sw' | 'se';
+
+const clamp = (value: number, min: number, max: number) => Math.min(Math.max(value, min), max);
+
+const buttonStyle = (active = false): React.CSSProperties => ({
+  fontSize: 12,
+  backgroundColor: active ? '#e0e0e0' : '#fff',
+  color: '#333',
+  border: '1px solid #ddd',
+  borderRadius: 4,
+  padding: '4px 8px',
+  cursor: 'pointer',
+  height: 28,
+  display: 'flex',
+  alignItems: 'center',
+  gap: 4,
+  flexShrink: 0,
+});
+
+const groupStyle: React.CSSProperties = {
+  display: 'flex',
+  alignItems: 'center',
+  gap: 4,
+  borderRight: '1px solid #ddd',
+  paddingRight: 8,
+  flexShrink: 0,
+};
+
+// Move a crop by (dx, dy) without leaving the image
+const moveCrop = (crop: Bounds, dx: number, dy: number, full: Bounds): Bounds => ({
+  ...crop,
+  x: Math.round(clamp(crop.x + dx, 0, full.width - crop.width)),
+  y: Math.round(clamp(crop.y + dy, 0, full.height - crop.height))
+});
+
+// Drag one corner of a crop while the opposite one stays put, keeping `ratio` if there is one
+const resizeCrop = (crop: Bounds, handle: CropHandle, dx: number, dy: number, full: Bounds, ratio: number | null): Bounds => {
+  const west = handle.includes('w');
+  const north = handle.includes('n');
+  const anchorX = west ? crop.x + crop.width : crop.x;
+  const anchorY = north ? crop.y + crop.height : crop.y;
+  const pointerX = (west ? crop.x : crop.x + crop.width) + dx;
+  const pointerY = (north ? crop.y : crop.y + crop.height) + dy;
+  let width = clamp(west ? anchorX - pointerX : pointerX - anchorX, MIN_CROP, west ? anchorX : full.width - anchorX);
+  let height = clamp(north ? anchorY - pointerY : pointerY - anchorY, MIN_CROP, north ? anchorY : full.height - anchorY);
+  if (ratio) {
+    if (width / height > ratio) width = height * ratio;
+    else height = width / ratio;
+  }
+  return {
+    x: Math.round(west ? anchorX - width : anchorX),
+    y: Math.round(north ? anchorY - height : anchorY),
+    width: Math.round(width),
+    height: Math.round(height)
+  };
+};
+
+export const ImageEditor: React.FC<ImageEditorProps> = ({ src, edit, onApply, onCancel }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [image, setImage] = useState<HTMLImageElement | null>(null);
+  const [draft, setDraft] = useState<ImageEdit>(edit);
+  const [aspect, setAspect] = useState<number | 'original' | null>(null);
+  const [isApplying, setIsApplying] = useState(false);
+
+  useEffect(() => {
+    loadImage(src)
+      .then(setImage)
+      .catch(error => console.error("Error loading image for editing:", error));
+  }, [src]);
+
+  const naturalWidth = image?.naturalWidth || 1;
+  const naturalHeight = image?.naturalHeight || 1;
+  // The whole image after flipping and turning, which the crop is chosen from
+  const rotated = getRotatedSize(naturalWidth, naturalHeight, draft.rotation);
+  const full: Bounds = { x: 0, y: 0, width: rotated.width, height: rotated.height };
+  const scale = Math.min(PREVIEW_WIDTH / full.width, PREVIEW_HEIGHT / full.height, 1);
+  const crop = draft.crop ?? full;
+  const getRatio = (value: number | 'original' | null) =>
+    value === 'original' ? naturalWidth / naturalHeight : value;
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || !image) return;
+    const ctx = canvas.getContext('2d')!;
+    ctx.setTransform(1, 0, 0, 1, 0, 0);
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+    const [a, b, c, d, e, f] = getEditTransform({ ...draft, crop: null }, naturalWidth, naturalHeight);
+    ctx.setTransform(a * scale, b * scale, c * scale, d * scale, e * scale, f * scale);
+    ctx.drawImage(image, 0, 0);
+  }, [image, draft.rotation, draft.flipX, draft.flipY, scale]);
+
+  // Turning or flipping starts the crop over, keeping the chosen aspect ratio
+  const updateOrientation = (changes: Partial<ImageEdit>) => {
+    setDraft(current => {
+      const next = { ...current, ...changes };
+      const size = getRotatedSize(naturalWidth, naturalHeight, next.rotation);
+      const ratio = getRatio(aspect);
+      return { ...next, crop: ratio ? fitCrop(ratio, { x: 0, y: 0, ...size }) : null };
+    });
+  };
+
+  const chooseAspect = (value: number | 'original' | null) => {
+    setAspect(value);
+    const ratio = getRatio(value);
+    if (ratio) setDraft(current => ({ ...current, crop: fitCrop(ratio, full) }));
+  };
+
+  const startCropDrag = (e: React.PointerEvent, handle: CropHandle) => {
+    e.preventDefault();
+    e.stopPropagation();
+    const start = { x: e.clientX, y: e.clientY };
+    const from = crop;
+    const ratio = getRatio(aspect);
+    const handleMove = (move: PointerEvent) => {
+      const dx = (move.clientX - start.x) / scale;
+      const dy = (move.clientY - start.y) / scale;
+      const next = handle === 'move' ? moveCrop(from, dx, dy, full) : resizeCrop(from, handle, dx, dy, full, ratio);
+      setDraft(current => ({ ...current, crop: next }));
+    };
+    const handleUp = () => {
+      document.removeEventListener('pointermove', handleMove);
+      document.removeEventListener('pointerup', handleUp);
+      document.removeEventListener('pointercancel', handleUp);
+    };
+    document.addEventListener('pointermove', handleMove);
+    document.addEventListener('pointerup', handleUp);
+    document.addEventListener('pointercancel', handleUp);
+  };
+
+  const handleApply = async () => {
+    setIsApplying(true);
+    const covering = draft.crop && draft.crop.x <= 0 && draft.crop.y <= 0 &&
+      draft.crop.width >= full.width && draft.crop.height >= full.height;
+    try {
+      await onApply({ ...draft, rotation: normalizeRotation(draft.rotation), crop: covering ? null : draft.crop });
+    } finally {
+      setIsApplying(false);
+    }
+  };
+
+  // The slider straightens within a quarter turn of the 90° steps
+  const quarterTurns = Math.round(draft.rotation / 90) * 90;
+  const straighten = Math.round((draft.rotation - quarterTurns) * 10) / 10;
+
+  return (
+    <div
+      contentEditable={false}
+      style={{
+        display: 'flex',
+        flexDirection: 'column',
+        gap: 8,
+        padding: 8,
+        border: '1px solid #ccc',
+        borderRadius: 8,
+        backgroundColor: '#fff',
+        boxShadow: '0px 2px 8px rgba(0, 0, 0, 0.15)',
+        fontFamily: "'Inter', sans-serif",
+        fontSize: 12,
+        color: '#333',
+        maxWidth: PREVIEW_WIDTH + 18,
+      }}
+      onMouseDown={(e) => e.stopPropagation()}
+    >
+      <div style={{ display: 'flex', alignItems: 'center', gap: 8, flexWrap: 'wrap' }}>
+        <div style={groupStyle}>
+          <span style={{ flexShrink: 0 }}>Crop</span>
+          {CROP_ASPECTS.map(option => (
+            <button key={option.label} onClick={() => chooseAspect(option.ratio)} style={buttonStyle(aspect === option.ratio)}>
+              {option.label}
+            </button>
+          ))}
+        </div>
+        <div style={groupStyle}>
+          <button
+            onClick={() => updateOrientation({ rotation: normalizeRotation(draft.rotation - 90) })}
+            style={buttonStyle()}
+            title="Rotate 90° counterclockwise"
+          >
+            <FaUndoAlt size={12} />
+          </button>
+          <button
+            onClick={() => updateOrientation({ rotation: normalizeRotation(draft.rotation + 90) })}
+            style={buttonStyle()}
+            title="Rotate 90° clockwise"
+          >
+            <FaRedoAlt size={12} />
+          </button>
+          <input
+            type="range"
+            min={-45}
+            max={45}
+            step={0.5}
+            value={straighten}
+            onChange={(e) => updateOrientation({ rotation: quarterTurns + Number(e.target.value) })}
+            style={{ width: 90, cursor: 'pointer', flexShrink: 0 }}
+            title="Straighten"
+          />
+          <span style={{ width: 40, color: '#777', flexShrink: 0 }}>{normalizeRotation(draft.rotation)}°</span>
+        </div>
+        <div style={groupStyle}>
+          <button onClick={() => updateOrientation({ flipX: !draft.flipX })} style={buttonStyle(draft.flipX)} title="Flip horizontally">
+            <FaArrowsAltH size={12} />
+          </button>
+          <button onClick={() => updateOrientation({ flipY: !draft.flipY })} style={buttonStyle(draft.flipY)} title="Flip vertically">
+            <FaArrowsAltV size={12} />
+          </button>
+        </div>
+        <button
+          onClick={() => {
+            setAspect(null);
+            setDraft({ ...DEFAULT_IMAGE_EDIT });
+          }}
+          style={buttonStyle()}
+          title="Back to the image as it was uploaded"
+        >
+          Reset
+        </button>
+        <div style={{ display: 'flex', gap: 4, marginLeft: 'auto' }}>
+          <button onClick={onCancel} style={buttonStyle()}>Cancel</button>
+          <button
+            onClick={handleApply}
+            disabled={!image || isApplying}
+            style={{ ...buttonStyle(), backgroundColor: '#2196F3', borderColor: '#2196F3', color: '#fff', opacity: !image || isApplying ? 0.6 : 1 }}
+          >
+            {isApplying ? 'Applying...' : 'Apply'}
+          </button>
+        </div>
+      </div>
+
+      <div
+        style={{
+          position: 'relative',
+          alignSelf: 'center',
+          width: Math.round(full.width * scale),
+          height: Math.round(full.height * scale),
+          overflow: 'hidden',
+          backgroundColor: '#f0f0f0',
+          touchAction: 'none',
+        }}
+      >
+        <canvas
+          ref={canvasRef}
+          width={Math.round(full.width * scale)}
+          height={Math.round(full.height * scale)}
+          style={{ display: 'block' }}
+        />
+        {image && (
+          <div
+            onPointerDown={(e) => startCropDrag(e, 'move')}
+            style={{
+              position: 'absolute',
+              left: crop.x * scale,
+              top: crop.y * scale,
+              width: crop.width * scale,
+              height: crop.height * scale,
+              border: '1px solid #fff',
+              // Dim everything outside the crop
+              boxShadow: '0 0 0 9999px rgba(0, 0, 0, 0.45)',
+              cursor: 'move',
+              boxSizing: 'border-box',
+            }}
+          >
+            {(['nw', 'ne', 'sw', 'se'] as const).map(handle => (
+              <div
+                key={handle}
+                onPointerDown={(e) => startCropDrag(e, handle)}
+                style={{
+                  position: 'absolute',
+                  width: HANDLE_SIZE,
+                  height: HANDLE_SIZE,
+                  [handle.includes('n') ? 'top' : 'bottom']: -HANDLE_SIZE / 2,
+                  [handle.includes('w') ? 'left' : 'right']: -HANDLE_SIZE / 2,
+                  backgroundColor: '#fff',
+                  border: '1px solid #2196F3',
+                  borderRadius: 2,
+                  cursor: handle === 'nw' || handle === 'se' ? 'nwse-resize' : 'nesw-resize',
+                }}
+              />
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
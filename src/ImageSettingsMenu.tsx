@@ -0,0 +1,167 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { HiAdjustments } from 'react-icons/hi';
+import {
+  formatBytes,
+  loadIngestSettings,
+  MAX_DIMENSIONS,
+  saveIngestSettings,
+  subscribeToIngestReports,
+  type IngestFormat,
+  type IngestResult,
+  type IngestSettings
+} from './imageIngest';
+
+const fontFamily = "'Inter', -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, Helvetica, Arial, sans-serif";
+
+const rowStyle: React.CSSProperties = {
+  display: 'flex',
+  alignItems: 'center',
+  justifyContent: 'space-between',
+  gap: 8,
+  padding: '6px 4px',
+  fontSize: 13,
+  color: '#333',
+};
+
+// How pasted and dropped images are shrunk before they are stored, and what the last one saved
+export const ImageSettingsMenu: React.FC = () => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [settings, setSettings] = useState<IngestSettings>(loadIngestSettings);
+  const [lastReport, setLastReport] = useState<IngestResult | null>(null);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => subscribeToIngestReports(setLastReport), []);
+
+  // Close the menu when clicking anywhere else
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleClick = (e: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(e.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, [isOpen]);
+
+  const updateSettings = (changes: Partial<IngestSettings>) => {
+    const next = { ...settings, ...changes };
+    setSettings(next);
+    saveIngestSettings(next);
+  };
+
+  return (
+    <div ref={menuRef} style={{ position: 'relative' }}>
+      <button
+        onClick={() => setIsOpen(open => !open)}
+        style={{
+          background: 'none',
+          border: 'none',
+          padding: 0,
+          margin: 0,
+          cursor: 'pointer',
+          outline: 'none',
+          borderRadius: '12px',
+          width: 56,
+          height: 56,
+          display: 'flex',
+          alignItems: 'center',
+          justifyContent: 'center',
+          boxShadow: '0 2px 8px rgba(0,0,0,0.10)',
+          backgroundColor: '#fff',
+        }}
+        aria-label="Image Settings"
+        aria-expanded={isOpen}
+      >
+        <HiAdjustments size={24} color="#5A5A5A" />
+      </button>
+      {isOpen && (
+        <div
+          style={{
+            position: 'absolute',
+            right: 66,
+            bottom: 0,
+            width: 260,
+            padding: 10,
+            backgroundColor: '#fff',
+            borderRadius: 12,
+            boxShadow: '0 4px 16px rgba(0,0,0,0.15)',
+            fontFamily,
+            textAlign: 'left',
+          }}
+        >
+          <div style={{ fontSize: 14, fontWeight: 600, color: '#333', padding: '0 4px 4px' }}>Pasted images</div>
+          <label style={{ ...rowStyle, cursor: 'pointer' }}>
+            <span>Shrink and compress</span>
+            <input
+              type="checkbox"
+              checked={settings.enabled}
+              onChange={(e) => updateSettings({ enabled: e.target.checked })}
+            />
+          </label>
+          <div style={{ opacity: settings.enabled ? 1 : 0.5, pointerEvents: settings.enabled ? 'auto' : 'none' }}>
+            <div style={rowStyle}>
+              <span>Longest side</span>
+              <select
+                value={settings.maxDimension}
+                onChange={(e) => updateSettings({ maxDimension: Number(e.target.value) })}
+                style={{ fontSize: 12, border: '1px solid #ddd', borderRadius: 4 }}
+              >
+                {MAX_DIMENSIONS.map(size => (
+                  <option key={size} value={size}>{size} px</option>
+                ))}
+              </select>
+            </div>
+            <div style={rowStyle}>
+              <span>Format</span>
+              <select
+                value={settings.format}
+                onChange={(e) => updateSettings({ format: e.target.value as IngestFormat })}
+                style={{ fontSize: 12, border: '1px solid #ddd', borderRadius: 4 }}
+              >
+                <option value="webp">WebP</option>
+                <option value="jpeg">JPEG</option>
+              </select>
+            </div>
+            <div style={rowStyle}>
+              <span>Quality</span>
+              <input
+                type="range"
+                min={0.5}
+                max={1}
+                step={0.05}
+                value={settings.quality}
+                onChange={(e) => updateSettings({ quality: Number(e.target.value) })}
+                style={{ flex: 1, minWidth: 0, cursor: 'pointer' }}
+              />
+              <span style={{ width: 34, textAlign: 'right', color: '#777', fontSize: 12 }}>
+                {Math.round(settings.quality * 100)}%
+              </span>
+            </div>
+            <label style={{ ...rowStyle, cursor: 'pointer' }} title="Makes notes bigger, but the full-resolution image isn't lost">
+              <span>Also keep the original</span>
+              <input
+                type="checkbox"
+                checked={settings.keepOriginal}
+                onChange={(e) => updateSettings({ keepOriginal: e.target.checked })}
+              />
+            </label>
+            <label style={{ ...rowStyle, cursor: 'pointer' }} title="Exported notes files are much bigger with the originals in them">
+              <span>Include originals in exported notes</span>
+              <input
+                type="checkbox"
+                checked={settings.exportOriginals}
+                onChange={(e) => updateSettings({ exportOriginals: e.target.checked })}
+              />
+            </label>
+          </div>
+          {lastReport && (
+            <div style={{ fontSize: 12, color: '#777', padding: '6px 4px 0', borderTop: '1px solid #eee', marginTop: 4 }}>
+              Last image: {formatBytes(lastReport.originalBytes)} → {formatBytes(lastReport.bytes)}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
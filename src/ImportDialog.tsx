@@ -0,0 +1,94 @@
+import React from 'react';
+
+export type ImportMode = 'append' | 'replace' | 'new-page';
+
+interface ImportDialogProps {
+  fileName: string;
+  // Notes files carry page-positioned comments and scribbles, so they can't be appended
+  allowAppend: boolean;
+  onChoose: (mode: ImportMode) => void;
+  onCancel: () => void;
+}
+
+const fontFamily = "'Inter', -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, Helvetica, Arial, sans-serif";
+
+const choiceStyle: React.CSSProperties = {
+  display: 'block',
+  width: '100%',
+  padding: '10px 14px',
+  marginBottom: 8,
+  border: '1px solid #e0e0e0',
+  borderRadius: 8,
+  backgroundColor: '#fff',
+  textAlign: 'left',
+  cursor: 'pointer',
+  fontFamily,
+};
+
+export const ImportDialog: React.FC<ImportDialogProps> = ({ fileName, allowAppend, onChoose, onCancel }) => {
+  const choices: { mode: ImportMode; label: string; description: string }[] = [
+    ...(allowAppend
+      ? [{ mode: 'append' as const, label: 'Add to this page', description: 'Insert the imported content after what is already here' }]
+      : []),
+    { mode: 'new-page', label: 'Import as a new page', description: 'Keep this page as it is and open the import on its own page' },
+    { mode: 'replace', label: 'Replace this page', description: 'Remove everything on this page, including comments and scribbles' },
+  ];
+
+  return (
+    <div
+      onClick={onCancel}
+      style={{
+        position: 'fixed',
+        inset: 0,
+        backgroundColor: 'rgba(0, 0, 0, 0.2)',
+        zIndex: 2000,
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+      }}
+    >
+      <div
+        onClick={(e) => e.stopPropagation()}
+        style={{
+          backgroundColor: 'white',
+          padding: '24px',
+          borderRadius: '12px',
+          boxShadow: '0 4px 24px rgba(0, 0, 0, 0.1)',
+          width: 380,
+          maxWidth: '90%',
+          fontFamily,
+          textAlign: 'left',
+        }}
+      >
+        <h2 style={{ marginTop: 0, marginBottom: 4, fontSize: 20, color: '#333' }}>Import notes</h2>
+        <p style={{ marginTop: 0, marginBottom: 16, fontSize: 14, color: '#666', wordBreak: 'break-all' }}>{fileName}</p>
+        {choices.map(choice => (
+          <button
+            key={choice.mode}
+            onClick={() => onChoose(choice.mode)}
+            style={{ ...choiceStyle, color: choice.mode === 'replace' ? '#dc3545' : '#333' }}
+          >
+            <div style={{ fontSize: 14, fontWeight: 600 }}>{choice.label}</div>
+            <div style={{ fontSize: 12, color: '#777', marginTop: 2 }}>{choice.description}</div>
+          </button>
+        ))}
+        <button
+          onClick={onCancel}
+          style={{
+            marginTop: 4,
+            padding: '8px 14px',
+            border: 'none',
+            borderRadius: 8,
+            backgroundColor: '#f0f0f0',
+            color: '#333',
+            cursor: 'pointer',
+            fontFamily,
+            fontSize: 14,
+          }}
+        >
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,162 @@
+import React from 'react';
+import { FaArrowDown, FaArrowUp, FaEye, FaEyeSlash, FaLock, FaPlus, FaTrash } from 'react-icons/fa';
+import { BACKGROUND_LAYER_ID, type DrawingLayer } from './drawingElements';
+
+interface LayersPanelProps {
+  // Bottom to top, as stored
+  layers: DrawingLayer[];
+  activeLayerId: string;
+  onSelect: (id: string) => void;
+  onAdd: () => void;
+  onDelete: (id: string) => void;
+  onMove: (id: string, direction: 'up' | 'down') => void;
+  onRename: (id: string) => void;
+  onChange: (id: string, changes: Partial<DrawingLayer>) => void;
+}
+
+const iconButtonStyle: React.CSSProperties = {
+  background: 'none',
+  border: 'none',
+  padding: 4,
+  cursor: 'pointer',
+  color: '#555',
+  display: 'flex',
+  alignItems: 'center',
+  flexShrink: 0,
+};
+
+export const LayersPanel: React.FC<LayersPanelProps> = ({
+  layers,
+  activeLayerId,
+  onSelect,
+  onAdd,
+  onDelete,
+  onMove,
+  onRename,
+  onChange,
+}) => {
+  const drawable = layers.filter(layer => layer.id !== BACKGROUND_LAYER_ID);
+
+  return (
+    <div
+      style={{
+        position: 'absolute',
+        top: 8,
+        right: 8,
+        width: 220,
+        padding: 6,
+        backgroundColor: 'rgba(255, 255, 255, 0.97)',
+        border: '1px solid #ccc',
+        borderRadius: 8,
+        boxShadow: '0px 2px 8px rgba(0, 0, 0, 0.15)',
+        fontSize: 12,
+        color: '#333',
+        zIndex: 4,
+        textAlign: 'left',
+      }}
+      onMouseDown={(e) => e.stopPropagation()}
+    >
+      <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', padding: '2px 4px 6px' }}>
+        <span style={{ fontWeight: 600 }}>Layers</span>
+        <button onClick={onAdd} style={iconButtonStyle} title="New Layer">
+          <FaPlus size={11} />
+        </button>
+      </div>
+
+      {/* Listed top to bottom, like the stacking on the canvas */}
+      {[...layers].reverse().map(layer => {
+        const isBackground = layer.id === BACKGROUND_LAYER_ID;
+        const index = drawable.indexOf(layer);
+        return (
+          <div
+            key={layer.id}
+            onClick={() => !isBackground && onSelect(layer.id)}
+            style={{
+              display: 'flex',
+              alignItems: 'center',
+              gap: 2,
+              padding: '2px 4px',
+              borderRadius: 4,
+              backgroundColor: layer.id === activeLayerId ? '#e3f2fd' : 'transparent',
+              cursor: isBackground ? 'default' : 'pointer',
+            }}
+          >
+            <button
+              onClick={(e) => {
+                e.stopPropagation();
+                onChange(layer.id, { visible: !layer.visible });
+              }}
+              style={iconButtonStyle}
+              title={layer.visible ? 'Hide Layer' : 'Show Layer'}
+            >
+              {layer.visible ? <FaEye size={12} /> : <FaEyeSlash size={12} />}
+            </button>
+            <span
+              onDoubleClick={() => !isBackground && onRename(layer.id)}
+              style={{
+                flex: 1,
+                overflow: 'hidden',
+                textOverflow: 'ellipsis',
+                whiteSpace: 'nowrap',
+                color: layer.visible ? '#333' : '#999',
+              }}
+              title={isBackground ? 'The image itself is locked' : 'Double-click to rename'}
+            >
+              {layer.name}
+            </span>
+            <input
+              type="range"
+              min={0}
+              max={100}
+              value={Math.round(layer.opacity * 100)}
+              onClick={(e) => e.stopPropagation()}
+              onChange={(e) => onChange(layer.id, { opacity: Number(e.target.value) / 100 })}
+              style={{ width: 50, cursor: 'pointer', flexShrink: 0 }}
+              title={`Opacity ${Math.round(layer.opacity * 100)}%`}
+            />
+            {isBackground ? (
+              <span style={{ ...iconButtonStyle, cursor: 'default', color: '#999' }} title="Locked">
+                <FaLock size={11} />
+              </span>
+            ) : (
+              <>
+                <button
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    onMove(layer.id, 'up');
+                  }}
+                  disabled={index === drawable.length - 1}
+                  style={{ ...iconButtonStyle, opacity: index === drawable.length - 1 ? 0.3 : 1 }}
+                  title="Move Up"
+                >
+                  <FaArrowUp size={10} />
+                </button>
+                <button
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    onMove(layer.id, 'down');
+                  }}
+                  disabled={index === 0}
+                  style={{ ...iconButtonStyle, opacity: index === 0 ? 0.3 : 1 }}
+                  title="Move Down"
+                >
+                  <FaArrowDown size={10} />
+                </button>
+                <button
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    onDelete(layer.id);
+                  }}
+                  style={{ ...iconButtonStyle, color: '#dc3545' }}
+                  title="Delete Layer"
+                >
+                  <FaTrash size={10} />
+                </button>
+              </>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
@@ -0,0 +1,176 @@
+import React, { useRef, useState } from 'react';
+
+// Ruler and protractor laid over a drawing like physical ones on paper: they stay where
+// they're put on screen while the drawing pans underneath, and the ruler's ticks follow
+// the zoom so it measures in drawing units.
+
+const RULER_LENGTH = 420;
+const RULER_WIDTH = 44;
+const PROTRACTOR_RADIUS = 120;
+
+// Follow a drag on the document until the pointer is released
+const trackDrag = (e: React.PointerEvent, onMove: (e: PointerEvent) => void) => {
+  e.preventDefault();
+  e.stopPropagation();
+  const handleUp = () => {
+    document.removeEventListener('pointermove', onMove);
+    document.removeEventListener('pointerup', handleUp);
+    document.removeEventListener('pointercancel', handleUp);
+  };
+  document.addEventListener('pointermove', onMove);
+  document.addEventListener('pointerup', handleUp);
+  document.addEventListener('pointercancel', handleUp);
+};
+
+const useDraggablePosition = (initial: { x: number; y: number }) => {
+  const [position, setPosition] = useState(initial);
+  const startDrag = (e: React.PointerEvent) => {
+    const from = { x: e.clientX - position.x, y: e.clientY - position.y };
+    trackDrag(e, move => setPosition({ x: move.clientX - from.x, y: move.clientY - from.y }));
+  };
+  return { position, startDrag };
+};
+
+export const Ruler = ({ zoom }: { zoom: number }) => {
+  const { position, startDrag } = useDraggablePosition({ x: 40, y: 70 });
+  const [angle, setAngle] = useState(0);
+  const ref = useRef<HTMLDivElement>(null);
+
+  // Turn around the zero end; whole degrees, or steps of 15 with Shift held
+  const startRotate = (e: React.PointerEvent) => {
+    const parent = ref.current?.offsetParent?.getBoundingClientRect();
+    if (!parent) return;
+    trackDrag(e, move => {
+      const degrees = (Math.atan2(move.clientY - parent.top - position.y, move.clientX - parent.left - position.x) * 180) / Math.PI;
+      setAngle(move.shiftKey ? Math.round(degrees / 15) * 15 : Math.round(degrees));
+    });
+  };
+
+  // Ticks every `step` drawing units, labelled every fifth one
+  let step = 10;
+  while (step * zoom < 6) step *= 5;
+  const ticks: number[] = [];
+  for (let units = 0; units * zoom <= RULER_LENGTH - 4; units += step) ticks.push(units);
+
+  return (
+    <div
+      ref={ref}
+      style={{
+        position: 'absolute',
+        left: position.x,
+        top: position.y,
+        width: RULER_LENGTH,
+        height: RULER_WIDTH,
+        transform: `rotate(${angle}deg)`,
+        transformOrigin: '0 0',
+        zIndex: 3,
+        cursor: 'move',
+        touchAction: 'none',
+      }}
+      onPointerDown={startDrag}
+    >
+      <svg width={RULER_LENGTH} height={RULER_WIDTH} style={{ display: 'block' }}>
+        <rect
+          x={0.5}
+          y={0.5}
+          width={RULER_LENGTH - 1}
+          height={RULER_WIDTH - 1}
+          rx={3}
+          fill="rgba(255, 244, 214, 0.85)"
+          stroke="#b09a62"
+        />
+        {ticks.map((units, i) => (
+          <g key={units}>
+            <line
+              x1={units * zoom + 0.5}
+              y1={0}
+              x2={units * zoom + 0.5}
+              y2={i % 5 === 0 ? 14 : 7}
+              stroke="#6b5a2e"
+            />
+            {i % 5 === 0 && (
+              <text x={units * zoom + 2} y={24} fontSize={9} fill="#6b5a2e" style={{ userSelect: 'none' }}>
+                {units}
+              </text>
+            )}
+          </g>
+        ))}
+        <text x={RULER_LENGTH - 44} y={RULER_WIDTH - 6} fontSize={10} fill="#6b5a2e" style={{ userSelect: 'none' }}>
+          {angle}°
+        </text>
+      </svg>
+      <div
+        onPointerDown={startRotate}
+        style={{
+          position: 'absolute',
+          right: -7,
+          top: RULER_WIDTH / 2 - 7,
+          width: 14,
+          height: 14,
+          borderRadius: '50%',
+          backgroundColor: '#b09a62',
+          cursor: 'grab',
+        }}
+        title="Drag to rotate (hold Shift for 15° steps)"
+      />
+    </div>
+  );
+};
+
+export const Protractor = () => {
+  const { position, startDrag } = useDraggablePosition({ x: 80, y: 140 });
+  const size = PROTRACTOR_RADIUS * 2;
+  const center = { x: PROTRACTOR_RADIUS, y: PROTRACTOR_RADIUS };
+  const pointAt = (degrees: number, radius: number) => ({
+    x: center.x + Math.cos((degrees * Math.PI) / 180) * radius,
+    y: center.y - Math.sin((degrees * Math.PI) / 180) * radius,
+  });
+  const degrees = Array.from({ length: 37 }, (_, i) => i * 5);
+
+  return (
+    <div
+      style={{
+        position: 'absolute',
+        left: position.x,
+        top: position.y,
+        width: size,
+        height: PROTRACTOR_RADIUS + 8,
+        zIndex: 3,
+        cursor: 'move',
+        touchAction: 'none',
+      }}
+      onPointerDown={startDrag}
+    >
+      <svg width={size} height={PROTRACTOR_RADIUS + 8} style={{ display: 'block', overflow: 'visible' }}>
+        <path
+          d={`M 0 ${center.y} A ${PROTRACTOR_RADIUS} ${PROTRACTOR_RADIUS} 0 0 1 ${size} ${center.y} Z`}
+          fill="rgba(214, 236, 255, 0.8)"
+          stroke="#5b84ad"
+        />
+        {degrees.map(degree => {
+          const outer = pointAt(degree, PROTRACTOR_RADIUS);
+          const inner = pointAt(degree, PROTRACTOR_RADIUS - (degree % 30 === 0 ? 16 : degree % 10 === 0 ? 10 : 6));
+          const label = pointAt(degree, PROTRACTOR_RADIUS - 26);
+          return (
+            <g key={degree}>
+              <line x1={outer.x} y1={outer.y} x2={inner.x} y2={inner.y} stroke="#35597d" />
+              {degree % 30 === 0 && (
+                <text
+                  x={label.x}
+                  y={label.y + 3}
+                  fontSize={9}
+                  fill="#35597d"
+                  textAnchor="middle"
+                  style={{ userSelect: 'none' }}
+                >
+                  {degree}
+                </text>
+              )}
+            </g>
+          );
+        })}
+        <circle cx={center.x} cy={center.y} r={3} fill="#35597d" />
+      </svg>
+    </div>
+  );
+};
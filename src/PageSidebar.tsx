@@ -0,0 +1,317 @@
+import React, { useState } from 'react';
+import {
+  HiMenu,
+  HiX,
+  HiPlus,
+  HiPencil,
+  HiOutlineTrash,
+  HiDocumentDuplicate,
+  HiChevronUp,
+  HiChevronDown,
+  HiChevronRight,
+  HiArrowRight,
+  HiArrowLeft,
+} from 'react-icons/hi';
+import { getActiveNotebook, getChildPages, type Page, type Workspace } from './notebooks';
+
+interface PageSidebarProps {
+  workspace: Workspace;
+  onSelectNotebook: (notebookId: string) => void;
+  onCreateNotebook: () => void;
+  onRenameNotebook: (notebookId: string) => void;
+  onDeleteNotebook: (notebookId: string) => void;
+  onSelectPage: (pageId: string) => void;
+  onCreatePage: (parentId: string | null) => void;
+  onRenamePage: (pageId: string, title: string) => void;
+  onDuplicatePage: (pageId: string) => void;
+  onMovePage: (pageId: string, direction: 'up' | 'down') => void;
+  onIndentPage: (pageId: string) => void;
+  onOutdentPage: (pageId: string) => void;
+  onDeletePage: (pageId: string) => void;
+}
+
+const fontFamily = "'Inter', -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, Helvetica, Arial, sans-serif";
+
+const iconButtonStyle: React.CSSProperties = {
+  background: 'none',
+  border: 'none',
+  padding: 3,
+  margin: 0,
+  cursor: 'pointer',
+  borderRadius: 4,
+  display: 'flex',
+  alignItems: 'center',
+  justifyContent: 'center',
+  color: '#5A5A5A',
+};
+
+export const PageSidebar = ({
+  workspace,
+  onSelectNotebook,
+  onCreateNotebook,
+  onRenameNotebook,
+  onDeleteNotebook,
+  onSelectPage,
+  onCreatePage,
+  onRenamePage,
+  onDuplicatePage,
+  onMovePage,
+  onIndentPage,
+  onOutdentPage,
+  onDeletePage
+}: PageSidebarProps) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [collapsedIds, setCollapsedIds] = useState<Set<string>>(new Set());
+  const [hoveredPageId, setHoveredPageId] = useState<string | null>(null);
+  const [renamingPageId, setRenamingPageId] = useState<string | null>(null);
+  const [renameValue, setRenameValue] = useState('');
+
+  const notebook = getActiveNotebook(workspace);
+
+  const toggleCollapsed = (pageId: string) => {
+    setCollapsedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(pageId)) {
+        next.delete(pageId);
+      } else {
+        next.add(pageId);
+      }
+      return next;
+    });
+  };
+
+  const startRenaming = (page: Page) => {
+    setRenamingPageId(page.id);
+    setRenameValue(page.title);
+  };
+
+  const finishRenaming = () => {
+    if (renamingPageId && renameValue.trim()) {
+      onRenamePage(renamingPageId, renameValue.trim());
+    }
+    setRenamingPageId(null);
+  };
+
+  const renderPage = (page: Page, depth: number): React.ReactNode => {
+    const children = getChildPages(notebook, page.id);
+    const isActive = page.id === workspace.activePageId;
+    const isCollapsed = collapsedIds.has(page.id);
+    const isHovered = hoveredPageId === page.id;
+
+    return (
+      <div key={page.id}>
+        <div
+          onClick={() => onSelectPage(page.id)}
+          onMouseEnter={() => setHoveredPageId(page.id)}
+          onMouseLeave={() => setHoveredPageId(null)}
+          style={{
+            display: 'flex',
+            alignItems: 'center',
+            gap: 4,
+            padding: `4px 6px 4px ${8 + depth * 16}px`,
+            borderRadius: 6,
+            cursor: 'pointer',
+            backgroundColor: isActive ? '#e3f2fd' : isHovered ? '#f2f2f2' : 'transparent',
+            color: isActive ? '#1976d2' : '#333',
+            fontWeight: isActive ? 600 : 400,
+          }}
+        >
+          <button
+            onClick={(e) => {
+              e.stopPropagation();
+              toggleCollapsed(page.id);
+            }}
+            style={{ ...iconButtonStyle, visibility: children.length > 0 ? 'visible' : 'hidden' }}
+            aria-label={isCollapsed ? 'Expand page' : 'Collapse page'}
+          >
+            {isCollapsed ? <HiChevronRight size={14} /> : <HiChevronDown size={14} />}
+          </button>
+          {renamingPageId === page.id ? (
+            <input
+              autoFocus
+              value={renameValue}
+              onClick={(e) => e.stopPropagation()}
+              onChange={(e) => setRenameValue(e.target.value)}
+              onBlur={finishRenaming}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') {
+                  e.preventDefault();
+                  finishRenaming();
+                }
+                if (e.key === 'Escape') {
+                  e.preventDefault();
+                  setRenamingPageId(null);
+                }
+              }}
+              style={{
+                flex: 1,
+                minWidth: 0,
+                fontFamily,
+                fontSize: 14,
+                border: '1px solid #ccc',
+                borderRadius: 4,
+                padding: '2px 4px',
+              }}
+            />
+          ) : (
+            <span
+              onDoubleClick={(e) => {
+                e.stopPropagation();
+                startRenaming(page);
+              }}
+              style={{ flex: 1, minWidth: 0, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}
+              title="Double-click to rename"
+            >
+              {page.title}
+            </span>
+          )}
+          {isHovered && renamingPageId !== page.id && (
+            <div style={{ display: 'flex', gap: 1, flexShrink: 0 }} onClick={(e) => e.stopPropagation()}>
+              <button style={iconButtonStyle} onClick={() => onCreatePage(page.id)} title="Add subpage">
+                <HiPlus size={14} />
+              </button>
+              <button style={iconButtonStyle} onClick={() => onDuplicatePage(page.id)} title="Duplicate">
+                <HiDocumentDuplicate size={14} />
+              </button>
+              <button style={iconButtonStyle} onClick={() => onMovePage(page.id, 'up')} title="Move up">
+                <HiChevronUp size={14} />
+              </button>
+              <button style={iconButtonStyle} onClick={() => onMovePage(page.id, 'down')} title="Move down">
+                <HiChevronDown size={14} />
+              </button>
+              <button style={iconButtonStyle} onClick={() => onIndentPage(page.id)} title="Nest under previous page">
+                <HiArrowRight size={14} />
+              </button>
+              <button style={iconButtonStyle} onClick={() => onOutdentPage(page.id)} title="Move out of parent page">
+                <HiArrowLeft size={14} />
+              </button>
+              <button
+                style={{ ...iconButtonStyle, color: '#dc3545' }}
+                onClick={() => onDeletePage(page.id)}
+                title="Delete page"
+              >
+                <HiOutlineTrash size={14} />
+              </button>
+            </div>
+          )}
+        </div>
+        {!isCollapsed && children.map(child => renderPage(child, depth + 1))}
+      </div>
+    );
+  };
+
+  if (!isOpen) {
+    return (
+      <button
+        onClick={() => setIsOpen(true)}
+        style={{
+          position: 'fixed',
+          top: 10,
+          left: 10,
+          zIndex: 1200,
+          border: 'none',
+          padding: 0,
+          cursor: 'pointer',
+          outline: 'none',
+          borderRadius: '12px',
+          width: 40,
+          height: 40,
+          display: 'flex',
+          alignItems: 'center',
+          justifyContent: 'center',
+          boxShadow: '0 2px 8px rgba(0,0,0,0.10)',
+          backgroundColor: '#fff',
+        }}
+        aria-label="Show pages"
+        title="Show pages"
+      >
+        <HiMenu size={20} color="#5A5A5A" />
+      </button>
+    );
+  }
+
+  return (
+    <div
+      style={{
+        position: 'fixed',
+        top: 0,
+        left: 0,
+        bottom: 0,
+        width: 280,
+        zIndex: 1250,
+        backgroundColor: '#fff',
+        boxShadow: '2px 0 12px rgba(0,0,0,0.12)',
+        display: 'flex',
+        flexDirection: 'column',
+        fontFamily,
+        fontSize: 14,
+        textAlign: 'left',
+      }}
+    >
+      <div style={{ display: 'flex', alignItems: 'center', gap: 4, padding: '16px 12px 8px 12px' }}>
+        <select
+          value={notebook.id}
+          onChange={(e) => onSelectNotebook(e.target.value)}
+          style={{
+            flex: 1,
+            minWidth: 0,
+            fontFamily,
+            fontSize: 14,
+            fontWeight: 600,
+            border: '1px solid #e0e0e0',
+            borderRadius: 6,
+            padding: '6px 8px',
+            backgroundColor: '#fff',
+            color: '#333',
+          }}
+          aria-label="Notebook"
+        >
+          {workspace.notebooks.map(nb => (
+            <option key={nb.id} value={nb.id}>{nb.title}</option>
+          ))}
+        </select>
+        <button style={iconButtonStyle} onClick={onCreateNotebook} title="New notebook">
+          <HiPlus size={16} />
+        </button>
+        <button style={iconButtonStyle} onClick={() => onRenameNotebook(notebook.id)} title="Rename notebook">
+          <HiPencil size={16} />
+        </button>
+        <button
+          style={{ ...iconButtonStyle, color: '#dc3545' }}
+          onClick={() => onDeleteNotebook(notebook.id)}
+          title="Delete notebook"
+        >
+          <HiOutlineTrash size={16} />
+        </button>
+        <button style={iconButtonStyle} onClick={() => setIsOpen(false)} title="Hide pages">
+          <HiX size={18} />
+        </button>
+      </div>
+
+      <div style={{ flex: 1, overflowY: 'auto', padding: '4px 8px' }}>
+        {getChildPages(notebook, null).map(page => renderPage(page, 0))}
+      </div>
+
+      <button
+        onClick={() => onCreatePage(null)}
+        style={{
+          display: 'flex',
+          alignItems: 'center',
+          gap: 6,
+          margin: 12,
+          padding: '8px 12px',
+          fontFamily,
+          fontSize: 14,
+          fontWeight: 500,
+          color: '#333',
+          backgroundColor: '#fff',
+          border: '1px solid #ccc',
+          borderRadius: 8,
+          cursor: 'pointer',
+        }}
+      >
+        <HiPlus size={16} /> New page
+      </button>
+    </div>
+  );
+};
@@ -1,15 +1,29 @@
 import React, { useState, useRef, useEffect } from 'react';
 import { HiPencil, HiOutlineTrash } from 'react-icons/hi';
 import eraserIcon from './assets/eraser.svg';
+import { getPressureScale } from './drawingElements';
+import {
+  capturePointer,
+  createPalmRejector,
+  getCoalescedSamples,
+  loadPressureSettings,
+  readPointerSample,
+  savePressureSettings,
+  type PressureSettings,
+} from './pointerInput';
+import { markScribbleLayerChanged } from './scribbleLayer';
+import { createStabilizer, getTaperLength, getTaperScale, loadStrokeSettings, type StrokeSettings } from './strokeEngine';
 
 interface ScribbleOverlayProps {
   isScribbleMode: boolean;
   setIsScribbleMode: React.Dispatch<React.SetStateAction<boolean>>;
+  onScribbleChange?: () => void;
 }
 
 export const ScribbleOverlay = ({
   isScribbleMode,
-  setIsScribbleMode
+  setIsScribbleMode,
+  onScribbleChange
 }: ScribbleOverlayProps) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const [isDrawing, setIsDrawing] = useState(false);
@@ -23,6 +37,18 @@ export const ScribbleOverlay = ({
   const isMouseDown = useRef(false);
   const didDrawInStroke = useRef(false);
   const lastDrawnState = useRef<ImageData | null>(null);
+  // Previous sample of the stroke; each segment gets its own width from the pressure
+  const lastPoint = useRef<{ x: number; y: number; pressure: number } | null>(null);
+  // Smooth strokes are drawn as curves between segment midpoints, so each one starts where the last ended
+  const lastMidpoint = useRef<{ x: number; y: number } | null>(null);
+  const strokeLength = useRef(0);
+  // Stroke style is shared with drawing blocks and read again at the start of every stroke
+  const strokeSettings = useRef<StrokeSettings>(loadStrokeSettings());
+  const stabilize = useRef<((x: number, y: number) => { x: number; y: number }) | null>(null);
+  const activePointerId = useRef<number | null>(null);
+  const isPalm = useRef(createPalmRejector()).current;
+  const [pressureSettings, setPressureSettings] = useState<PressureSettings>(loadPressureSettings);
+  const pressureTool = isEraser ? 'scribble-eraser' : 'scribble';
 
   const saveCanvasState = () => {
     const canvas = canvasRef.current;
@@ -86,6 +112,8 @@ export const ScribbleOverlay = ({
         tempCtx.drawImage(canvas, 0, 0);
       }
 
+      markScribbleLayerChanged();
+
       // Update canvas style dimensions to match parent
       canvas.style.width = `${width}px`;
       canvas.style.height = `${height}px`;
@@ -139,13 +167,34 @@ export const ScribbleOverlay = ({
 
     const ctx = canvas.getContext('2d');
     if (ctx) {
+      // Finish a smooth stroke from the last midpoint to where the brush stopped
+      const last = lastPoint.current;
+      if (last && lastMidpoint.current) {
+        ctx.beginPath();
+        ctx.moveTo(lastMidpoint.current.x, lastMidpoint.current.y);
+        ctx.lineTo(last.x, last.y);
+        ctx.stroke();
+      }
       ctx.closePath();
       ctx.globalCompositeOperation = 'source-over';
     }
     
+    if (didDrawInStroke.current) {
+      markScribbleLayerChanged();
+      onScribbleChange?.();
+    }
+
     setIsDrawing(false);
     isMouseDown.current = false;
     didDrawInStroke.current = false;
+    lastPoint.current = null;
+    lastMidpoint.current = null;
+    activePointerId.current = null;
+  };
+
+  const handlePointerUp = (e: React.PointerEvent) => {
+    if (activePointerId.current !== null && activePointerId.current !== e.pointerId) return;
+    stopDrawing();
   };
 
   // Add spacebar and E key handling
@@ -223,8 +272,10 @@ export const ScribbleOverlay = ({
     };
   }, [isScribbleMode, setIsScribbleMode]);
 
-  const startDrawing = (e: React.MouseEvent) => {
-    if (!isScribbleMode) return;
+  const startDrawing = (e: React.PointerEvent) => {
+    if (!isScribbleMode || isPalm(e.nativeEvent)) return;
+    // A second finger doesn't interrupt the stroke in progress
+    if (activePointerId.current !== null && activePointerId.current !== e.pointerId) return;
     
     const canvas = canvasRef.current;
     if (!canvas) return;
@@ -239,33 +290,36 @@ export const ScribbleOverlay = ({
     setIsDrawing(true);
     isMouseDown.current = true;
     didDrawInStroke.current = false;
+    activePointerId.current = e.pointerId;
+    if (e.type === 'pointerdown') {
+      capturePointer(canvas, e.pointerId);
+    }
+    lastPoint.current = { x, y, pressure: readPointerSample(e.nativeEvent).pressure };
+    lastMidpoint.current = null;
+    strokeLength.current = 0;
+    strokeSettings.current = loadStrokeSettings();
+    stabilize.current = createStabilizer(strokeSettings.current.stabilizer);
 
     const ctx = canvas.getContext('2d');
     if (ctx) {
-      ctx.beginPath();
-      ctx.moveTo(x, y);
+      ctx.lineCap = 'round';
+      ctx.lineJoin = 'round';
       if (isEraser) {
         ctx.globalCompositeOperation = 'destination-out';
-        ctx.lineWidth = 20;
       } else {
         ctx.globalCompositeOperation = 'source-over';
-        ctx.lineWidth = 2;
         ctx.strokeStyle = strokeColor;
       }
     }
   };
 
-  const draw = (e: React.MouseEvent) => {
-    if (!isScribbleMode) return;
+  const draw = (e: React.PointerEvent) => {
+    if (!isScribbleMode || isPalm(e.nativeEvent)) return;
+    if (activePointerId.current !== null && activePointerId.current !== e.pointerId) return;
 
     const canvas = canvasRef.current;
     if (!canvas) return;
 
-    const rect = canvas.getBoundingClientRect();
-    // rect.top already includes scroll offset, so we just need clientX/Y relative to rect
-    const x = e.clientX - rect.left;
-    const y = e.clientY - rect.top;
-
     // Only start a stroke when spacebar is currently held or mouse is down
     const shouldStartStroke = (isSpaceHeld || isMouseDown.current) && !isDrawing;
 
@@ -278,12 +332,47 @@ export const ScribbleOverlay = ({
       const ctx = canvas.getContext('2d');
       if (!ctx) return;
 
-      ctx.lineTo(x, y);
-      ctx.stroke();
+      const rect = canvas.getBoundingClientRect();
+      const baseWidth = isEraser ? 20 : 2;
+      const smooth = strokeSettings.current.smooth;
+      getCoalescedSamples(e.nativeEvent).forEach(sample => {
+        // rect.top already includes scroll offset, so we just need clientX/Y relative to rect
+        const x = sample.clientX - rect.left;
+        const y = sample.clientY - rect.top;
+        const brush = stabilize.current ? stabilize.current(x, y) : { x, y };
+        const point = { ...brush, pressure: readPointerSample(sample).pressure };
+        const from = lastPoint.current ?? point;
+        strokeLength.current += Math.hypot(point.x - from.x, point.y - from.y);
+
+        // Only the start can taper, since the end isn't known while drawing
+        const taper = smooth && !isEraser
+          ? getTaperScale(strokeLength.current, Infinity, getTaperLength(Infinity, baseWidth))
+          : 1;
+        ctx.beginPath();
+        ctx.lineWidth = baseWidth * taper * getPressureScale((from.pressure + point.pressure) / 2, pressureSettings[pressureTool]);
+        if (smooth) {
+          const midpoint = { x: (from.x + point.x) / 2, y: (from.y + point.y) / 2 };
+          const start = lastMidpoint.current ?? from;
+          ctx.moveTo(start.x, start.y);
+          ctx.quadraticCurveTo(from.x, from.y, midpoint.x, midpoint.y);
+          lastMidpoint.current = midpoint;
+        } else {
+          ctx.moveTo(from.x, from.y);
+          ctx.lineTo(point.x, point.y);
+        }
+        ctx.stroke();
+        lastPoint.current = point;
+      });
       didDrawInStroke.current = true;
     }
   };
 
+  const updatePressureSetting = (value: number) => {
+    const next = { ...pressureSettings, [pressureTool]: value };
+    setPressureSettings(next);
+    savePressureSettings(next);
+  };
+
   const clearCanvas = () => {
     const canvas = canvasRef.current;
     if (!canvas) return;
@@ -292,21 +381,23 @@ export const ScribbleOverlay = ({
     if (!ctx) return;
 
     ctx.clearRect(0, 0, canvas.width, canvas.height);
+    markScribbleLayerChanged();
+    onScribbleChange?.();
   };
 
   // Track mouse position for eraser cursor
   useEffect(() => {
     if (!isScribbleMode) return;
 
-    const handleMouseMove = (e: MouseEvent) => {
+    const handlePointerMove = (e: PointerEvent) => {
       setCursorPosition({ 
         x: e.clientX, 
         y: e.clientY
       });
     };
 
-    window.addEventListener('mousemove', handleMouseMove);
-    return () => window.removeEventListener('mousemove', handleMouseMove);
+    window.addEventListener('pointermove', handlePointerMove);
+    return () => window.removeEventListener('pointermove', handlePointerMove);
   }, [isScribbleMode]);
 
   const handleButtonMouseEnter = (buttonName: string) => {
@@ -336,10 +427,11 @@ export const ScribbleOverlay = ({
     >
       <canvas
         ref={canvasRef}
-        onMouseDown={startDrawing}
-        onMouseMove={draw}
-        onMouseUp={stopDrawing}
-        onMouseOut={stopDrawing}
+        onPointerDown={startDrawing}
+        onPointerMove={draw}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+        onPointerLeave={stopDrawing}
         style={{
           position: 'absolute',
           top: 0,
@@ -348,6 +440,8 @@ export const ScribbleOverlay = ({
           height: '100%',
           pointerEvents: isScribbleMode ? 'auto' : 'none',
           cursor: isScribbleMode ? (isEraser ? 'none' : 'crosshair') : 'default',
+          // Let touch and pens draw instead of scrolling the page
+          touchAction: isScribbleMode ? 'none' : 'auto',
         }}
       />
       {isScribbleMode && isEraser && (
@@ -594,6 +688,33 @@ export const ScribbleOverlay = ({
                 <div style={{ width: '24px', height: '24px', backgroundColor: '#2196F3', borderRadius: '50%' }} />
               </button>
             </div>
+            <div
+              style={{
+                display: 'flex',
+                alignItems: 'center',
+                gap: '8px',
+                backgroundColor: '#f0f0f0',
+                borderRadius: '8px',
+                padding: '4px 12px',
+                height: '44px',
+                boxSizing: 'border-box',
+                boxShadow: '0 2px 4px rgba(0,0,0,0.1)',
+                fontFamily: "'Inter', -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, Helvetica, Arial, sans-serif",
+                fontSize: '12px',
+                color: '#5A5A5A',
+              }}
+              title={`How much pen pressure changes the ${isEraser ? 'eraser' : 'pencil'} width (no effect with a mouse)`}
+            >
+              Pressure
+              <input
+                type="range"
+                min={0}
+                max={100}
+                value={Math.round(pressureSettings[pressureTool] * 100)}
+                onChange={(e) => updatePressureSetting(Number(e.target.value) / 100)}
+                style={{ width: '70px', cursor: 'pointer' }}
+              />
+            </div>
             <button
               onClick={clearCanvas}
               style={{
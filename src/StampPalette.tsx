@@ -0,0 +1,166 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { FaTimes } from 'react-icons/fa';
+import { getCommonBounds, renderElements } from './drawingElements';
+import type { Stamp } from './stamps';
+
+interface StampPaletteProps {
+  stamps: Stamp[];
+  // `point` is where a dragged stamp was dropped; clicking a stamp leaves it out
+  onPlace: (stamp: Stamp, point?: { clientX: number; clientY: number }) => void;
+  onDelete: (stamp: Stamp) => void;
+  // Missing while nothing is selected
+  onSaveSelection?: () => void;
+}
+
+const THUMBNAIL_SIZE = 44;
+
+const StampThumbnail = ({ stamp }: { stamp: Stamp }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const bounds = getCommonBounds(stamp.elements);
+    if (!canvas || !bounds) return;
+    // Fit the stamp into the thumbnail, without blowing up tiny ones
+    const zoom = Math.min((THUMBNAIL_SIZE - 8) / (bounds.width || 1), (THUMBNAIL_SIZE - 8) / (bounds.height || 1), 1.5);
+    renderElements(canvas, stamp.elements, {
+      viewport: {
+        x: bounds.x + bounds.width / 2 - THUMBNAIL_SIZE / 2 / zoom,
+        y: bounds.y + bounds.height / 2 - THUMBNAIL_SIZE / 2 / zoom,
+        zoom
+      }
+    });
+  }, [stamp]);
+
+  return <canvas ref={canvasRef} width={THUMBNAIL_SIZE} height={THUMBNAIL_SIZE} style={{ display: 'block' }} />;
+};
+
+export const StampPalette: React.FC<StampPaletteProps> = ({ stamps, onPlace, onDelete, onSaveSelection }) => {
+  // Stamp being dragged out of the palette, drawn under the pointer
+  const [dragging, setDragging] = useState<{ stamp: Stamp; x: number; y: number } | null>(null);
+
+  const startDrag = (e: React.PointerEvent, stamp: Stamp) => {
+    e.preventDefault();
+    e.stopPropagation();
+    const start = { x: e.clientX, y: e.clientY };
+    let moved = false;
+
+    const handleMove = (move: PointerEvent) => {
+      if (Math.hypot(move.clientX - start.x, move.clientY - start.y) > 4) moved = true;
+      if (moved) setDragging({ stamp, x: move.clientX, y: move.clientY });
+    };
+    const handleUp = (up: PointerEvent) => {
+      document.removeEventListener('pointermove', handleMove);
+      document.removeEventListener('pointerup', handleUp);
+      setDragging(null);
+      onPlace(stamp, moved ? { clientX: up.clientX, clientY: up.clientY } : undefined);
+    };
+    document.addEventListener('pointermove', handleMove);
+    document.addEventListener('pointerup', handleUp);
+  };
+
+  return (
+    <div
+      style={{
+        position: 'absolute',
+        top: 8,
+        left: 0,
+        right: 0,
+        margin: '0 auto',
+        width: 260,
+        padding: 6,
+        backgroundColor: 'rgba(255, 255, 255, 0.97)',
+        border: '1px solid #ccc',
+        borderRadius: 8,
+        boxShadow: '0px 2px 8px rgba(0, 0, 0, 0.15)',
+        fontSize: 12,
+        color: '#333',
+        zIndex: 4,
+        textAlign: 'left',
+      }}
+      onMouseDown={(e) => e.stopPropagation()}
+      onPointerDown={(e) => e.stopPropagation()}
+    >
+      <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', padding: '2px 4px 6px' }}>
+        <span style={{ fontWeight: 600 }}>Stamps</span>
+        <button
+          onClick={onSaveSelection}
+          disabled={!onSaveSelection}
+          style={{
+            fontSize: 11,
+            padding: '3px 6px',
+            border: '1px solid #ddd',
+            borderRadius: 4,
+            backgroundColor: '#fff',
+            color: '#333',
+            cursor: onSaveSelection ? 'pointer' : 'default',
+            opacity: onSaveSelection ? 1 : 0.5,
+          }}
+          title={onSaveSelection ? 'Save the selection as a stamp' : 'Select something with the select tool to save it as a stamp'}
+        >
+          Save selection
+        </button>
+      </div>
+
+      <div style={{ display: 'flex', flexWrap: 'wrap', gap: 4 }}>
+        {stamps.map(stamp => (
+          <div
+            key={stamp.id}
+            onPointerDown={(e) => startDrag(e, stamp)}
+            style={{
+              position: 'relative',
+              border: '1px solid #e0e0e0',
+              borderRadius: 4,
+              backgroundColor: '#fff',
+              cursor: 'grab',
+              touchAction: 'none',
+            }}
+            title={`${stamp.name}: drag onto the drawing, or click to place in the middle`}
+          >
+            <StampThumbnail stamp={stamp} />
+            {!stamp.builtIn && (
+              <button
+                onPointerDown={(e) => e.stopPropagation()}
+                onClick={() => onDelete(stamp)}
+                style={{
+                  position: 'absolute',
+                  top: -5,
+                  right: -5,
+                  width: 14,
+                  height: 14,
+                  padding: 0,
+                  border: 'none',
+                  borderRadius: '50%',
+                  backgroundColor: '#dc3545',
+                  color: '#fff',
+                  display: 'flex',
+                  alignItems: 'center',
+                  justifyContent: 'center',
+                  cursor: 'pointer',
+                }}
+                title="Delete stamp"
+              >
+                <FaTimes size={8} />
+              </button>
+            )}
+          </div>
+        ))}
+      </div>
+
+      {dragging && (
+        <div
+          style={{
+            position: 'fixed',
+            left: dragging.x - THUMBNAIL_SIZE / 2,
+            top: dragging.y - THUMBNAIL_SIZE / 2,
+            opacity: 0.7,
+            pointerEvents: 'none',
+            zIndex: 1000,
+          }}
+        >
+          <StampThumbnail stamp={dragging.stamp} />
+        </div>
+      )}
+    </div>
+  );
+};
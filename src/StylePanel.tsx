@@ -0,0 +1,128 @@
+import React from 'react';
+import type { FillStyle, LineStyle, ShapeStyle } from './drawingElements';
+
+interface StylePanelProps {
+  style: ShapeStyle;
+  onChange: (changes: Partial<ShapeStyle>) => void;
+}
+
+const FILL_STYLES: { value: FillStyle; label: string }[] = [
+  { value: 'none', label: 'None' },
+  { value: 'solid', label: 'Solid' },
+  { value: 'hachure', label: 'Hachure' },
+  { value: 'cross-hatch', label: 'Cross' },
+];
+
+const LINE_STYLES: { value: LineStyle; label: string }[] = [
+  { value: 'solid', label: 'Solid' },
+  { value: 'dashed', label: 'Dashed' },
+  { value: 'dotted', label: 'Dotted' },
+];
+
+const optionStyle = (active: boolean): React.CSSProperties => ({
+  flex: 1,
+  fontSize: 11,
+  padding: '3px 4px',
+  border: '1px solid #ddd',
+  borderRadius: 4,
+  backgroundColor: active ? '#e0e0e0' : '#fff',
+  color: '#333',
+  cursor: 'pointer',
+});
+
+const rowStyle: React.CSSProperties = {
+  display: 'flex',
+  alignItems: 'center',
+  gap: 4,
+  padding: '3px 4px',
+};
+
+const labelStyle: React.CSSProperties = { width: 62, flexShrink: 0 };
+
+export const StylePanel: React.FC<StylePanelProps> = ({ style, onChange }) => {
+  const slider = (
+    label: string,
+    field: 'roughness' | 'bowing' | 'cornerRadius' | 'opacity',
+    min: number,
+    max: number,
+    step: number,
+    format: (value: number) => string
+  ) => (
+    <div style={rowStyle}>
+      <span style={labelStyle}>{label}</span>
+      <input
+        type="range"
+        min={min}
+        max={max}
+        step={step}
+        value={style[field]}
+        onChange={(e) => onChange({ [field]: Number(e.target.value) })}
+        style={{ flex: 1, minWidth: 0, cursor: 'pointer' }}
+      />
+      <span style={{ width: 34, textAlign: 'right', color: '#777', flexShrink: 0 }}>{format(style[field])}</span>
+    </div>
+  );
+
+  return (
+    <div
+      style={{
+        position: 'absolute',
+        top: 8,
+        left: 8,
+        width: 240,
+        padding: 6,
+        backgroundColor: 'rgba(255, 255, 255, 0.97)',
+        border: '1px solid #ccc',
+        borderRadius: 8,
+        boxShadow: '0px 2px 8px rgba(0, 0, 0, 0.15)',
+        fontSize: 12,
+        color: '#333',
+        zIndex: 4,
+        textAlign: 'left',
+      }}
+      onMouseDown={(e) => e.stopPropagation()}
+    >
+      <div style={{ fontWeight: 600, padding: '2px 4px 6px' }}>Shape Style</div>
+
+      <div style={rowStyle}>
+        <span style={labelStyle}>Fill</span>
+        <input
+          type="color"
+          value={style.fill}
+          onChange={(e) => onChange({ fill: e.target.value, ...(style.fillStyle === 'none' ? { fillStyle: 'solid' } : {}) })}
+          style={{ width: 24, height: 22, padding: 0, border: 'none', background: 'none', cursor: 'pointer', flexShrink: 0 }}
+          title="Fill color"
+        />
+      </div>
+      <div style={rowStyle}>
+        {FILL_STYLES.map(option => (
+          <button
+            key={option.value}
+            onClick={() => onChange({ fillStyle: option.value })}
+            style={optionStyle(style.fillStyle === option.value)}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+
+      <div style={rowStyle}>
+        <span style={labelStyle}>Stroke</span>
+        {LINE_STYLES.map(option => (
+          <button
+            key={option.value}
+            onClick={() => onChange({ lineStyle: option.value })}
+            style={optionStyle(style.lineStyle === option.value)}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+
+      {slider('Roughness', 'roughness', 0, 3, 0.5, value => (value === 0 ? 'Crisp' : String(value)))}
+      {slider('Bowing', 'bowing', 0, 5, 0.5, value => String(value))}
+      {slider('Corners', 'cornerRadius', 0, 40, 2, value => `${value}px`)}
+      {slider('Opacity', 'opacity', 0.1, 1, 0.05, value => `${Math.round(value * 100)}%`)}
+    </div>
+  );
+};
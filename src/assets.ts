@@ -0,0 +1,203 @@
+import { deleteAssetsWhere, hasAsset, loadAsset, saveAsset } from "./storage";
+
+// Images are kept once in the browser's IndexedDB, keyed by a hash of their bytes, and
+// blocks refer to them as `asset:<hash>` instead of carrying the whole image as a data
+// URL. Pasting the same image twice stores it once, assets no note refers to any more are
+// cleared out at startup, and notes files bundle the assets they use.
+
+export const ASSET_PREFIX = "asset:";
+const ASSET_REF_PATTERN = /asset:[0-9a-f]{64}/g;
+
+// Assets this new may belong to notes that haven't been autosaved yet, e.g. in another tab
+const GARBAGE_GRACE_MS = 24 * 60 * 60 * 1000;
+
+// Block props that hold an image
+const IMAGE_PROPS = ["src", "originalSrc", "fullSizeSrc", "canvasData"];
+
+export const isAssetRef = (value: unknown): value is string =>
+  typeof value === "string" && /^asset:[0-9a-f]{64}$/.test(value);
+
+export const readAsDataUrl = (blob: Blob, timeoutMs?: number) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    const timeoutId = timeoutMs ? setTimeout(() => reject(new Error("File reading timed out")), timeoutMs) : undefined;
+    reader.onload = () => {
+      clearTimeout(timeoutId);
+      if (typeof reader.result === 'string') {
+        resolve(reader.result);
+      } else {
+        reject(new Error("Invalid file data"));
+      }
+    };
+    reader.onerror = () => {
+      clearTimeout(timeoutId);
+      reject(reader.error);
+    };
+    reader.readAsDataURL(blob);
+  });
+
+const dataUrlToBlob = (dataUrl: string) => {
+  const comma = dataUrl.indexOf(",");
+  const header = dataUrl.slice("data:".length, comma);
+  const type = header.split(";")[0] || "application/octet-stream";
+  const data = dataUrl.slice(comma + 1);
+  if (!/;base64$/i.test(header)) return new Blob([decodeURIComponent(data)], { type });
+  const binary = atob(data);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return new Blob([bytes], { type });
+};
+
+const hashBlob = async (blob: Blob) => {
+  const digest = await crypto.subtle.digest("SHA-256", await blob.arrayBuffer());
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, "0")).join("");
+};
+
+// Put an image in the store and return its `asset:` reference; an image that is already
+// there is only referenced again. Web URLs and references are returned as they are
+export const storeAsset = async (source: Blob | string): Promise<string> => {
+  if (typeof source === "string" && !source.startsWith("data:")) return source;
+  const blob = typeof source === "string" ? dataUrlToBlob(source) : source;
+  const hash = await hashBlob(blob);
+  if (!(await hasAsset(hash))) {
+    await saveAsset(hash, { blob, createdAt: Date.now() });
+  }
+  return ASSET_PREFIX + hash;
+};
+
+const loadAssetBlob = async (ref: string) => {
+  const asset = await loadAsset(ref.slice(ASSET_PREFIX.length));
+  if (!asset) throw new Error(`Image ${ref} is missing from this browser's storage`);
+  return asset.blob;
+};
+
+// Object URLs for assets already read from the store
+const assetUrls = new Map<string, Promise<string>>();
+
+// Something an <img> can show: an object URL for assets, anything else unchanged
+export const resolveAssetUrl = (src: string): Promise<string> => {
+  if (!isAssetRef(src)) return Promise.resolve(src);
+  let url = assetUrls.get(src);
+  if (!url) {
+    url = loadAssetBlob(src).then(blob => URL.createObjectURL(blob));
+    // Look again next time, e.g. once an import has stored the asset
+    url.catch(() => assetUrls.delete(src));
+    assetUrls.set(src, url);
+  }
+  return url;
+};
+
+// The image itself, for files that have to carry it
+export const getImageDataUrl = async (src: string) =>
+  isAssetRef(src) ? readAsDataUrl(await loadAssetBlob(src)) : src;
+
+// MIME type of an image; web images are taken to be PNGs
+export const getImageType = async (src: string) => {
+  if (isAssetRef(src)) return (await loadAssetBlob(src)).type || "image/png";
+  return /^data:([^;,]+)/i.exec(src)?.[1].toLowerCase() ?? "image/png";
+};
+
+export const loadImage = async (src: string) => {
+  const url = await resolveAssetUrl(src);
+  return new Promise<HTMLImageElement>((resolve, reject) => {
+    const img = new Image();
+    // Web images can only be read back from a canvas when their host allows it
+    if (/^https?:/i.test(url)) img.crossOrigin = "anonymous";
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error("Failed to load image"));
+    img.src = url;
+  });
+};
+
+// Every asset referred to anywhere in `value`. Drawing elements are JSON strings inside
+// block props, so this searches the serialized form
+export const collectAssetRefs = (value: unknown) =>
+  new Set(JSON.stringify(value ?? null).match(ASSET_REF_PATTERN) ?? []);
+
+// Clear out stored images that nothing in `inUse` (pages, snapshots) refers to
+export const collectGarbageAssets = (inUse: unknown) => {
+  const refs = collectAssetRefs(inUse);
+  const cutoff = Date.now() - GARBAGE_GRACE_MS;
+  return deleteAssetsWhere((id, asset) => !refs.has(ASSET_PREFIX + id) && asset.createdAt < cutoff);
+};
+
+const moveElementImagesToAssets = async (value: string) => {
+  try {
+    const elements = JSON.parse(value);
+    if (!Array.isArray(elements)) return value;
+    const moved = await Promise.all(elements.map(async element =>
+      element?.type === "bitmap" && typeof element.src === "string"
+        ? { ...element, src: await storeAsset(element.src) }
+        : element
+    ));
+    return JSON.stringify(moved);
+  } catch (error) {
+    console.error("Error moving drawing images to the asset store:", error);
+    return value;
+  }
+};
+
+const moveGalleryImagesToAssets = async (value: string) => {
+  try {
+    const images = JSON.parse(value);
+    if (!Array.isArray(images)) return value;
+    const moved = await Promise.all(images.map(async image => {
+      const next = { ...image };
+      for (const name of IMAGE_PROPS) {
+        if (typeof next[name] === "string" && next[name]) next[name] = await storeAsset(next[name]);
+      }
+      if (typeof next.elements === "string") next.elements = await moveElementImagesToAssets(next.elements);
+      return next;
+    }));
+    return JSON.stringify(moved);
+  } catch (error) {
+    console.error("Error moving gallery images to the asset store:", error);
+    return value;
+  }
+};
+
+// Move images embedded as data URLs into the store, e.g. in notes saved before the store
+// existed or imported from an older file. Returns `blocks` itself when there are none
+export const moveInlineImagesToAssets = async (blocks: any[]): Promise<any[]> => {
+  if (!JSON.stringify(blocks).includes("data:image/")) return blocks;
+  return Promise.all(blocks.map(async block => {
+    if (typeof block !== "object" || block === null) return block;
+    const children = Array.isArray(block.children) ? await moveInlineImagesToAssets(block.children) : block.children;
+    if (!block.props) return { ...block, children };
+    const props = { ...block.props };
+    for (const name of IMAGE_PROPS) {
+      if (typeof props[name] === "string" && props[name].startsWith("data:image/")) {
+        props[name] = await storeAsset(props[name]);
+      }
+    }
+    if (typeof props.elements === "string" && props.elements.includes("data:image/")) {
+      props.elements = await moveElementImagesToAssets(props.elements);
+    }
+    if (typeof props.images === "string" && props.images.includes("data:image/")) {
+      props.images = await moveGalleryImagesToAssets(props.images);
+    }
+    return { ...block, props, children };
+  }));
+};
+
+// Data URLs of the assets `value` refers to, keyed by reference, for writing into a file
+export const bundleAssets = async (value: unknown): Promise<Record<string, string>> => {
+  const bundle: Record<string, string> = {};
+  for (const ref of collectAssetRefs(value)) {
+    try {
+      bundle[ref] = await getImageDataUrl(ref);
+    } catch (error) {
+      console.error("Error bundling image:", error);
+    }
+  }
+  return bundle;
+};
+
+// Store the assets bundled in a file. References are hashes of the image, so a bundle
+// can't slip a different image in under a reference that is already in use
+export const importAssets = async (bundle: Record<string, string>) => {
+  for (const [ref, dataUrl] of Object.entries(bundle)) {
+    const stored = await storeAsset(dataUrl);
+    if (stored !== ref) console.error("Error importing image: its contents don't match", ref);
+  }
+};
@@ -0,0 +1,121 @@
+import {
+  getElementBounds,
+  isPointInBounds,
+  roundCoord,
+  type Bounds,
+  type ConnectorElement,
+  type DrawingElement
+} from "./drawingElements";
+
+// Connectors are attached to shapes and text by id. Whenever the elements change, the
+// attached ends are routed again from the current bounds of what they're attached to, so
+// moving, resizing or undoing a shape drags its connectors along.
+
+type Point = { x: number; y: number };
+
+// Leave a little room between a connector's end and the outline it's attached to
+const END_GAP = 4;
+
+export const isConnectable = (element: DrawingElement) =>
+  element.type === "rect" || element.type === "ellipse" || element.type === "polygon" || element.type === "text";
+
+// Topmost connectable element under the point
+export const findConnectTarget = (
+  elements: DrawingElement[],
+  x: number,
+  y: number,
+  padding: number,
+  excludeId?: string
+): DrawingElement | null => {
+  for (let i = elements.length - 1; i >= 0; i--) {
+    const element = elements[i];
+    if (element.id === excludeId || !isConnectable(element)) continue;
+    if (isPointInBounds(getElementBounds(element), x, y, padding)) return element;
+  }
+  return null;
+};
+
+const getCenter = (bounds: Bounds): Point => ({ x: bounds.x + bounds.width / 2, y: bounds.y + bounds.height / 2 });
+
+// Where a ray from the element's center toward `target` leaves its outline
+const getOutlinePoint = (element: DrawingElement, bounds: Bounds, target: Point): Point => {
+  const center = getCenter(bounds);
+  const dx = target.x - center.x;
+  const dy = target.y - center.y;
+  const length = Math.hypot(dx, dy);
+  if (length === 0) return center;
+
+  const rx = bounds.width / 2;
+  const ry = bounds.height / 2;
+  let reach: number;
+  if (element.type === "ellipse") {
+    reach = rx === 0 || ry === 0 ? 0 : 1 / Math.hypot(dx / length / rx, dy / length / ry);
+  } else {
+    reach = Math.min(dx === 0 ? Infinity : rx / Math.abs(dx / length), dy === 0 ? Infinity : ry / Math.abs(dy / length));
+  }
+  reach = Math.min(reach + END_GAP, length);
+  return { x: center.x + (dx / length) * reach, y: center.y + (dy / length) * reach };
+};
+
+// Middle of the side facing `target`, for elbow connectors
+const getSidePoint = (bounds: Bounds, target: Point, horizontal: boolean): Point => {
+  const center = getCenter(bounds);
+  if (horizontal) {
+    const side = target.x >= center.x ? bounds.x + bounds.width + END_GAP : bounds.x - END_GAP;
+    return { x: side, y: center.y };
+  }
+  const side = target.y >= center.y ? bounds.y + bounds.height + END_GAP : bounds.y - END_GAP;
+  return { x: center.x, y: side };
+};
+
+// The connector with its attached ends moved onto the elements they're attached to; the
+// same object when nothing moved. Ends attached to an element that's gone stay put.
+export const routeConnector = (connector: ConnectorElement, byId: Map<string, DrawingElement>): ConnectorElement => {
+  const start = connector.startId ? byId.get(connector.startId) : undefined;
+  const end = connector.endId ? byId.get(connector.endId) : undefined;
+  if (!start && !end) return connector;
+
+  const startBounds = start && getElementBounds(start);
+  const endBounds = end && getElementBounds(end);
+  const from = startBounds ? getCenter(startBounds) : { x: connector.x1, y: connector.y1 };
+  const to = endBounds ? getCenter(endBounds) : { x: connector.x2, y: connector.y2 };
+
+  let p1 = from;
+  let p2 = to;
+  let axis = connector.axis;
+  if (connector.route === "elbow") {
+    const horizontal = Math.abs(to.x - from.x) >= Math.abs(to.y - from.y);
+    axis = horizontal ? "horizontal" : "vertical";
+    if (startBounds) p1 = getSidePoint(startBounds, to, horizontal);
+    if (endBounds) p2 = getSidePoint(endBounds, from, horizontal);
+  } else {
+    if (start && startBounds) p1 = getOutlinePoint(start, startBounds, to);
+    if (end && endBounds) p2 = getOutlinePoint(end, endBounds, from);
+  }
+
+  const x1 = start ? roundCoord(p1.x) : connector.x1;
+  const y1 = start ? roundCoord(p1.y) : connector.y1;
+  const x2 = end ? roundCoord(p2.x) : connector.x2;
+  const y2 = end ? roundCoord(p2.y) : connector.y2;
+  if (
+    x1 === connector.x1 && y1 === connector.y1 && x2 === connector.x2 && y2 === connector.y2 &&
+    axis === connector.axis
+  ) {
+    return connector;
+  }
+  return { ...connector, x1, y1, x2, y2, ...(axis ? { axis } : {}) };
+};
+
+// Route every connector; returns the same array when none of them moved
+export const rerouteConnectors = (elements: DrawingElement[]): DrawingElement[] => {
+  if (!elements.some(element => element.type === "connector")) return elements;
+  const byId = new Map(elements.map(element => [element.id, element]));
+  let changed = false;
+  const next = elements.map(element => {
+    if (element.type !== "connector") return element;
+    const routed = routeConnector(element, byId);
+    if (routed !== element) changed = true;
+    return routed;
+  });
+  return changed ? next : elements;
+};
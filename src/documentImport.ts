@@ -0,0 +1,154 @@
+import type { BlockNoteEditor } from "@blocknote/core";
+import { readAsDataUrl } from "./assets";
+
+// Markdown and HTML import. BlockNote parses the text into blocks, but its own image
+// block isn't part of our schema, so every image is first swapped for a placeholder
+// word and the placeholders are afterwards turned into annotatable `imageUpload` blocks.
+
+export type ImportFormat = 'notes' | 'markdown' | 'html';
+
+export const getImportFormat = (fileName: string): ImportFormat | null => {
+  const extension = fileName.toLowerCase().split('.').pop();
+  if (extension === 'json') return 'notes';
+  if (extension === 'md' || extension === 'markdown') return 'markdown';
+  if (extension === 'html' || extension === 'htm') return 'html';
+  return null;
+};
+
+const placeholder = (index: number) => `NotateImagePlaceholder${index}End`;
+const PLACEHOLDER_PATTERN = /NotateImagePlaceholder(\d+)End/g;
+
+const MARKDOWN_IMAGE_PATTERN = /!\[[^\]]*\]\(\s*<?([^)\s>]+)>?(?:\s+["'][^)]*["'])?\s*\)/g;
+const HTML_IMAGE_PATTERN = /<img\b[^>]*?\bsrc\s*=\s*(["'])(.*?)\1[^>]*>/gi;
+
+const loadImageSize = (src: string) =>
+  new Promise<{ width: number; height: number }>((resolve, reject) => {
+    const img = document.createElement('img');
+    const timeoutId = setTimeout(() => reject(new Error("Image loading timed out")), 10000);
+    img.onload = () => {
+      clearTimeout(timeoutId);
+      resolve({ width: img.naturalWidth, height: img.naturalHeight });
+    };
+    img.onerror = () => {
+      clearTimeout(timeoutId);
+      reject(new Error("Failed to load image"));
+    };
+    img.src = src;
+  });
+
+// Relative image paths are matched by file name against the images picked alongside the document
+const findLocalFile = (path: string, localFiles: File[]) => {
+  const name = decodeURIComponent(path.split(/[?#]/)[0]).split(/[\\/]/).pop()?.toLowerCase();
+  return localFiles.find(file => file.name.toLowerCase() === name);
+};
+
+const isWebUrl = (path: string) => /^https?:\/\//i.test(path);
+
+// Embed an image so drawing on it never taints the canvas. Remote images that can't be
+// fetched (no CORS headers) can't be drawn on, so they count as missing
+const resolveImageSource = async (path: string, localFiles: File[]): Promise<string | null> => {
+  if (path.startsWith('data:image/')) return path;
+  if (isWebUrl(path)) {
+    try {
+      const response = await fetch(path);
+      if (!response.ok) throw new Error(`HTTP ${response.status}`);
+      return await readAsDataUrl(await response.blob());
+    } catch (error) {
+      console.error("Error embedding remote image:", error);
+      return null;
+    }
+  }
+  const file = findLocalFile(path, localFiles);
+  return file ? readAsDataUrl(file) : null;
+};
+
+// Stands in for a web image that couldn't be embedded, so the notes still point to it
+const createImageLinkBlock = (src: string) => ({
+  type: 'paragraph',
+  content: [{ type: 'link', href: src, content: [{ type: 'text', text: src, styles: {} }] }]
+});
+
+const createImageBlock = async (src: string) => {
+  try {
+    const { width, height } = await loadImageSize(src);
+    return { type: 'imageUpload', props: { src, width, height } };
+  } catch (error) {
+    console.error("Error loading imported image:", error);
+    return null;
+  }
+};
+
+// Pull the placeholders out of a block's text, returning the image indices it held
+const takePlaceholders = (block: any): number[] => {
+  if (!Array.isArray(block.content)) return [];
+  const found: number[] = [];
+  const stripText = (item: any) => {
+    if (item.type !== 'text') return item;
+    const text = item.text.replace(PLACEHOLDER_PATTERN, (_: string, index: string) => {
+      found.push(Number(index));
+      return '';
+    });
+    return { ...item, text };
+  };
+
+  block.content = block.content
+    .map((item: any) => (item.type === 'link' ? { ...item, content: item.content.map(stripText) } : stripText(item)))
+    .filter((item: any) => item.type !== 'text' || item.text !== '');
+  return found;
+};
+
+const hasText = (block: any) =>
+  Array.isArray(block.content) && block.content.some((item: any) =>
+    item.type === 'link' || (item.type === 'text' && item.text.trim() !== ''));
+
+// Replace placeholder-only blocks with image blocks, and put images found inside other
+// text right after the block they were in
+const placeImages = (blocks: any[], images: (any | null)[]): any[] =>
+  blocks.flatMap(block => {
+    const found = takePlaceholders(block);
+    const children = placeImages(block.children || [], images);
+    const imageBlocks = found.map(index => images[index]).filter(Boolean);
+    if (found.length > 0 && !hasText(block) && children.length === 0) {
+      return imageBlocks;
+    }
+    return [{ ...block, children }, ...imageBlocks];
+  });
+
+export const importDocumentBlocks = async (
+  editor: BlockNoteEditor<any, any, any>,
+  text: string,
+  format: 'markdown' | 'html',
+  localFiles: File[]
+): Promise<{ blocks: any[]; missingImages: string[] }> => {
+  const sources: string[] = [];
+  const addSource = (src: string) => {
+    sources.push(src.trim());
+    return ` ${placeholder(sources.length - 1)} `;
+  };
+
+  let blocks: any[];
+  if (format === 'markdown') {
+    const markdown = text
+      .replace(MARKDOWN_IMAGE_PATTERN, (_, src) => addSource(src))
+      .replace(HTML_IMAGE_PATTERN, (_, __, src) => addSource(src));
+    blocks = await editor.tryParseMarkdownToBlocks(markdown);
+  } else {
+    const doc = new DOMParser().parseFromString(text, 'text/html');
+    doc.querySelectorAll('script, style, noscript, template').forEach(element => element.remove());
+    doc.querySelectorAll('img').forEach(img => {
+      img.replaceWith(doc.createTextNode(addSource(img.getAttribute('src') || '')));
+    });
+    blocks = await editor.tryParseHTMLToBlocks(doc.body.innerHTML);
+  }
+
+  const missingImages: string[] = [];
+  const images = await Promise.all(sources.map(async src => {
+    const resolved = src ? await resolveImageSource(src, localFiles) : null;
+    const block = resolved ? await createImageBlock(resolved) : null;
+    if (block) return block;
+    missingImages.push(src || '(image without a source)');
+    return isWebUrl(src) ? createImageLinkBlock(src) : null;
+  }));
+
+  return { blocks: placeImages(blocks, images), missingImages };
+};
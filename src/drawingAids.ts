@@ -0,0 +1,188 @@
+import type { Bounds, Viewport } from "./drawingElements";
+
+// Alignment aids for drawing blocks: paper backgrounds, snapping to the grid, and smart
+// guides that line shapes up with the ones already on the canvas. Everything works in
+// drawing coordinates, so the grid stays put when the drawing is zoomed or panned.
+
+export type PaperStyle = "none" | "dots" | "grid" | "lined" | "graph";
+
+export const PAPER_STYLES: { value: PaperStyle; label: string }[] = [
+  { value: "none", label: "Blank" },
+  { value: "dots", label: "Dot grid" },
+  { value: "grid", label: "Square grid" },
+  { value: "lined", label: "Lined" },
+  { value: "graph", label: "Graph paper" }
+];
+
+export const GRID_SIZE = 20;
+
+// Spacing of ruled lines on lined paper, and where its margin sits
+const LINE_SPACING = 30;
+const MARGIN_X = 60;
+
+export const snapToGrid = (value: number) => Math.round(value / GRID_SIZE) * GRID_SIZE;
+
+// Zoomed far out the grid would turn into a grey wash, so it thins out in steps of five
+const getGridStep = (zoom: number, base: number) => {
+  let step = base;
+  while (step * zoom < 8) step *= 5;
+  return step;
+};
+
+export const drawPaper = (
+  ctx: CanvasRenderingContext2D,
+  width: number,
+  height: number,
+  paper: PaperStyle,
+  viewport: Viewport = { x: 0, y: 0, zoom: 1 }
+) => {
+  if (paper === "none") return;
+  const { x: left, y: top, zoom } = viewport;
+  const right = left + width / zoom;
+  const bottom = top + height / zoom;
+  const pixel = 1 / zoom;
+
+  const strokeLines = (step: number, color: string, lineWidth: number, vertical = true, horizontal = true) => {
+    ctx.beginPath();
+    if (vertical) {
+      for (let x = Math.ceil(left / step) * step; x <= right; x += step) {
+        ctx.moveTo(x, top);
+        ctx.lineTo(x, bottom);
+      }
+    }
+    if (horizontal) {
+      for (let y = Math.ceil(top / step) * step; y <= bottom; y += step) {
+        ctx.moveTo(left, y);
+        ctx.lineTo(right, y);
+      }
+    }
+    ctx.strokeStyle = color;
+    ctx.lineWidth = lineWidth;
+    ctx.stroke();
+  };
+
+  ctx.save();
+  ctx.setTransform(zoom, 0, 0, zoom, -left * zoom, -top * zoom);
+  switch (paper) {
+    case "dots": {
+      const step = getGridStep(zoom, GRID_SIZE);
+      const radius = 1.2 * pixel;
+      ctx.fillStyle = "#c4c4c4";
+      for (let x = Math.ceil(left / step) * step; x <= right; x += step) {
+        for (let y = Math.ceil(top / step) * step; y <= bottom; y += step) {
+          ctx.fillRect(x - radius, y - radius, radius * 2, radius * 2);
+        }
+      }
+      break;
+    }
+    case "grid":
+      strokeLines(getGridStep(zoom, GRID_SIZE), "#e4e4e4", pixel);
+      break;
+    case "lined":
+      strokeLines(getGridStep(zoom, LINE_SPACING), "#d3e2f0", pixel, false, true);
+      if (left <= MARGIN_X && MARGIN_X <= right) {
+        ctx.beginPath();
+        ctx.moveTo(MARGIN_X, top);
+        ctx.lineTo(MARGIN_X, bottom);
+        ctx.strokeStyle = "#f0b4b4";
+        ctx.lineWidth = pixel;
+        ctx.stroke();
+      }
+      break;
+    case "graph": {
+      const step = getGridStep(zoom, GRID_SIZE);
+      strokeLines(step, "#eaf0f6", pixel);
+      strokeLines(step * 5, "#cfdbe8", pixel);
+      // Axes through the drawing's origin
+      ctx.beginPath();
+      ctx.moveTo(0, top);
+      ctx.lineTo(0, bottom);
+      ctx.moveTo(left, 0);
+      ctx.lineTo(right, 0);
+      ctx.strokeStyle = "#8094ab";
+      ctx.lineWidth = pixel * 1.5;
+      ctx.stroke();
+      break;
+    }
+  }
+  ctx.restore();
+};
+
+// A line across the canvas showing that edges or centers are lined up
+export interface Guide {
+  axis: "x" | "y";
+  position: number;
+  from: number;
+  to: number;
+}
+
+// Left, center and right (or top, middle and bottom) of a box
+const getAnchors = (bounds: Bounds, axis: "x" | "y") =>
+  axis === "x"
+    ? [bounds.x, bounds.x + bounds.width / 2, bounds.x + bounds.width]
+    : [bounds.y, bounds.y + bounds.height / 2, bounds.y + bounds.height];
+
+// How far to move `bounds` so one of its edges or its center lines up with another box's,
+// if one is within `threshold`, and the guides to show for it
+export const alignBounds = (bounds: Bounds, others: Bounds[], threshold: number) => {
+  const align = (axis: "x" | "y") => {
+    let best: { offset: number; position: number } | null = null;
+    getAnchors(bounds, axis).forEach(anchor => {
+      others.forEach(other => {
+        getAnchors(other, axis).forEach(position => {
+          const offset = position - anchor;
+          if (Math.abs(offset) <= threshold && (!best || Math.abs(offset) < Math.abs(best.offset))) {
+            best = { offset, position };
+          }
+        });
+      });
+    });
+    return best as { offset: number; position: number } | null;
+  };
+
+  const alignX = align("x");
+  const alignY = align("y");
+  const dx = alignX?.offset ?? 0;
+  const dy = alignY?.offset ?? 0;
+  const moved = { ...bounds, x: bounds.x + dx, y: bounds.y + dy };
+  const guides: Guide[] = [];
+
+  // Each guide runs from the moved box to the farthest box it lines up with
+  ([["x", alignX], ["y", alignY]] as const).forEach(([axis, match]) => {
+    if (!match) return;
+    const across = axis === "x" ? "y" : "x";
+    const size = across === "x" ? "width" : "height";
+    const matched = [moved, ...others.filter(other =>
+      getAnchors(other, axis).some(position => Math.abs(position - match.position) < 0.5))];
+    guides.push({
+      axis,
+      position: match.position,
+      from: Math.min(...matched.map(box => box[across])),
+      to: Math.max(...matched.map(box => box[across] + box[size]))
+    });
+  });
+
+  return { dx, dy, guides };
+};
+
+export const drawGuides = (ctx: CanvasRenderingContext2D, guides: Guide[], viewport: Viewport) => {
+  if (guides.length === 0) return;
+  const { x, y, zoom } = viewport;
+  ctx.save();
+  ctx.setTransform(zoom, 0, 0, zoom, -x * zoom, -y * zoom);
+  ctx.beginPath();
+  guides.forEach(guide => {
+    if (guide.axis === "x") {
+      ctx.moveTo(guide.position, guide.from);
+      ctx.lineTo(guide.position, guide.to);
+    } else {
+      ctx.moveTo(guide.from, guide.position);
+      ctx.lineTo(guide.to, guide.position);
+    }
+  });
+  ctx.strokeStyle = "#e64980";
+  ctx.lineWidth = 1 / zoom;
+  ctx.setLineDash([4 / zoom, 4 / zoom]);
+  ctx.stroke();
+  ctx.restore();
+};
@@ -0,0 +1,1218 @@
+import rough from "roughjs/bin/rough";
+import type { RoughCanvas } from "roughjs/bin/canvas";
+import { resolveAssetUrl } from "./assets";
+import { drawPaper, type PaperStyle } from "./drawingAids";
+import { clipRedaction, paintRedaction, type RedactionMark } from "./redaction";
+import { drawSmoothStroke } from "./strokeEngine";
+
+// A point on a freehand stroke, stored as a tuple to keep saved notes small. Pen and
+// touch input also records pressure (0 to 1) and tilt (degrees)
+export type StrokePoint = [number, number, number?, number?, number?];
+
+interface BaseElement {
+  id: string;
+  color: string;
+  strokeWidth: number;
+  roughness: number;
+  // Fixed roughjs seed so a shape keeps the same wobble every time it is re-rendered
+  seed: number;
+  layerId?: string;
+  // Style panel settings; missing means the default (see DEFAULT_SHAPE_STYLE)
+  opacity?: number;
+  lineStyle?: LineStyle;
+  bowing?: number;
+}
+
+export type FillStyle = "none" | "solid" | "hachure" | "cross-hatch";
+export type LineStyle = "solid" | "dashed" | "dotted";
+
+export interface StrokeElement extends BaseElement {
+  type: "stroke";
+  points: StrokePoint[];
+  pointerType?: string;
+  // How much pressure varied the width when this was drawn; 0 or missing means constant width
+  pressureSensitivity?: number;
+  // Fitted and tapered by the stroke engine; strokes without it keep the roughjs look
+  smooth?: boolean;
+}
+
+export interface LineElement extends BaseElement {
+  type: "line" | "arrow";
+  x1: number;
+  y1: number;
+  x2: number;
+  y2: number;
+}
+
+export interface ShapeElement extends BaseElement {
+  type: "rect" | "ellipse";
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  fill?: string;
+  fillStyle?: FillStyle;
+  // Rectangles only
+  cornerRadius?: number;
+}
+
+// Line or arrow whose ends can be attached to other elements (`startId`/`endId`). The
+// coordinates are where the ends were last routed to, and are used as-is for free ends
+export interface ConnectorElement extends BaseElement {
+  type: "connector";
+  x1: number;
+  y1: number;
+  x2: number;
+  y2: number;
+  startId?: string;
+  endId?: string;
+  route: "straight" | "elbow";
+  // Which way an elbow connector leaves its start; picked when it's routed
+  axis?: "horizontal" | "vertical";
+  arrowhead: boolean;
+  label?: string;
+}
+
+// Closed outline through its corners, e.g. a triangle or diamond
+export interface PolygonElement extends BaseElement {
+  type: "polygon";
+  points: StrokePoint[];
+  fill?: string;
+  fillStyle?: FillStyle;
+}
+
+export interface TextElement extends BaseElement {
+  type: "text";
+  // Left edge of the text box
+  x: number;
+  // Vertical middle of the first line
+  y: number;
+  // Lines are separated by "\n"
+  text: string;
+  fontSize: number;
+  // Wrap width; without it lines are as long as they are typed
+  width?: number;
+  fontFamily?: TextFont;
+  bold?: boolean;
+  italic?: boolean;
+  align?: TextAlign;
+  // Highlight color behind the text
+  background?: string;
+  // Degrees clockwise around the center of the text box
+  rotation?: number;
+}
+
+export type TextFont = "sans" | "serif" | "mono" | "handwritten";
+export type TextAlign = "left" | "center" | "right";
+
+// Pixel content carried over from drawings saved before the vector model existed
+export interface BitmapElement extends BaseElement {
+  type: "bitmap";
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  src: string;
+}
+
+export type DrawingElement =
+  | StrokeElement
+  | LineElement
+  | ConnectorElement
+  | ShapeElement
+  | PolygonElement
+  | TextElement
+  | BitmapElement;
+
+// Layers are stored bottom to top in the block's `layers` prop. Image blocks also get a
+// locked background layer for the image itself, which no tool can draw on or erase
+export interface DrawingLayer {
+  id: string;
+  name: string;
+  visible: boolean;
+  opacity: number;
+}
+
+export const BACKGROUND_LAYER_ID = "background";
+
+// How new shapes and lines look beyond their color and width. Drawing blocks remember the
+// last one used in their `shapeStyle` prop
+export interface ShapeStyle {
+  fill: string;
+  fillStyle: FillStyle;
+  lineStyle: LineStyle;
+  roughness: number;
+  bowing: number;
+  cornerRadius: number;
+  opacity: number;
+}
+
+export const DEFAULT_SHAPE_STYLE: ShapeStyle = {
+  fill: "#a5d8ff",
+  fillStyle: "none",
+  lineStyle: "solid",
+  roughness: 1,
+  bowing: 1,
+  cornerRadius: 0,
+  opacity: 1
+};
+
+// How new text looks; like shape styles, defaults are left out of saved elements
+export interface TextStyle {
+  fontFamily: TextFont;
+  bold: boolean;
+  italic: boolean;
+  align: TextAlign;
+  background: string;
+  rotation: number;
+}
+
+export const DEFAULT_TEXT_STYLE: TextStyle = {
+  fontFamily: "sans",
+  bold: false,
+  italic: false,
+  align: "left",
+  background: "",
+  rotation: 0
+};
+
+export const applyTextStyle = (element: TextElement, style: Partial<TextStyle>): TextElement => {
+  const next: any = { ...element };
+  (Object.keys(style) as (keyof TextStyle)[]).forEach(field => {
+    if (style[field] === undefined || style[field] === DEFAULT_TEXT_STYLE[field]) {
+      delete next[field];
+    } else {
+      next[field] = style[field];
+    }
+  });
+  return next;
+};
+
+export const parseShapeStyle = (value: string | undefined): ShapeStyle => {
+  if (!value) return { ...DEFAULT_SHAPE_STYLE };
+  try {
+    const parsed = JSON.parse(value);
+    return { ...DEFAULT_SHAPE_STYLE, ...(parsed && typeof parsed === "object" ? parsed : {}) };
+  } catch (error) {
+    console.error("Error parsing shape style:", error);
+    return { ...DEFAULT_SHAPE_STYLE };
+  }
+};
+
+// Which style settings apply to each element type; everything can be faded
+const STYLE_FIELDS: Record<DrawingElement["type"], (keyof ShapeStyle)[]> = {
+  stroke: ["opacity"],
+  line: ["lineStyle", "roughness", "bowing", "opacity"],
+  arrow: ["lineStyle", "opacity"],
+  connector: ["lineStyle", "opacity"],
+  rect: ["fill", "fillStyle", "lineStyle", "roughness", "bowing", "cornerRadius", "opacity"],
+  ellipse: ["fill", "fillStyle", "lineStyle", "roughness", "bowing", "opacity"],
+  polygon: ["fill", "fillStyle", "lineStyle", "roughness", "bowing", "opacity"],
+  text: ["opacity"],
+  bitmap: ["opacity"]
+};
+
+// The element with the style settings that apply to it. Defaults are left out rather than
+// stored, so plain shapes stay as small as before; roughness is always stored
+export const applyShapeStyle = (element: DrawingElement, style: Partial<ShapeStyle>): DrawingElement => {
+  const next: any = { ...element };
+  STYLE_FIELDS[element.type].forEach(field => {
+    const value = style[field];
+    if (value === undefined) return;
+    if (field === "roughness" || value !== DEFAULT_SHAPE_STYLE[field]) {
+      next[field] = value;
+    } else {
+      delete next[field];
+    }
+  });
+  return next;
+};
+
+export const getLineDash = (lineStyle: LineStyle | undefined, strokeWidth: number): number[] => {
+  if (lineStyle === "dashed") return [strokeWidth * 4 + 4, strokeWidth * 2 + 4];
+  if (lineStyle === "dotted") return [1, strokeWidth * 2 + 3];
+  return [];
+};
+
+// SVG path for a rectangle with rounded corners, which roughjs can draw and fill
+const getRoundedRectPath = (x: number, y: number, width: number, height: number, radius: number) => {
+  const left = Math.min(x, x + width);
+  const top = Math.min(y, y + height);
+  const w = Math.abs(width);
+  const h = Math.abs(height);
+  const r = Math.min(radius, w / 2, h / 2);
+  return [
+    `M ${left + r} ${top}`,
+    `H ${left + w - r}`,
+    `Q ${left + w} ${top} ${left + w} ${top + r}`,
+    `V ${top + h - r}`,
+    `Q ${left + w} ${top + h} ${left + w - r} ${top + h}`,
+    `H ${left + r}`,
+    `Q ${left} ${top + h} ${left} ${top + h - r}`,
+    `V ${top + r}`,
+    `Q ${left} ${top} ${left + r} ${top}`,
+    "Z"
+  ].join(" ");
+};
+
+export type DrawingOperation =
+  | { type: "add"; elements: DrawingElement[] }
+  | { type: "remove"; elements: DrawingElement[]; indices: number[] }
+  | { type: "update"; before: DrawingElement[]; after: DrawingElement[] }
+  // Layer changes leave the elements alone; the block swaps its layer list instead
+  | { type: "layers"; before: DrawingLayer[]; after: DrawingLayer[] }
+  // Several changes undone and redone as one step, e.g. a layer with what was drawn on it
+  | { type: "batch"; operations: DrawingOperation[] };
+
+export const createElementId = () =>
+  `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const createSeed = () => Math.floor(Math.random() * 2 ** 31);
+
+export const roundCoord = (value: number) => Math.round(value * 10) / 10;
+
+// Parse the `elements` block prop, tolerating empty or corrupted values
+export const parseElements = (value: string | undefined): DrawingElement[] => {
+  if (!value) return [];
+  try {
+    const parsed = JSON.parse(value);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch (error) {
+    console.error("Error parsing drawing elements:", error);
+    return [];
+  }
+};
+
+export const serializeElements = (elements: DrawingElement[]) => JSON.stringify(elements);
+
+export const createLayer = (name: string): DrawingLayer => ({
+  id: createElementId(),
+  name,
+  visible: true,
+  opacity: 1
+});
+
+// Parse the `layers` block prop, making sure there is a background layer exactly when there
+// is an image, and always at least one layer to draw on
+export const parseLayers = (value: string | undefined, hasBackground: boolean): DrawingLayer[] => {
+  let stored: DrawingLayer[] = [];
+  if (value) {
+    try {
+      const parsed = JSON.parse(value);
+      stored = Array.isArray(parsed) ? parsed : [];
+    } catch (error) {
+      console.error("Error parsing drawing layers:", error);
+    }
+  }
+
+  const drawable = stored.filter(layer => layer.id !== BACKGROUND_LAYER_ID);
+  if (drawable.length === 0) {
+    drawable.push({ ...createLayer("Layer 1"), id: "layer-1" });
+  }
+  if (!hasBackground) return drawable;
+  const background = stored.find(layer => layer.id === BACKGROUND_LAYER_ID)
+    ?? { id: BACKGROUND_LAYER_ID, name: "Image", visible: true, opacity: 1 };
+  return [background, ...drawable];
+};
+
+export const serializeLayers = (layers: DrawingLayer[]) => JSON.stringify(layers);
+
+// Elements drawn before layers existed, or left behind by a deleted layer, belong to the bottom drawable layer
+export const getElementLayerId = (element: DrawingElement, layers: DrawingLayer[]) => {
+  const drawable = layers.filter(layer => layer.id !== BACKGROUND_LAYER_ID);
+  return element.layerId && drawable.some(layer => layer.id === element.layerId)
+    ? element.layerId
+    : drawable[0]?.id;
+};
+
+export const applyOperation = (elements: DrawingElement[], op: DrawingOperation): DrawingElement[] => {
+  switch (op.type) {
+    case "add":
+      return [...elements, ...op.elements];
+    case "remove": {
+      const removedIds = new Set(op.elements.map(el => el.id));
+      return elements.filter(el => !removedIds.has(el.id));
+    }
+    case "update": {
+      const updates = new Map(op.after.map(el => [el.id, el]));
+      return elements.map(el => updates.get(el.id) ?? el);
+    }
+    case "layers":
+      return elements;
+    case "batch":
+      return op.operations.reduce(applyOperation, elements);
+  }
+};
+
+// Reverse an operation that produced `elements`; removals go back to their original stacking position
+export const undoOperation = (elements: DrawingElement[], op: DrawingOperation): DrawingElement[] => {
+  switch (op.type) {
+    case "add":
+      return applyOperation(elements, { type: "remove", elements: op.elements, indices: [] });
+    case "update":
+      return applyOperation(elements, { type: "update", before: op.after, after: op.before });
+    case "remove": {
+      const restored = [...elements];
+      op.elements
+        .map((element, i) => ({ element, index: op.indices[i] ?? -1 }))
+        .sort((a, b) => a.index - b.index)
+        .forEach(({ element, index }) => {
+          const position = index < 0 ? restored.length : Math.min(index, restored.length);
+          restored.splice(position, 0, element);
+        });
+      return restored;
+    }
+    case "layers":
+      return elements;
+    case "batch":
+      return op.operations.reduceRight(undoOperation, elements);
+  }
+};
+
+// The layer list an operation leaves once applied or undone, or null if it keeps the layers
+export const getOperationLayers = (op: DrawingOperation, undo: boolean): DrawingLayer[] | null => {
+  if (op.type === "layers") return undo ? op.before : op.after;
+  if (op.type !== "batch") return null;
+  const ordered = undo ? [...op.operations].reverse() : op.operations;
+  return ordered.reduce<DrawingLayer[] | null>((layers, inner) => getOperationLayers(inner, undo) ?? layers, null);
+};
+
+export const createRemoveOperation = (elements: DrawingElement[], removed: DrawingElement[]): DrawingOperation => ({
+  type: "remove",
+  elements: removed,
+  indices: removed.map(el => elements.findIndex(candidate => candidate.id === el.id))
+});
+
+// Arrows are drawn with plain canvas paths so the head stays crisp at any stroke width
+export const drawArrow = (
+  ctx: CanvasRenderingContext2D,
+  fromX: number,
+  fromY: number,
+  toX: number,
+  toY: number,
+  color: string,
+  lineWidth: number,
+  lineDash: number[] = []
+) => {
+  // Calculate proportional measurements based on line width
+  const headLength = lineWidth * 4; // Length of arrow head scales with line width
+  const headWidth = Math.PI / 6; // 30 degrees angle for arrow head
+
+  const angle = Math.atan2(toY - fromY, toX - fromX);
+
+  // Draw the main line
+  ctx.beginPath();
+  ctx.moveTo(fromX, fromY);
+  ctx.lineTo(toX, toY);
+  ctx.strokeStyle = color;
+  ctx.lineWidth = lineWidth;
+  ctx.setLineDash(lineDash);
+  ctx.stroke();
+  ctx.setLineDash([]);
+
+  // Calculate arrow head points
+  const tip = { x: toX, y: toY };
+  const left = {
+    x: toX - headLength * Math.cos(angle - headWidth),
+    y: toY - headLength * Math.sin(angle - headWidth)
+  };
+  const right = {
+    x: toX - headLength * Math.cos(angle + headWidth),
+    y: toY - headLength * Math.sin(angle + headWidth)
+  };
+
+  // Draw the arrow head
+  ctx.beginPath();
+  ctx.moveTo(tip.x, tip.y);
+  ctx.lineTo(left.x, left.y);
+  ctx.lineTo(right.x, right.y);
+  ctx.closePath();
+  ctx.fillStyle = color;
+  ctx.fill();
+
+  // Draw outline for the arrow head to match line thickness
+  ctx.beginPath();
+  ctx.moveTo(tip.x, tip.y);
+  ctx.lineTo(left.x, left.y);
+  ctx.lineTo(right.x, right.y);
+  ctx.closePath();
+  ctx.strokeStyle = color;
+  ctx.lineWidth = lineWidth / 2;
+  ctx.stroke();
+};
+
+// Bitmaps are decoded once and reused across renders
+const bitmapCache = new Map<string, HTMLImageElement>();
+
+// An image without a source yet also counts as complete
+const isImageLoaded = (img: HTMLImageElement) => img.complete && img.getAttribute("src") !== null;
+
+export const loadBitmap = (src: string, onLoad?: () => void): HTMLImageElement => {
+  let img = bitmapCache.get(src);
+  if (!img) {
+    const loading = new Image();
+    // Stored images are looked up first; a missing one is marked broken so nothing waits on it
+    resolveAssetUrl(src)
+      .then(url => {
+        loading.src = url;
+      })
+      .catch(error => {
+        console.error("Error loading drawing image:", error);
+        loading.src = "data:,";
+      });
+    img = loading;
+    bitmapCache.set(src, img);
+  }
+  if (!isImageLoaded(img) && onLoad) {
+    img.addEventListener("load", onLoad, { once: true });
+  }
+  return img;
+};
+
+// Corners the connector passes through; free elbow connectors run along the longer axis first
+export const getConnectorPath = (element: ConnectorElement): StrokePoint[] => {
+  const { x1, y1, x2, y2 } = element;
+  if (element.route === "straight") return [[x1, y1], [x2, y2]];
+  const axis = element.axis ?? (Math.abs(x2 - x1) >= Math.abs(y2 - y1) ? "horizontal" : "vertical");
+  if (axis === "horizontal") {
+    const middle = (x1 + x2) / 2;
+    return [[x1, y1], [middle, y1], [middle, y2], [x2, y2]];
+  }
+  const middle = (y1 + y2) / 2;
+  return [[x1, y1], [x1, middle], [x2, middle], [x2, y2]];
+};
+
+// Halfway along the connector's path, where its label sits
+const getPathMidpoint = (path: StrokePoint[]) => {
+  const lengths = path.slice(1).map((point, i) => Math.hypot(point[0] - path[i][0], point[1] - path[i][1]));
+  let remaining = lengths.reduce((a, b) => a + b, 0) / 2;
+  for (let i = 0; i < lengths.length; i++) {
+    if (remaining <= lengths[i] && lengths[i] > 0) {
+      const t = remaining / lengths[i];
+      return { x: path[i][0] + (path[i + 1][0] - path[i][0]) * t, y: path[i][1] + (path[i + 1][1] - path[i][1]) * t };
+    }
+    remaining -= lengths[i];
+  }
+  return { x: path[0][0], y: path[0][1] };
+};
+
+const drawConnector = (ctx: CanvasRenderingContext2D, element: ConnectorElement) => {
+  const path = getConnectorPath(element);
+  const last = path.length - 1;
+  const lineDash = getLineDash(element.lineStyle, element.strokeWidth);
+  ctx.lineJoin = "round";
+  ctx.beginPath();
+  ctx.moveTo(path[0][0], path[0][1]);
+  path.slice(1, element.arrowhead ? last : undefined).forEach(([x, y]) => ctx.lineTo(x, y));
+  ctx.strokeStyle = element.color;
+  ctx.lineWidth = element.strokeWidth;
+  ctx.setLineDash(lineDash);
+  ctx.stroke();
+  ctx.setLineDash([]);
+  if (element.arrowhead) {
+    const [fromX, fromY] = path[last - 1];
+    drawArrow(ctx, fromX, fromY, path[last][0], path[last][1], element.color, element.strokeWidth, lineDash);
+  }
+
+  if (element.label) {
+    const { x, y } = getPathMidpoint(path);
+    const fontSize = 14;
+    ctx.font = `${fontSize}px Arial`;
+    const width = ctx.measureText(element.label).width;
+    ctx.fillStyle = "#fff";
+    ctx.fillRect(x - width / 2 - 4, y - fontSize / 2 - 3, width + 8, fontSize + 6);
+    ctx.fillStyle = element.color;
+    ctx.textAlign = "center";
+    ctx.textBaseline = "middle";
+    ctx.fillText(element.label, x, y);
+  }
+};
+
+// Width multiplier for a pressure reading: 1 at half pressure, between 0.2 and 2 at full sensitivity
+export const getPressureScale = (pressure: number, sensitivity: number) =>
+  Math.max(0.2, 1 + sensitivity * (pressure * 2 - 1));
+
+// Width follows pressure along the stroke, so each segment is stroked on its own
+const drawPressureStroke = (ctx: CanvasRenderingContext2D, element: StrokeElement) => {
+  const sensitivity = element.pressureSensitivity ?? 0;
+  const widthAt = (point: StrokePoint) => element.strokeWidth * getPressureScale(point[2] ?? 0.5, sensitivity);
+
+  ctx.strokeStyle = element.color;
+  ctx.lineCap = "round";
+  ctx.lineJoin = "round";
+  for (let i = 1; i < element.points.length; i++) {
+    const [x1, y1] = element.points[i - 1];
+    const [x2, y2] = element.points[i];
+    ctx.beginPath();
+    ctx.lineWidth = (widthAt(element.points[i - 1]) + widthAt(element.points[i])) / 2;
+    ctx.moveTo(x1, y1);
+    ctx.lineTo(x2, y2);
+    ctx.stroke();
+  }
+};
+
+export const hasPressure = (element: StrokeElement) =>
+  (element.pressureSensitivity ?? 0) > 0 && element.points.some(point => point[2] !== undefined);
+
+// Scratch surface for compositing a semi-transparent element as a whole
+let elementCanvas: HTMLCanvasElement | null = null;
+
+export const drawElement = (
+  ctx: CanvasRenderingContext2D,
+  rc: RoughCanvas,
+  element: DrawingElement,
+  onBitmapLoad?: () => void
+) => {
+  const lineDash = getLineDash(element.lineStyle, element.strokeWidth);
+  const options = {
+    stroke: element.color,
+    strokeWidth: element.strokeWidth,
+    roughness: element.roughness,
+    seed: element.seed,
+    ...(element.bowing !== undefined ? { bowing: element.bowing } : {}),
+    ...(lineDash.length > 0 ? { strokeLineDash: lineDash } : {}),
+    // A crisp shape is one clean outline instead of roughjs's two overlapping passes
+    ...(element.roughness === 0 ? { disableMultiStroke: true, disableMultiStrokeFill: true } : {})
+  };
+  const fillOptions =
+    (element.type === "rect" || element.type === "ellipse" || element.type === "polygon") &&
+    element.fill && element.fillStyle && element.fillStyle !== "none"
+      ? { fill: element.fill, fillStyle: element.fillStyle, hachureGap: element.strokeWidth * 2 + 4 }
+      : {};
+
+  // Faded elements are drawn whole on their own surface first and then blended in, so the
+  // segments and rough passes they are made of don't add up to darker spots where they meet
+  const opacity = element.opacity ?? 1;
+  if (opacity < 1) {
+    if (!elementCanvas) elementCanvas = document.createElement("canvas");
+    // Resizing reallocates the surface, so it only happens when the canvas size changes
+    if (elementCanvas.width !== ctx.canvas.width) elementCanvas.width = ctx.canvas.width;
+    if (elementCanvas.height !== ctx.canvas.height) elementCanvas.height = ctx.canvas.height;
+    const fadedCtx = elementCanvas.getContext("2d")!;
+    fadedCtx.setTransform(1, 0, 0, 1, 0, 0);
+    fadedCtx.clearRect(0, 0, elementCanvas.width, elementCanvas.height);
+    fadedCtx.save();
+    fadedCtx.setTransform(ctx.getTransform());
+    drawElement(fadedCtx, rough.canvas(elementCanvas), { ...element, opacity: 1 }, onBitmapLoad);
+    fadedCtx.restore();
+    ctx.save();
+    ctx.setTransform(1, 0, 0, 1, 0, 0);
+    ctx.globalAlpha *= opacity;
+    ctx.drawImage(elementCanvas, 0, 0);
+    ctx.restore();
+    return;
+  }
+
+  switch (element.type) {
+    case "stroke":
+      if (element.points.length === 1) {
+        const [x, y] = element.points[0];
+        ctx.beginPath();
+        ctx.arc(x, y, element.strokeWidth / 2, 0, Math.PI * 2);
+        ctx.fillStyle = element.color;
+        ctx.fill();
+      } else if (element.smooth) {
+        const sensitivity = hasPressure(element) ? element.pressureSensitivity ?? 0 : 0;
+        drawSmoothStroke(ctx, element.points, element.color, element.strokeWidth, pressure =>
+          getPressureScale(pressure, sensitivity));
+      } else if (hasPressure(element)) {
+        drawPressureStroke(ctx, element);
+      } else if (element.points.length > 1) {
+        rc.linearPath(element.points.map(([x, y]) => [x, y]), options);
+      }
+      break;
+    case "line":
+      rc.line(element.x1, element.y1, element.x2, element.y2, options);
+      break;
+    case "arrow":
+      drawArrow(ctx, element.x1, element.y1, element.x2, element.y2, element.color, element.strokeWidth, lineDash);
+      break;
+    case "connector":
+      drawConnector(ctx, element);
+      break;
+    case "rect":
+      if (element.cornerRadius) {
+        rc.path(
+          getRoundedRectPath(element.x, element.y, element.width, element.height, element.cornerRadius),
+          { ...options, ...fillOptions }
+        );
+      } else {
+        rc.rectangle(element.x, element.y, element.width, element.height, { ...options, ...fillOptions });
+      }
+      break;
+    case "ellipse":
+      rc.ellipse(
+        element.x + element.width / 2,
+        element.y + element.height / 2,
+        element.width,
+        element.height,
+        { ...options, ...fillOptions }
+      );
+      break;
+    case "polygon":
+      rc.polygon(element.points.map(([x, y]) => [x, y]), { ...options, ...fillOptions });
+      break;
+    case "text":
+      drawText(ctx, element);
+      break;
+    case "bitmap": {
+      const img = loadBitmap(element.src, onBitmapLoad);
+      if (img.complete && img.naturalWidth > 0) {
+        ctx.drawImage(img, element.x, element.y, element.width, element.height);
+      }
+      break;
+    }
+  }
+};
+
+// Filled shapes can be picked up and erased from anywhere inside, not just their outline
+const isFilled = (element: DrawingElement) =>
+  (element.type === "rect" || element.type === "ellipse" || element.type === "polygon") &&
+  !!element.fill && !!element.fillStyle && element.fillStyle !== "none";
+
+// The part of an unbounded drawing that is on screen: the world point shown at the
+// canvas's top-left corner, and how many canvas pixels one world unit takes up
+export interface Viewport {
+  x: number;
+  y: number;
+  zoom: number;
+}
+
+interface RenderOptions {
+  background?: HTMLImageElement | null;
+  viewport?: Viewport;
+  layers?: DrawingLayer[];
+  // Ruled or gridded background under the elements
+  paper?: PaperStyle;
+  hiddenIds?: Set<string>;
+  onBitmapLoad?: () => void;
+  // Previewed over the background, under everything drawn on the image
+  redactions?: RedactionMark[];
+}
+
+// Scratch surface for compositing a semi-transparent layer as a whole
+let layerCanvas: HTMLCanvasElement | null = null;
+
+// Repaint the whole canvas from the element model, bottom to top
+export const renderElements = (
+  canvas: HTMLCanvasElement,
+  elements: DrawingElement[],
+  { background, viewport, layers, paper, hiddenIds, onBitmapLoad, redactions }: RenderOptions = {}
+) => {
+  const ctx = canvas.getContext("2d");
+  if (!ctx) return;
+
+  // Elements are re-rendered at the current zoom rather than scaled as pixels, so they stay sharp
+  const paint = (target: HTMLCanvasElement, items: DrawingElement[]) => {
+    const targetCtx = target.getContext("2d")!;
+    const rc = rough.canvas(target);
+    if (viewport) {
+      targetCtx.setTransform(viewport.zoom, 0, 0, viewport.zoom, -viewport.x * viewport.zoom, -viewport.y * viewport.zoom);
+    }
+    items.forEach(element => {
+      if (hiddenIds?.has(element.id)) return;
+      targetCtx.save();
+      drawElement(targetCtx, rc, element, onBitmapLoad);
+      targetCtx.restore();
+      // Images over the background, like the flattened drawing of an older note, are
+      // redacted along with it when the marks are applied
+      if (element.type === "bitmap") {
+        redactions?.forEach(mark => {
+          const clipped = clipRedaction(mark, element);
+          if (clipped) paintRedaction(targetCtx, clipped);
+        });
+      }
+    });
+    targetCtx.setTransform(1, 0, 0, 1, 0, 0);
+  };
+
+  ctx.setTransform(1, 0, 0, 1, 0, 0);
+  ctx.clearRect(0, 0, canvas.width, canvas.height);
+
+  const backgroundLayer = layers?.find(layer => layer.id === BACKGROUND_LAYER_ID);
+  if (background && background.complete && background.naturalWidth > 0 && (backgroundLayer?.visible ?? true)) {
+    ctx.globalAlpha = backgroundLayer?.opacity ?? 1;
+    ctx.drawImage(background, 0, 0, canvas.width, canvas.height);
+    ctx.globalAlpha = 1;
+  }
+  redactions?.forEach(mark => paintRedaction(ctx, mark));
+  if (paper) {
+    drawPaper(ctx, canvas.width, canvas.height, paper, viewport);
+  }
+
+  if (!layers) {
+    paint(canvas, elements);
+    return;
+  }
+
+  layers.forEach(layer => {
+    if (layer.id === BACKGROUND_LAYER_ID || !layer.visible) return;
+    const items = elements.filter(element => getElementLayerId(element, layers) === layer.id);
+    if (items.length === 0) return;
+    if (layer.opacity >= 1) {
+      paint(canvas, items);
+      return;
+    }
+    // Paint the layer on its own first so overlapping strokes don't add up to darker spots
+    if (!layerCanvas) layerCanvas = document.createElement("canvas");
+    layerCanvas.width = canvas.width;
+    layerCanvas.height = canvas.height;
+    paint(layerCanvas, items);
+    ctx.globalAlpha = layer.opacity;
+    ctx.drawImage(layerCanvas, 0, 0);
+    ctx.globalAlpha = 1;
+  });
+};
+
+const waitForImage = (img: HTMLImageElement) =>
+  isImageLoaded(img)
+    ? Promise.resolve()
+    : new Promise<void>(resolve => {
+        img.addEventListener("load", () => resolve(), { once: true });
+        img.addEventListener("error", () => resolve(), { once: true });
+      });
+
+// Paint a drawing onto a detached canvas once its bitmaps and background have decoded,
+// for exporting blocks without relying on what is currently on screen
+export const renderElementsOffscreen = async (
+  elements: DrawingElement[],
+  width: number,
+  height: number,
+  {
+    backgroundSrc,
+    viewport,
+    layers,
+    paper
+  }: { backgroundSrc?: string; viewport?: Viewport; layers?: DrawingLayer[]; paper?: PaperStyle } = {}
+): Promise<HTMLCanvasElement> => {
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+
+  const background = backgroundSrc ? loadBitmap(backgroundSrc) : null;
+  const bitmaps = elements.flatMap(element => (element.type === "bitmap" ? [loadBitmap(element.src)] : []));
+  await Promise.all([...(background ? [background] : []), ...bitmaps].map(waitForImage));
+
+  renderElements(canvas, elements, { background, viewport, layers, paper });
+  return canvas;
+};
+
+export const TEXT_FONTS: Record<TextFont, { label: string; family: string }> = {
+  sans: { label: "Sans", family: "Arial, sans-serif" },
+  serif: { label: "Serif", family: "Georgia, 'Times New Roman', serif" },
+  mono: { label: "Mono", family: "'Courier New', monospace" },
+  handwritten: { label: "Handwritten", family: "'Segoe Print', 'Bradley Hand', 'Comic Sans MS', cursive" }
+};
+
+// Line spacing as a multiple of the font size, shared by the canvas and the editing overlay
+export const TEXT_LINE_HEIGHT = 1.25;
+
+// CSS/canvas font shorthand; `fontSize` lets the overlay use the zoomed size
+export const getTextFont = (element: TextElement, fontSize = element.fontSize) =>
+  `${element.italic ? "italic " : ""}${element.bold ? "bold " : ""}${fontSize}px ${TEXT_FONTS[element.fontFamily ?? "sans"].family}`;
+
+let measureContext: CanvasRenderingContext2D | null = null;
+
+export const measureTextWidth = (text: string, font: string) => {
+  if (!measureContext) {
+    measureContext = document.createElement("canvas").getContext("2d");
+  }
+  if (!measureContext) return text.length * (parseFloat(font.replace(/^\D*/, "")) || 16) * 0.6;
+  measureContext.font = font;
+  return measureContext.measureText(text).width;
+};
+
+// Split text into the lines it's drawn as, wrapping at word boundaries (or inside words
+// that don't fit on a line of their own) when the element has a width
+export const layoutText = (element: TextElement) => {
+  const font = getTextFont(element);
+  const measure = (text: string) => measureTextWidth(text, font);
+  const lines: string[] = [];
+
+  element.text.split("\n").forEach(paragraph => {
+    if (!element.width) {
+      lines.push(paragraph);
+      return;
+    }
+    let line = "";
+    paragraph.split(/(\s+)/).forEach(word => {
+      if (measure(line + word) <= element.width! || line === "") {
+        line += word;
+      } else {
+        lines.push(line.trimEnd());
+        line = word.trimStart();
+      }
+      // A single word longer than the box is broken wherever it overflows
+      while (measure(line) > element.width! && line.length > 1) {
+        let fit = line.length - 1;
+        while (fit > 1 && measure(line.slice(0, fit)) > element.width!) fit--;
+        lines.push(line.slice(0, fit));
+        line = line.slice(fit);
+      }
+    });
+    lines.push(line);
+  });
+
+  const lineHeight = element.fontSize * TEXT_LINE_HEIGHT;
+  return {
+    lines,
+    lineHeight,
+    width: element.width ?? Math.max(0, ...lines.map(measure)),
+    height: lines.length * lineHeight
+  };
+};
+
+// Text box before rotation
+const getTextBox = (element: TextElement): Bounds => {
+  const { width, height, lineHeight } = layoutText(element);
+  return { x: element.x, y: element.y - lineHeight / 2, width, height };
+};
+
+// Corners of the text box after rotation, clockwise from the top-left
+const getTextCorners = (element: TextElement): StrokePoint[] => {
+  const box = getTextBox(element);
+  const corners: StrokePoint[] = [
+    [box.x, box.y],
+    [box.x + box.width, box.y],
+    [box.x + box.width, box.y + box.height],
+    [box.x, box.y + box.height]
+  ];
+  if (!element.rotation) return corners;
+  const cx = box.x + box.width / 2;
+  const cy = box.y + box.height / 2;
+  const angle = (element.rotation * Math.PI) / 180;
+  return corners.map(([x, y]) => [
+    cx + (x - cx) * Math.cos(angle) - (y - cy) * Math.sin(angle),
+    cy + (x - cx) * Math.sin(angle) + (y - cy) * Math.cos(angle)
+  ]);
+};
+
+const drawText = (ctx: CanvasRenderingContext2D, element: TextElement) => {
+  const { lines, lineHeight, width, height } = layoutText(element);
+  const top = element.y - lineHeight / 2;
+  ctx.save();
+  if (element.rotation) {
+    const cx = element.x + width / 2;
+    const cy = top + height / 2;
+    ctx.translate(cx, cy);
+    ctx.rotate((element.rotation * Math.PI) / 180);
+    ctx.translate(-cx, -cy);
+  }
+  if (element.background) {
+    const padding = element.fontSize * 0.15;
+    ctx.fillStyle = element.background;
+    ctx.fillRect(element.x - padding, top - padding, width + padding * 2, height + padding * 2);
+  }
+
+  const font = getTextFont(element);
+  ctx.font = font;
+  ctx.fillStyle = element.color;
+  ctx.textBaseline = "middle";
+  ctx.textAlign = "left";
+  lines.forEach((line, i) => {
+    const lineWidth = measureTextWidth(line, font);
+    const offset = element.align === "center" ? (width - lineWidth) / 2 : element.align === "right" ? width - lineWidth : 0;
+    ctx.fillText(line, element.x + offset, element.y + i * lineHeight);
+  });
+  ctx.restore();
+};
+
+const distanceToSegment = (px: number, py: number, x1: number, y1: number, x2: number, y2: number) => {
+  const dx = x2 - x1;
+  const dy = y2 - y1;
+  const lengthSquared = dx * dx + dy * dy;
+  const t = lengthSquared === 0
+    ? 0
+    : Math.max(0, Math.min(1, ((px - x1) * dx + (py - y1) * dy) / lengthSquared));
+  return Math.hypot(px - (x1 + t * dx), py - (y1 + t * dy));
+};
+
+// Whether the point (x, y) touches the visible outline of an element
+export const hitTestElement = (element: DrawingElement, x: number, y: number, tolerance: number): boolean => {
+  const reach = tolerance + element.strokeWidth / 2;
+
+  switch (element.type) {
+    case "stroke":
+      if (element.points.length === 1) {
+        return Math.hypot(x - element.points[0][0], y - element.points[0][1]) <= reach;
+      }
+      return element.points.some((point, i) => {
+        if (i === 0) return false;
+        const [x1, y1] = element.points[i - 1];
+        return distanceToSegment(x, y, x1, y1, point[0], point[1]) <= reach;
+      });
+    case "line":
+    case "arrow":
+      return distanceToSegment(x, y, element.x1, element.y1, element.x2, element.y2) <= reach;
+    case "rect": {
+      const { x: left, y: top, width, height } = element;
+      if (isFilled(element) && isPointInBounds(getElementBounds(element), x, y)) return true;
+      const corners: StrokePoint[] = [
+        [left, top],
+        [left + width, top],
+        [left + width, top + height],
+        [left, top + height]
+      ];
+      return corners.some((corner, i) => {
+        const next = corners[(i + 1) % corners.length];
+        return distanceToSegment(x, y, corner[0], corner[1], next[0], next[1]) <= reach;
+      });
+    }
+    case "polygon":
+      if (isFilled(element) && isPointInPolygon(element.points, x, y)) return true;
+      return element.points.some((point, i) => {
+        const next = element.points[(i + 1) % element.points.length];
+        return distanceToSegment(x, y, point[0], point[1], next[0], next[1]) <= reach;
+      });
+    case "connector": {
+      const path = getConnectorPath(element);
+      return path.some((point, i) =>
+        i > 0 && distanceToSegment(x, y, path[i - 1][0], path[i - 1][1], point[0], point[1]) <= reach);
+    }
+    case "ellipse": {
+      const rx = element.width / 2;
+      const ry = element.height / 2;
+      if (rx === 0 || ry === 0) return false;
+      const cx = element.x + rx;
+      const cy = element.y + ry;
+      const normalized = Math.hypot((x - cx) / rx, (y - cy) / ry);
+      if (isFilled(element) && normalized <= 1) return true;
+      return Math.abs(normalized - 1) * Math.min(rx, ry) <= reach;
+    }
+    case "text":
+      return isPointInPolygon(getTextCorners(element), x, y) ||
+        getTextCorners(element).some((corner, i, corners) => {
+          const next = corners[(i + 1) % corners.length];
+          return distanceToSegment(x, y, corner[0], corner[1], next[0], next[1]) <= tolerance;
+        });
+    case "bitmap":
+      // Legacy bitmaps are only removed with "Clear Canvas", never by brushing over them
+      return false;
+  }
+};
+
+// Scale every coordinate of an element, used when the canvas is resized
+export const scaleElement = (element: DrawingElement, scaleX: number, scaleY: number): DrawingElement => {
+  switch (element.type) {
+    case "stroke":
+    case "polygon":
+      return {
+        ...element,
+        points: element.points.map(([x, y, ...input]) => [roundCoord(x * scaleX), roundCoord(y * scaleY), ...input] as StrokePoint)
+      };
+    case "line":
+    case "arrow":
+    case "connector":
+      return {
+        ...element,
+        x1: element.x1 * scaleX,
+        y1: element.y1 * scaleY,
+        x2: element.x2 * scaleX,
+        y2: element.y2 * scaleY
+      };
+    case "rect":
+    case "ellipse":
+    case "bitmap":
+      return {
+        ...element,
+        x: element.x * scaleX,
+        y: element.y * scaleY,
+        width: element.width * scaleX,
+        height: element.height * scaleY
+      };
+    case "text": {
+      const scale = Math.min(scaleX, scaleY);
+      return {
+        ...element,
+        x: element.x * scaleX,
+        y: element.y * scaleY,
+        fontSize: Math.max(1, element.fontSize * scale),
+        ...(element.width ? { width: Math.max(1, element.width * scale) } : {})
+      };
+    }
+  }
+};
+
+export interface Bounds {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export const getElementBounds = (element: DrawingElement): Bounds => {
+  switch (element.type) {
+    case "stroke":
+    case "polygon": {
+      const xs = element.points.map(point => point[0]);
+      const ys = element.points.map(point => point[1]);
+      const minX = Math.min(...xs);
+      const minY = Math.min(...ys);
+      return { x: minX, y: minY, width: Math.max(...xs) - minX, height: Math.max(...ys) - minY };
+    }
+    case "connector": {
+      const path = getConnectorPath(element);
+      const xs = path.map(point => point[0]);
+      const ys = path.map(point => point[1]);
+      return { x: Math.min(...xs), y: Math.min(...ys), width: Math.max(...xs) - Math.min(...xs), height: Math.max(...ys) - Math.min(...ys) };
+    }
+    case "line":
+    case "arrow":
+      return {
+        x: Math.min(element.x1, element.x2),
+        y: Math.min(element.y1, element.y2),
+        width: Math.abs(element.x2 - element.x1),
+        height: Math.abs(element.y2 - element.y1)
+      };
+    case "rect":
+    case "ellipse":
+    case "bitmap":
+      return { x: element.x, y: element.y, width: element.width, height: element.height };
+    case "text": {
+      if (!element.rotation) return getTextBox(element);
+      const corners = getTextCorners(element);
+      const xs = corners.map(point => point[0]);
+      const ys = corners.map(point => point[1]);
+      return { x: Math.min(...xs), y: Math.min(...ys), width: Math.max(...xs) - Math.min(...xs), height: Math.max(...ys) - Math.min(...ys) };
+    }
+  }
+};
+
+export const getCommonBounds = (elements: DrawingElement[]): Bounds | null => {
+  if (elements.length === 0) return null;
+  const all = elements.map(getElementBounds);
+  const minX = Math.min(...all.map(b => b.x));
+  const minY = Math.min(...all.map(b => b.y));
+  const maxX = Math.max(...all.map(b => b.x + b.width));
+  const maxY = Math.max(...all.map(b => b.y + b.height));
+  return { x: minX, y: minY, width: maxX - minX, height: maxY - minY };
+};
+
+export const isPointInBounds = (bounds: Bounds, x: number, y: number, padding = 0) =>
+  x >= bounds.x - padding &&
+  x <= bounds.x + bounds.width + padding &&
+  y >= bounds.y - padding &&
+  y <= bounds.y + bounds.height + padding;
+
+export const translateElement = (element: DrawingElement, dx: number, dy: number): DrawingElement => {
+  switch (element.type) {
+    case "stroke":
+    case "polygon":
+      return {
+        ...element,
+        points: element.points.map(([x, y, ...input]) => [roundCoord(x + dx), roundCoord(y + dy), ...input] as StrokePoint)
+      };
+    case "line":
+    case "arrow":
+    case "connector":
+      return { ...element, x1: element.x1 + dx, y1: element.y1 + dy, x2: element.x2 + dx, y2: element.y2 + dy };
+    default:
+      return { ...element, x: element.x + dx, y: element.y + dy };
+  }
+};
+
+// Map an element from one bounding box onto another, as when dragging a selection handle
+export const resizeElement = (element: DrawingElement, from: Bounds, to: Bounds): DrawingElement => {
+  const scaleX = from.width === 0 ? 1 : to.width / from.width;
+  const scaleY = from.height === 0 ? 1 : to.height / from.height;
+  const scaled = scaleElement(translateElement(element, -from.x, -from.y), scaleX, scaleY);
+  return translateElement(scaled, to.x, to.y);
+};
+
+const mapLine = (element: LineElement | ConnectorElement, map: (x: number, y: number) => [number, number]) => {
+  const [x1, y1] = map(element.x1, element.y1);
+  const [x2, y2] = map(element.x2, element.y2);
+  return { x1, y1, x2, y2 };
+};
+
+// Move an element along with the image under it when that is turned, flipped or cropped.
+// `matrix` is [a, b, c, d, e, f] as for canvas setTransform, and may only turn, mirror and
+// shift, so sizes, line widths and font sizes stay as they are
+export const transformElement = (element: DrawingElement, matrix: number[]): DrawingElement => {
+  const [a, b, c, d, e, f] = matrix;
+  const map = (x: number, y: number): [number, number] => [roundCoord(a * x + c * y + e), roundCoord(b * x + d * y + f)];
+  // Quarter turns and flips keep boxes upright
+  const isUpright = Math.abs(b) < 1e-9 || Math.abs(a) < 1e-9;
+  const mapBox = (box: Bounds) => {
+    const [x1, y1] = map(box.x, box.y);
+    const [x2, y2] = map(box.x + box.width, box.y + box.height);
+    return { x: Math.min(x1, x2), y: Math.min(y1, y2), width: Math.abs(x2 - x1), height: Math.abs(y2 - y1) };
+  };
+
+  switch (element.type) {
+    case "stroke":
+    case "polygon":
+      return { ...element, points: element.points.map(([x, y, ...input]) => [...map(x, y), ...input] as StrokePoint) };
+    case "line":
+    case "arrow":
+      return { ...element, ...mapLine(element, map) };
+    case "connector": {
+      // Elbows pick their direction again when they are next routed
+      const { axis: _axis, ...connector } = element;
+      return { ...connector, ...mapLine(element, map) };
+    }
+    case "rect":
+    case "ellipse": {
+      if (isUpright) return { ...element, ...mapBox(element) };
+      // A tilted box can't be a rect or ellipse any more, so it becomes a polygon with the same outline
+      const { x, y, width, height, cornerRadius: _cornerRadius, ...rest } = element;
+      const outline: StrokePoint[] = element.type === "rect"
+        ? [[x, y], [x + width, y], [x + width, y + height], [x, y + height]]
+        : Array.from({ length: 32 }, (_, i) => {
+          const angle = (i / 32) * Math.PI * 2;
+          return [x + width / 2 + (Math.cos(angle) * width) / 2, y + height / 2 + (Math.sin(angle) * height) / 2];
+        });
+      return { ...rest, type: "polygon", points: outline.map(([px, py]) => map(px, py)) };
+    }
+    case "bitmap": {
+      if (isUpright) return { ...element, ...mapBox(element) };
+      // Old pixel snapshots can't be turned, so they only follow the image's position
+      const [cx, cy] = map(element.x + element.width / 2, element.y + element.height / 2);
+      return { ...element, x: roundCoord(cx - element.width / 2), y: roundCoord(cy - element.height / 2) };
+    }
+    case "text": {
+      const { width, height, lineHeight } = layoutText(element);
+      const [cx, cy] = map(element.x + width / 2, element.y - lineHeight / 2 + height / 2);
+      const turn = (Math.atan2(b, a) * 180) / Math.PI;
+      const mirrored = a * d - b * c < 0;
+      let rotation = mirrored ? turn - (element.rotation || 0) : turn + (element.rotation || 0);
+      rotation = ((((rotation + 180) % 360) + 360) % 360) - 180;
+      // Letters can't be mirrored, so mirrored text keeps whichever way up is closer to upright
+      if (mirrored && Math.abs(rotation) > 90) rotation -= Math.sign(rotation) * 180;
+      const { rotation: _rotation, ...text } = element;
+      return {
+        ...text,
+        x: roundCoord(cx - width / 2),
+        y: roundCoord(cy - height / 2 + lineHeight / 2),
+        ...(Math.abs(rotation) > 0.05 ? { rotation: roundCoord(rotation) } : {})
+      };
+    }
+  }
+};
+
+// Points that must all fall inside a lasso for the element to be picked
+const getSelectionPoints = (element: DrawingElement): StrokePoint[] => {
+  if (element.type === "stroke" || element.type === "polygon") return element.points;
+  if (element.type === "connector") return getConnectorPath(element);
+  if (element.type === "text") return getTextCorners(element);
+  if (element.type === "line" || element.type === "arrow") {
+    return [[element.x1, element.y1], [element.x2, element.y2]];
+  }
+  const { x, y, width, height } = getElementBounds(element);
+  return [[x, y], [x + width, y], [x + width, y + height], [x, y + height]];
+};
+
+export const isPointInPolygon = (polygon: StrokePoint[], x: number, y: number) => {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const [xi, yi] = polygon[i];
+    const [xj, yj] = polygon[j];
+    if ((yi > y) !== (yj > y) && x < ((xj - xi) * (y - yi)) / (yj - yi) + xi) {
+      inside = !inside;
+    }
+  }
+  return inside;
+};
+
+export const isElementInPolygon = (element: DrawingElement, polygon: StrokePoint[]) =>
+  polygon.length > 2 && getSelectionPoints(element).every(([x, y]) => isPointInPolygon(polygon, x, y));
@@ -0,0 +1,64 @@
+// The images held by a gallery block, kept as a JSON array in its `images` prop. Each one
+// carries the same drawing, crop and redaction props as an image block, so it can be
+// annotated, cropped and redacted on its own.
+
+export type GalleryLayout = "grid" | "carousel" | "side-by-side" | "slider";
+
+export const GALLERY_LAYOUTS: { value: GalleryLayout; label: string }[] = [
+  { value: "grid", label: "Grid" },
+  { value: "carousel", label: "Carousel" },
+  { value: "side-by-side", label: "Side by side" },
+  { value: "slider", label: "Slider" }
+];
+
+export interface GalleryImage {
+  id: string;
+  src: string;
+  // Size shown in the gallery; annotations are in these units, like an image block's
+  width: number;
+  height: number;
+  caption: string;
+  elements: string;
+  layers: string;
+  shapeStyle?: string;
+  snapToGrid?: boolean;
+  penColor?: string;
+  // As on image blocks: the uncropped image and its edit, the kept full-size copy, and
+  // redaction marks not yet burned into `src`
+  originalSrc?: string;
+  imageEdit?: string;
+  fullSizeSrc?: string;
+  redactions?: string;
+}
+
+// Drawing props a gallery image keeps when its canvas writes them back
+const DRAWING_PROPS = ["elements", "layers", "width", "height", "shapeStyle", "snapToGrid", "penColor", "redactions"] as const;
+
+export const GALLERY_WIDTH = 800;
+export const GALLERY_GAP = 12;
+
+// Widest a new image is shown in each layout; compare layouts show two at once
+export const getGalleryColumnWidth = (layout: GalleryLayout) =>
+  layout === "grid" || layout === "side-by-side" ? (GALLERY_WIDTH - GALLERY_GAP) / 2 : GALLERY_WIDTH;
+
+export const parseGalleryImages = (value: string | undefined): GalleryImage[] => {
+  if (!value) return [];
+  try {
+    const parsed = JSON.parse(value);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch (error) {
+    console.error("Error parsing gallery images:", error);
+    return [];
+  }
+};
+
+export const serializeGalleryImages = (images: GalleryImage[]) => JSON.stringify(images);
+
+// The image with the changes its drawing canvas reported, ignoring props it has no use for
+export const applyDrawingProps = (image: GalleryImage, props: Record<string, any>): GalleryImage => {
+  const next: any = { ...image };
+  DRAWING_PROPS.forEach(name => {
+    if (props[name] !== undefined) next[name] = props[name];
+  });
+  return next;
+};
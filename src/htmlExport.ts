@@ -0,0 +1,140 @@
+import { readAsDataUrl } from "./assets";
+
+// Standalone HTML export: a snapshot of the page as it looks on screen. The editor,
+// comments, text boxes and scribbles are all positioned in page coordinates, so the
+// live DOM is cloned as-is at the current page width, with canvases frozen into
+// images and every stylesheet, font and image embedded so the file works offline.
+
+const inlinedUrls = new Map<string, Promise<string | null>>();
+
+// Fetch a resource and return it as a data URL; null when it can't be read (e.g. CORS)
+const fetchAsDataUrl = (url: string): Promise<string | null> => {
+  let pending = inlinedUrls.get(url);
+  if (!pending) {
+    pending = fetch(url)
+      .then(response => (response.ok ? response.blob() : Promise.reject(new Error(`HTTP ${response.status}`))))
+      .then(readAsDataUrl)
+      .catch(error => {
+        console.error("Error embedding resource in HTML export:", url, error);
+        return null;
+      });
+    inlinedUrls.set(url, pending);
+  }
+  return pending;
+};
+
+// Replace every url(...) in a stylesheet with an embedded copy of the resource
+const inlineCssUrls = async (cssText: string, baseUrl: string) => {
+  const matches = Array.from(cssText.matchAll(/url\(\s*(['"]?)([^'")]+)\1\s*\)/g));
+  let result = cssText;
+  for (const [match, , path] of matches) {
+    if (path.startsWith('data:') || path.startsWith('#')) continue;
+    const absolute = new URL(path, baseUrl).href;
+    const dataUrl = await fetchAsDataUrl(absolute);
+    result = result.replace(match, `url("${dataUrl ?? absolute}")`);
+  }
+  return result;
+};
+
+const collectStyles = async () => {
+  const sheets: string[] = [];
+  for (const sheet of Array.from(document.styleSheets)) {
+    try {
+      const cssText = Array.from(sheet.cssRules).map(rule => rule.cssText).join('\n');
+      sheets.push(await inlineCssUrls(cssText, sheet.href || document.baseURI));
+    } catch {
+      // Cross-origin stylesheets can't be read; link them so they still work online
+      if (sheet.href) sheets.push(`@import url("${sheet.href}");`);
+    }
+  }
+  return sheets.join('\n');
+};
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+export const exportStandaloneHtml = async (title: string): Promise<string> => {
+  const root = document.getElementById('root');
+  if (!root) throw new Error("App root not found");
+
+  const clone = root.cloneNode(true) as HTMLElement;
+  const originals = [root, ...Array.from(root.querySelectorAll<HTMLElement>('*'))];
+  const copies = [clone, ...Array.from(clone.querySelectorAll<HTMLElement>('*'))];
+  const removed: Element[] = [];
+
+  originals.forEach((original, index) => {
+    const copy = copies[index];
+
+    // Floating app chrome (toolbars, menus, sidebar) isn't part of the notes
+    if (getComputedStyle(original).position === 'fixed' || original.matches('.bn-side-menu')) {
+      removed.push(copy);
+      return;
+    }
+
+    // Canvas pixels aren't cloned, so freeze each one into an image of the same size
+    if (original instanceof HTMLCanvasElement) {
+      const rect = original.getBoundingClientRect();
+      const img = document.createElement('img');
+      img.className = copy.className;
+      img.setAttribute('style', copy.getAttribute('style') || '');
+      img.style.width = `${rect.width}px`;
+      img.style.height = `${rect.height}px`;
+      try {
+        img.src = original.toDataURL('image/png');
+      } catch (error) {
+        // Drawn over a cross-origin image without CORS headers
+        console.error("Error exporting canvas:", error);
+      }
+      copy.replaceWith(img);
+      return;
+    }
+
+    if (copy.getAttribute('contenteditable') === 'true') {
+      copy.setAttribute('contenteditable', 'false');
+    }
+    // Keep what was typed into form fields, which cloning doesn't carry over
+    if (original instanceof HTMLTextAreaElement) {
+      copy.textContent = original.value;
+    }
+  });
+  removed.forEach(element => element.remove());
+
+  for (const img of Array.from(clone.querySelectorAll('img'))) {
+    const src = img.getAttribute('src');
+    if (src && !src.startsWith('data:')) {
+      const dataUrl = await fetchAsDataUrl(new URL(src, document.baseURI).href);
+      if (dataUrl) img.src = dataUrl;
+    }
+  }
+
+  const styles = await collectStyles();
+  const htmlAttributes = Array.from(document.documentElement.attributes)
+    .filter(attribute => attribute.name !== 'style')
+    .map(attribute => ` ${attribute.name}="${escapeHtml(attribute.value)}"`)
+    .join('');
+
+  // Lay the page out at the width it had on screen so page-positioned overlays line up
+  const bodyWidth = document.body.getBoundingClientRect().width;
+  const pageWidth = document.documentElement.scrollWidth;
+  const pageHeight = document.documentElement.scrollHeight;
+
+  return `<!DOCTYPE html>
+<html${htmlAttributes}>
+<head>
+<meta charset="UTF-8" />
+<meta name="viewport" content="width=${pageWidth}" />
+<title>${escapeHtml(title)}</title>
+<style>
+${styles}
+</style>
+<style>
+body { width: ${bodyWidth}px; min-height: ${pageHeight}px; }
+[contenteditable="false"] { cursor: default; }
+</style>
+</head>
+<body class="${escapeHtml(document.body.className)}">
+${clone.outerHTML}
+</body>
+</html>
+`;
+};
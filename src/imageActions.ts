@@ -0,0 +1,126 @@
+import { getImageType, loadImage, storeAsset } from "./assets";
+import { rerouteConnectors } from "./connectors";
+import { parseElements, serializeElements, transformElement, type DrawingElement } from "./drawingElements";
+import {
+  getEditTransform,
+  invertMatrix,
+  isImageEdited,
+  multiplyMatrices,
+  parseImageEdit,
+  renderEditedImage,
+  type ImageEdit,
+  type Matrix
+} from "./imageEdit";
+import {
+  clipRedaction,
+  parseRedactions,
+  renderRedactedBitmap,
+  renderRedactedImage,
+  serializeRedactions,
+  transformRedactions,
+  type RedactionMark
+} from "./redaction";
+
+// Crop, redaction and full-size restore for an annotated image. Image blocks and gallery
+// images keep the same props for these, so each returns the props to write back.
+
+export interface AnnotatedImageProps {
+  src: string;
+  // Size shown, in the units the annotations and redaction marks are in
+  width: number;
+  height: number;
+  elements: string;
+  originalSrc?: string;
+  imageEdit?: string;
+  fullSizeSrc?: string;
+  redactions?: string;
+}
+
+// Redraw the image from the original with the new edit, and carry the annotations over
+// to where their part of the image ends up. Annotations cropped out are kept, so
+// widening the crop again brings them back
+export const applyImageEdit = async (props: AnnotatedImageProps, edit: ImageEdit) => {
+  const originalSrc = props.originalSrc || props.src;
+  const [original, current] = await Promise.all([loadImage(originalSrc), loadImage(props.src)]);
+  const edited = isImageEdited(edit)
+    ? renderEditedImage(original, await getImageType(originalSrc), edit)
+    : { dataUrl: originalSrc, width: original.naturalWidth, height: original.naturalHeight };
+  // Annotations are in block units, which may be a scaled version of the image's pixels
+  const scale = props.width / current.naturalWidth || 1;
+  const previous = parseImageEdit(props.imageEdit);
+  const toOriginal = invertMatrix(getEditTransform(previous, original.naturalWidth, original.naturalHeight));
+  const toEdited = getEditTransform(edit, original.naturalWidth, original.naturalHeight);
+  const toBlock = [scale, 0, 0, scale, 0, 0] as Matrix;
+  const fromBlock = [1 / scale, 0, 0, 1 / scale, 0, 0] as Matrix;
+  const transform = multiplyMatrices(toBlock, multiplyMatrices(toEdited, multiplyMatrices(toOriginal, fromBlock)));
+  const elements = rerouteConnectors(
+    parseElements(props.elements).map(element => transformElement(element, transform))
+  );
+
+  return {
+    src: await storeAsset(edited.dataUrl),
+    originalSrc: isImageEdited(edit) ? originalSrc : "",
+    imageEdit: isImageEdited(edit) ? JSON.stringify(edit) : "{}",
+    elements: serializeElements(elements),
+    redactions: serializeRedactions(transformRedactions(parseRedactions(props.redactions), transform)),
+    width: Math.round(edited.width * scale),
+    height: Math.round(edited.height * scale)
+  };
+};
+
+// Swap the downscaled image for the full-size copy the image settings kept. The image
+// keeps its size, so annotations stay where they are; a crop is redone on the new
+// image, scaled up to its pixels
+export const restoreFullSizeImage = async (props: AnnotatedImageProps) => {
+  const fullSizeSrc = props.fullSizeSrc!;
+  if (!props.originalSrc) return { src: fullSizeSrc, fullSizeSrc: "" };
+  const [fullSize, original] = await Promise.all([loadImage(fullSizeSrc), loadImage(props.originalSrc)]);
+  const ratio = fullSize.naturalWidth / original.naturalWidth || 1;
+  const edit = parseImageEdit(props.imageEdit);
+  const scaledEdit: ImageEdit = {
+    ...edit,
+    crop: edit.crop && {
+      x: edit.crop.x * ratio,
+      y: edit.crop.y * ratio,
+      width: edit.crop.width * ratio,
+      height: edit.crop.height * ratio
+    }
+  };
+  const edited = renderEditedImage(fullSize, await getImageType(fullSizeSrc), scaledEdit);
+  return {
+    src: await storeAsset(edited.dataUrl),
+    originalSrc: fullSizeSrc,
+    imageEdit: JSON.stringify(scaledEdit),
+    fullSizeSrc: ""
+  };
+};
+
+// The uncropped original and the full-size copy still show what the marks cover, so
+// applying them drops both; false if that was declined
+export const confirmRedactingCopies = (props: AnnotatedImageProps) =>
+  !(props.originalSrc || props.fullSizeSrc) || window.confirm(
+    "Applying redactions also removes the uncropped original and the full-size copy of this image, so its crop and rotation can no longer be undone. Continue?"
+  );
+
+// Burn the redaction marks into the image, and into any image drawn over it such as the
+// flattened drawing of an older note
+export const applyRedactions = async (props: AnnotatedImageProps, marks: RedactionMark[], elements: DrawingElement[]) => {
+  const image = await loadImage(props.src);
+  // Marks are in block units, which may be a scaled version of the image's pixels
+  const scale = image.naturalWidth / props.width || 1;
+  const redacted = renderRedactedImage(image, await getImageType(props.src), marks, scale);
+  const redactedElements = await Promise.all(elements.map(async element => {
+    if (element.type !== "bitmap" || !marks.some(mark => clipRedaction(mark, element))) return element;
+    const bitmap = await loadImage(element.src);
+    const src = renderRedactedBitmap(bitmap, await getImageType(element.src), element, marks);
+    return { ...element, src: await storeAsset(src) };
+  }));
+  return {
+    src: await storeAsset(redacted),
+    originalSrc: "",
+    imageEdit: "{}",
+    fullSizeSrc: "",
+    redactions: "[]",
+    elements: serializeElements(redactedElements)
+  };
+};
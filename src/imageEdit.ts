@@ -0,0 +1,130 @@
+import type { Bounds } from "./drawingElements";
+
+// Non-destructive crop, rotate and flip for image blocks. The block keeps the untouched
+// upload in `originalSrc` and the edit in `imageEdit`, and `src` holds the edited image so
+// everything that reads `src` (exports, printing) sees what is on screen. The image is
+// flipped, then turned around its center, then cropped.
+
+export interface ImageEdit {
+  // Degrees clockwise
+  rotation: number;
+  flipX: boolean;
+  flipY: boolean;
+  // In the coordinates of the flipped and turned image; null keeps all of it
+  crop: Bounds | null;
+}
+
+export const DEFAULT_IMAGE_EDIT: ImageEdit = { rotation: 0, flipX: false, flipY: false, crop: null };
+
+// [a, b, c, d, e, f] as for canvas setTransform
+export type Matrix = [number, number, number, number, number, number];
+
+export const CROP_ASPECTS: { label: string; ratio: number | "original" | null }[] = [
+  { label: "Free", ratio: null },
+  { label: "Original", ratio: "original" },
+  { label: "1:1", ratio: 1 },
+  { label: "4:3", ratio: 4 / 3 },
+  { label: "3:2", ratio: 3 / 2 },
+  { label: "16:9", ratio: 16 / 9 }
+];
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === "number" && Number.isFinite(value);
+
+export const parseImageEdit = (value: string | undefined): ImageEdit => {
+  try {
+    const stored = JSON.parse(value || "{}");
+    const crop = stored?.crop;
+    const hasCrop = crop && ["x", "y", "width", "height"].every(field => isFiniteNumber(crop[field])) &&
+      crop.width > 0 && crop.height > 0;
+    return {
+      rotation: isFiniteNumber(stored?.rotation) ? stored.rotation : 0,
+      flipX: stored?.flipX === true,
+      flipY: stored?.flipY === true,
+      crop: hasCrop ? { x: crop.x, y: crop.y, width: crop.width, height: crop.height } : null
+    };
+  } catch (error) {
+    console.error("Error parsing image edit:", error);
+    return { ...DEFAULT_IMAGE_EDIT };
+  }
+};
+
+export const isImageEdited = (edit: ImageEdit) =>
+  edit.rotation % 360 !== 0 || edit.flipX || edit.flipY || edit.crop !== null;
+
+// Keep angles in (-180, 180]
+export const normalizeRotation = (degrees: number) => {
+  const turned = ((degrees % 360) + 360) % 360;
+  return turned > 180 ? turned - 360 : turned;
+};
+
+// `m` applied after `n`
+export const multiplyMatrices = (m: Matrix, n: Matrix): Matrix => [
+  m[0] * n[0] + m[2] * n[1],
+  m[1] * n[0] + m[3] * n[1],
+  m[0] * n[2] + m[2] * n[3],
+  m[1] * n[2] + m[3] * n[3],
+  m[0] * n[4] + m[2] * n[5] + m[4],
+  m[1] * n[4] + m[3] * n[5] + m[5]
+];
+
+export const invertMatrix = ([a, b, c, d, e, f]: Matrix): Matrix => {
+  const det = a * d - b * c;
+  return [d / det, -b / det, -c / det, a / det, (c * f - d * e) / det, (b * e - a * f) / det];
+};
+
+// Size of the box around an image turned by `rotation` degrees
+export const getRotatedSize = (width: number, height: number, rotation: number) => {
+  const angle = (rotation * Math.PI) / 180;
+  const cos = Math.abs(Math.cos(angle));
+  const sin = Math.abs(Math.sin(angle));
+  return { width: Math.round(width * cos + height * sin), height: Math.round(width * sin + height * cos) };
+};
+
+// Maps a pixel of the original image to where it ends up in the edited one
+export const getEditTransform = (edit: ImageEdit, width: number, height: number): Matrix => {
+  const rotated = getRotatedSize(width, height, edit.rotation);
+  const angle = (edit.rotation * Math.PI) / 180;
+  const centered: Matrix = [edit.flipX ? -1 : 1, 0, 0, edit.flipY ? -1 : 1, 0, 0];
+  const turned = multiplyMatrices(
+    [Math.cos(angle), Math.sin(angle), -Math.sin(angle), Math.cos(angle), rotated.width / 2, rotated.height / 2],
+    multiplyMatrices(centered, [1, 0, 0, 1, -width / 2, -height / 2])
+  );
+  return edit.crop ? multiplyMatrices([1, 0, 0, 1, -edit.crop.x, -edit.crop.y], turned) : turned;
+};
+
+// Size of the edited image
+export const getEditedSize = (edit: ImageEdit, width: number, height: number) =>
+  edit.crop
+    ? { width: edit.crop.width, height: edit.crop.height }
+    : getRotatedSize(width, height, edit.rotation);
+
+// Largest crop of the given aspect ratio centered in `within`
+export const fitCrop = (ratio: number, within: Bounds): Bounds => {
+  const width = Math.min(within.width, within.height * ratio);
+  const height = width / ratio;
+  return {
+    x: Math.round(within.x + (within.width - width) / 2),
+    y: Math.round(within.y + (within.height - height) / 2),
+    width: Math.round(width),
+    height: Math.round(height)
+  };
+};
+
+// Draw the edited image. JPEG and WebP uploads stay in their format, with white where a
+// free rotation leaves the corners empty; everything else becomes PNG
+export const renderEditedImage = (img: HTMLImageElement, originalType: string, edit: ImageEdit) => {
+  const { width, height } = getEditedSize(edit, img.naturalWidth, img.naturalHeight);
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.max(1, width);
+  canvas.height = Math.max(1, height);
+  const ctx = canvas.getContext("2d")!;
+  const type = /^image\/(jpeg|webp)$/i.test(originalType) ? originalType.toLowerCase() : "image/png";
+  if (type !== "image/png") {
+    ctx.fillStyle = "#fff";
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+  }
+  ctx.imageSmoothingQuality = "high";
+  ctx.setTransform(...getEditTransform(edit, img.naturalWidth, img.naturalHeight));
+  ctx.drawImage(img, 0, 0);
+  return { dataUrl: canvas.toDataURL(type, 0.92), width: canvas.width, height: canvas.height };
+};
@@ -0,0 +1,168 @@
+import { loadImage, readAsDataUrl, storeAsset } from "./assets";
+import { parseGalleryImages, serializeGalleryImages } from "./galleryImages";
+
+// Pasted, dropped and uploaded images go through here before they are stored in a block.
+// Full-resolution screenshots make notes slow to edit and exports huge, so images larger
+// than the chosen size are scaled down and everything is re-encoded to WebP or JPEG. The
+// result goes into the asset store, and blocks hold only its reference.
+
+export type IngestFormat = "webp" | "jpeg";
+
+export interface IngestSettings {
+  // Off stores images exactly as they were pasted
+  enabled: boolean;
+  // Longest side in pixels
+  maxDimension: number;
+  format: IngestFormat;
+  // 0 to 1
+  quality: number;
+  // Keep the untouched upload in the block's `fullSizeSrc` prop as well
+  keepOriginal: boolean;
+  // Also write those copies into exported notes files; off keeps them in this browser
+  exportOriginals: boolean;
+}
+
+export interface IngestResult {
+  src: string;
+  width: number;
+  height: number;
+  // Only set when the settings keep the original
+  fullSizeSrc?: string;
+  originalBytes: number;
+  bytes: number;
+}
+
+const INGEST_SETTINGS_KEY = 'notate-image-ingest';
+
+export const DEFAULT_INGEST_SETTINGS: IngestSettings = {
+  enabled: true,
+  maxDimension: 2048,
+  format: "webp",
+  quality: 0.85,
+  keepOriginal: false,
+  exportOriginals: false
+};
+
+export const MAX_DIMENSIONS = [1280, 1920, 2048, 2560, 3840];
+
+// Pasted files are small enough to read in well under this
+const READ_TIMEOUT = 5000;
+
+export const loadIngestSettings = (): IngestSettings => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(INGEST_SETTINGS_KEY) || '{}');
+    return { ...DEFAULT_INGEST_SETTINGS, ...stored };
+  } catch (error) {
+    console.error("Error loading image settings:", error);
+    return { ...DEFAULT_INGEST_SETTINGS };
+  }
+};
+
+export const saveIngestSettings = (settings: IngestSettings) =>
+  localStorage.setItem(INGEST_SETTINGS_KEY, JSON.stringify(settings));
+
+// Size of the data a data URL holds, without the base64 overhead
+export const getDataUrlBytes = (dataUrl: string) => {
+  const comma = dataUrl.indexOf(',');
+  const data = dataUrl.slice(comma + 1);
+  if (!/;base64$/i.test(dataUrl.slice(0, comma))) return decodeURIComponent(data).length;
+  const padding = data.endsWith('==') ? 2 : data.endsWith('=') ? 1 : 0;
+  return Math.floor((data.length * 3) / 4) - padding;
+};
+
+export const formatBytes = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+// Shown by the app after an image was made smaller
+const reportListeners = new Set<(result: IngestResult) => void>();
+
+export const subscribeToIngestReports = (listener: (result: IngestResult) => void) => {
+  reportListeners.add(listener);
+  return () => {
+    reportListeners.delete(listener);
+  };
+};
+
+const encode = (img: HTMLImageElement, width: number, height: number, format: IngestFormat, quality: number) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d')!;
+  // JPEG has no transparency, so see-through parts would turn black
+  if (format === 'jpeg') {
+    ctx.fillStyle = '#fff';
+    ctx.fillRect(0, 0, width, height);
+  }
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(img, 0, 0, width, height);
+  return canvas.toDataURL(`image/${format}`, quality);
+};
+
+export const ingestImageDataUrl = async (dataUrl: string, settings = loadIngestSettings()): Promise<IngestResult> => {
+  const img = await loadImage(dataUrl);
+  const originalBytes = getDataUrlBytes(dataUrl);
+  const keepAsIs = async (): Promise<IngestResult> => ({
+    src: await storeAsset(dataUrl),
+    width: img.naturalWidth,
+    height: img.naturalHeight,
+    originalBytes,
+    bytes: originalBytes
+  });
+  // GIFs may be animated and SVGs scale by themselves, so both are kept as they are
+  if (!settings.enabled || /^data:image\/(gif|svg)/i.test(dataUrl)) return keepAsIs();
+
+  const scale = Math.min(1, settings.maxDimension / Math.max(img.naturalWidth, img.naturalHeight));
+  const width = Math.max(1, Math.round(img.naturalWidth * scale));
+  const height = Math.max(1, Math.round(img.naturalHeight * scale));
+  let src = encode(img, width, height, settings.format, settings.quality);
+  // Browsers that can't write WebP hand back a PNG instead
+  if (!src.startsWith(`data:image/${settings.format}`)) {
+    src = encode(img, width, height, 'jpeg', settings.quality);
+  }
+  const bytes = getDataUrlBytes(src);
+  // Small images that are already compressed can come out bigger
+  if (scale === 1 && bytes >= originalBytes) return keepAsIs();
+
+  const result: IngestResult = {
+    src: await storeAsset(src),
+    width,
+    height,
+    originalBytes,
+    bytes,
+    ...(settings.keepOriginal ? { fullSizeSrc: await storeAsset(dataUrl) } : {})
+  };
+  reportListeners.forEach(listener => listener(result));
+  return result;
+};
+
+export const ingestImageFile = async (file: Blob, settings = loadIngestSettings()) =>
+  ingestImageDataUrl(await readAsDataUrl(file, READ_TIMEOUT), settings);
+
+// Props for a new `imageUpload` block holding the image
+export const getImageBlockProps = (result: IngestResult) => ({
+  src: result.src,
+  width: result.width,
+  height: result.height,
+  fullSizeSrc: result.fullSizeSrc ?? ""
+});
+
+// Blocks without their full-size copies, for notes files that should stay small. Gallery
+// images keep theirs inside the gallery's `images` prop
+export const withoutFullSizeImages = (blocks: any[]): any[] =>
+  blocks.map(block => {
+    const props = block.props && { ...block.props };
+    if (props?.fullSizeSrc) props.fullSizeSrc = "";
+    if (props?.images && props.images.includes("fullSizeSrc")) {
+      props.images = serializeGalleryImages(
+        parseGalleryImages(props.images).map(({ fullSizeSrc: _fullSizeSrc, ...image }) => image)
+      );
+    }
+    return {
+      ...block,
+      ...(props ? { props } : {}),
+      ...(Array.isArray(block.children) ? { children: withoutFullSizeImages(block.children) } : {})
+    };
+  });
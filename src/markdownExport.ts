@@ -0,0 +1,197 @@
+import type { BlockNoteEditor } from "@blocknote/core";
+import { getImageDataUrl, isAssetRef } from "./assets";
+import { parseElements, parseLayers, renderElementsOffscreen } from "./drawingElements";
+import { parseGalleryImages } from "./galleryImages";
+import { createZip, type ZipEntry } from "./zip";
+
+// Markdown export: default blocks go through BlockNote's own Markdown conversion,
+// drawings and annotated images become PNG files under `assets/`, and comments
+// become footnotes on the block they are attached to.
+
+interface Annotation {
+  id: string;
+  startPoint: { x: number; y: number };
+  text: string;
+  blockId?: string;
+}
+
+const IMAGE_EXTENSIONS: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/gif': 'gif',
+  'image/webp': 'webp',
+  'image/svg+xml': 'svg'
+};
+
+export const dataUrlToBytes = (dataUrl: string): { bytes: Uint8Array; mimeType: string } => {
+  const [header, payload = ''] = dataUrl.split(',', 2);
+  const mimeType = header.slice(5).split(';')[0] || 'application/octet-stream';
+  if (header.endsWith(';base64')) {
+    const binary = atob(payload);
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+    return { bytes, mimeType };
+  }
+  return { bytes: new TextEncoder().encode(decodeURIComponent(payload)), mimeType };
+};
+
+// Turn a page title into something safe to use as a file name
+export const toFileName = (title: string) =>
+  title.trim().replace(/[\\/:*?"<>|]+/g, '-').replace(/\s+/g, ' ').slice(0, 80) || 'notes';
+
+const EXPORTED_BLOCK_TYPES = ['drawing', 'imageUpload', 'gallery'];
+
+const hasExportedAssets = (block: any): boolean =>
+  EXPORTED_BLOCK_TYPES.includes(block.type) || (block.children || []).some(hasExportedAssets);
+
+const LIST_MARKER = /^(?:[-*+]|\d+[.)]) +/;
+
+// Markers can't follow a closing code fence or a table row without breaking it
+const ENDS_IN_FENCE_OR_TABLE = /(?:^|\n) *(?:```|~~~|\|)[^\n]*$/;
+
+// Footnote bodies may span several lines; continuation lines are indented
+const formatFootnote = (index: number, text: string) =>
+  `[^${index}]: ${text.trim().split('\n').join('\n    ')}`;
+
+export const exportMarkdownBundle = async (
+  editor: BlockNoteEditor<any, any, any>,
+  title: string,
+  annotations: Annotation[]
+): Promise<Blob> => {
+  const blocks = editor.document;
+  const assets: ZipEntry[] = [];
+  let drawingCount = 0;
+  let imageCount = 0;
+
+  // Footnotes are attached to the top-level block that contains the commented block
+  const topLevelIndex = new Map<string, number>();
+  const indexBlocks = (children: any[], index: number) =>
+    children.forEach(child => {
+      topLevelIndex.set(child.id, index);
+      indexBlocks(child.children || [], index);
+    });
+  blocks.forEach((block, index) => {
+    topLevelIndex.set(block.id, index);
+    indexBlocks(block.children || [], index);
+  });
+
+  const comments = annotations.filter(annotation => annotation.text.trim());
+  const attached = comments
+    .filter(annotation => annotation.blockId && topLevelIndex.has(annotation.blockId))
+    .sort((a, b) =>
+      topLevelIndex.get(a.blockId!)! - topLevelIndex.get(b.blockId!)! || a.startPoint.y - b.startPoint.y);
+  const unattached = comments.filter(annotation => !attached.includes(annotation));
+  const footnoteNumbers = new Map(attached.map((annotation, index) => [annotation.id, index + 1]));
+
+  const addAsset = (baseName: string, dataUrl: string) => {
+    const { bytes, mimeType } = dataUrlToBytes(dataUrl);
+    const path = `assets/${baseName}.${IMAGE_EXTENSIONS[mimeType] || 'bin'}`;
+    assets.push({ name: path, data: bytes });
+    return path;
+  };
+
+  // An image with its annotations, from an image block or a gallery
+  const renderImage = async (image: { src: string; width: number; height: number; elements: string; layers: string }) => {
+    const src = image.src;
+    imageCount++;
+    const alt = `Image ${imageCount}`;
+    const elements = parseElements(image.elements);
+
+    if (elements.length > 0) {
+      // Flatten the markup onto the image; remote images without CORS headers can't be
+      // read back from a canvas, so those fall back to linking the original
+      try {
+        const canvas = await renderElementsOffscreen(elements, image.width, image.height, {
+          backgroundSrc: src,
+          layers: parseLayers(image.layers, true)
+        });
+        return `![${alt}](${addAsset(`image-${imageCount}`, canvas.toDataURL('image/png'))})`;
+      } catch (error) {
+        console.error("Error flattening annotated image:", error);
+      }
+    }
+    // Stored images are written out next to the Markdown like embedded ones
+    const embedded = isAssetRef(src) ? await getImageDataUrl(src) : src;
+    return embedded.startsWith('data:')
+      ? `![${alt}](${addAsset(`image-${imageCount}`, embedded)})`
+      : `![${alt}](${src})`;
+  };
+
+  // The block itself, without its children
+  const renderOwnBlock = async (block: any): Promise<string> => {
+    if (block.type === 'drawing') {
+      drawingCount++;
+      const elements = parseElements(block.props.elements);
+      // Export the frame the drawing is shown in, at the zoom it was left at
+      const viewport = { x: block.props.viewX, y: block.props.viewY, zoom: block.props.zoom };
+      const canvas = await renderElementsOffscreen(elements, block.props.width, block.props.height, {
+        viewport,
+        layers: parseLayers(block.props.layers, false),
+        paper: block.props.paper
+      });
+      return `![Drawing ${drawingCount}](${addAsset(`drawing-${drawingCount}`, canvas.toDataURL('image/png'))})`;
+    }
+
+    if (block.type === 'imageUpload') {
+      return block.props.src ? renderImage(block.props) : '';
+    }
+
+    // Each gallery image is written out like an image block, with its caption under it
+    if (block.type === 'gallery') {
+      const images = parseGalleryImages(block.props.images).filter(image => image.src);
+      const rendered: string[] = [];
+      for (const image of images) {
+        const markdown = await renderImage(image);
+        rendered.push(image.caption.trim() ? `${markdown}\n*${image.caption.trim()}*` : markdown);
+      }
+      return rendered.join('\n\n');
+    }
+
+    return (await editor.blocksToMarkdownLossy([{ ...block, children: [] }])).trim();
+  };
+
+  const renderBlock = async (block: any): Promise<string> => {
+    const children: any[] = block.children || [];
+    // BlockNote converts plain blocks with their children; children that need their own
+    // export are rendered one by one under their parent instead
+    if (!hasExportedAssets(block)) {
+      return (await editor.blocksToMarkdownLossy([block])).trim();
+    }
+    const markdown = await renderOwnBlock(block);
+    const rendered: string[] = [];
+    for (const child of children) {
+      const childMarkdown = await renderBlock(child);
+      if (childMarkdown) rendered.push(childMarkdown);
+    }
+    // List items keep their children nested by indenting them to the item's text
+    const indent = ' '.repeat(LIST_MARKER.exec(markdown)?.[0].length ?? 0);
+    const nested = rendered.join('\n\n').split('\n').map(line => line ? indent + line : line).join('\n');
+    return [markdown, nested].filter(Boolean).join('\n\n');
+  };
+
+  const sections: string[] = [];
+  for (let index = 0; index < blocks.length; index++) {
+    const markdown = await renderBlock(blocks[index]);
+    const markers = attached
+      .filter(annotation => topLevelIndex.get(annotation.blockId!) === index)
+      .map(annotation => `[^${footnoteNumbers.get(annotation.id)}]`)
+      .join('');
+    if (markdown || markers) {
+      const separator = !markdown ? '' : ENDS_IN_FENCE_OR_TABLE.test(markdown) ? '\n\n' : ' ';
+      sections.push(markers ? `${markdown}${separator}${markers}` : markdown);
+    }
+  }
+
+  if (unattached.length > 0) {
+    sections.push('## Comments', unattached.map(annotation => `- ${annotation.text.trim().split('\n').join('\n  ')}`).join('\n'));
+  }
+  if (attached.length > 0) {
+    sections.push(attached.map(annotation => formatFootnote(footnoteNumbers.get(annotation.id)!, annotation.text)).join('\n'));
+  }
+
+  const fileName = toFileName(title);
+  return createZip([
+    { name: `${fileName}.md`, data: `${sections.join('\n\n')}\n` },
+    ...assets
+  ]);
+};
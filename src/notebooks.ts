@@ -0,0 +1,190 @@
+import type { ScribbleLayer } from "./scribbleLayer";
+
+// A single note; pages nest through `parentId` and siblings keep their array order
+export interface Page {
+  id: string;
+  title: string;
+  parentId: string | null;
+  blocks: any[];
+  annotations: any[];
+  textboxes: any[];
+  scribbleLayer: ScribbleLayer | null;
+}
+
+export interface Notebook {
+  id: string;
+  title: string;
+  pages: Page[];
+}
+
+export interface Workspace {
+  notebooks: Notebook[];
+  activeNotebookId: string;
+  activePageId: string;
+}
+
+const createId = (prefix: string) =>
+  `${prefix}-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const createPage = (title = 'Untitled', parentId: string | null = null, blocks: any[] = []): Page => ({
+  id: createId('page'),
+  title,
+  parentId,
+  blocks,
+  annotations: [],
+  textboxes: [],
+  scribbleLayer: null
+});
+
+export const createNotebook = (title = 'Untitled Notebook', firstPage: Page = createPage()): Notebook => ({
+  id: createId('notebook'),
+  title,
+  pages: [firstPage]
+});
+
+export const createWorkspace = (notebook: Notebook): Workspace => ({
+  notebooks: [notebook],
+  activeNotebookId: notebook.id,
+  activePageId: notebook.pages[0].id
+});
+
+export const getActiveNotebook = (workspace: Workspace): Notebook =>
+  workspace.notebooks.find(nb => nb.id === workspace.activeNotebookId) ?? workspace.notebooks[0];
+
+export const getActivePage = (workspace: Workspace): Page => {
+  const notebook = getActiveNotebook(workspace);
+  return notebook.pages.find(page => page.id === workspace.activePageId) ?? notebook.pages[0];
+};
+
+export const getChildPages = (notebook: Notebook, parentId: string | null) =>
+  notebook.pages.filter(page => page.parentId === parentId);
+
+// The page and everything nested under it, in notebook order
+export const getPageSubtree = (notebook: Notebook, pageId: string): Page[] => {
+  const ids = new Set([pageId]);
+  notebook.pages.forEach(page => {
+    if (page.parentId && ids.has(page.parentId)) ids.add(page.id);
+  });
+  return notebook.pages.filter(page => ids.has(page.id));
+};
+
+export const updateNotebook = (workspace: Workspace, notebookId: string, update: (notebook: Notebook) => Notebook): Workspace => ({
+  ...workspace,
+  notebooks: workspace.notebooks.map(nb => (nb.id === notebookId ? update(nb) : nb))
+});
+
+export const updatePage = (notebook: Notebook, pageId: string, changes: Partial<Page>): Notebook => ({
+  ...notebook,
+  pages: notebook.pages.map(page => (page.id === pageId ? { ...page, ...changes } : page))
+});
+
+// Insert a page right after its parent's existing subtree so it shows up last among its siblings
+export const addPage = (notebook: Notebook, page: Page): Notebook => {
+  const siblings = getChildPages(notebook, page.parentId);
+  const anchor = siblings.length > 0
+    ? getPageSubtree(notebook, siblings[siblings.length - 1].id)
+    : page.parentId ? [notebook.pages.find(p => p.id === page.parentId)!] : [];
+  const lastAnchor = anchor[anchor.length - 1];
+  const index = lastAnchor ? notebook.pages.indexOf(lastAnchor) + 1 : notebook.pages.length;
+  const pages = [...notebook.pages];
+  pages.splice(index, 0, page);
+  return { ...notebook, pages };
+};
+
+export const deletePage = (notebook: Notebook, pageId: string): Notebook => {
+  const removed = new Set(getPageSubtree(notebook, pageId).map(page => page.id));
+  return { ...notebook, pages: notebook.pages.filter(page => !removed.has(page.id)) };
+};
+
+const createBlockId = () =>
+  typeof crypto !== 'undefined' && 'randomUUID' in crypto ? crypto.randomUUID() : createId('block');
+
+// Give every block a fresh id so a copy never shares editor state with its original
+const cloneBlocks = (blocks: any[], idMap: Map<string, string>): any[] =>
+  blocks.map(block => {
+    const id = createBlockId();
+    if (block.id) idMap.set(block.id, id);
+    return {
+      ...block,
+      id,
+      children: block.children ? cloneBlocks(block.children, idMap) : []
+    };
+  });
+
+const clonePageContent = (page: Page): Pick<Page, 'blocks' | 'annotations' | 'textboxes' | 'scribbleLayer'> => {
+  const idMap = new Map<string, string>();
+  const blocks = cloneBlocks(structuredClone(page.blocks), idMap);
+  return {
+    blocks,
+    annotations: structuredClone(page.annotations).map((annotation: any) => ({
+      ...annotation,
+      id: createId('annotation'),
+      blockId: annotation.blockId ? idMap.get(annotation.blockId) ?? annotation.blockId : annotation.blockId
+    })),
+    textboxes: structuredClone(page.textboxes).map((textbox: any) => ({ ...textbox, id: createId('textbox') })),
+    scribbleLayer: page.scribbleLayer ? { ...page.scribbleLayer } : null
+  };
+};
+
+// Copy a page with all of its subpages, placing the copy right after the original subtree
+export const duplicatePage = (notebook: Notebook, pageId: string): { notebook: Notebook; copyId: string } => {
+  const subtree = getPageSubtree(notebook, pageId);
+  const newIds = new Map(subtree.map(page => [page.id, createId('page')]));
+  const copies = subtree.map(page => ({
+    ...page,
+    ...clonePageContent(page),
+    id: newIds.get(page.id)!,
+    title: page.id === pageId ? `${page.title} (copy)` : page.title,
+    parentId: page.parentId && newIds.has(page.parentId) ? newIds.get(page.parentId)! : page.parentId
+  }));
+
+  const index = notebook.pages.indexOf(subtree[subtree.length - 1]) + 1;
+  const pages = [...notebook.pages];
+  pages.splice(index, 0, ...copies);
+  return { notebook: { ...notebook, pages }, copyId: newIds.get(pageId)! };
+};
+
+// Swap a page (with its subpages) with the previous or next sibling
+export const movePage = (notebook: Notebook, pageId: string, direction: 'up' | 'down'): Notebook => {
+  const page = notebook.pages.find(p => p.id === pageId);
+  if (!page) return notebook;
+  const siblings = getChildPages(notebook, page.parentId);
+  const position = siblings.indexOf(page);
+  const neighbour = siblings[direction === 'up' ? position - 1 : position + 1];
+  if (!neighbour) return notebook;
+
+  const [first, second] = direction === 'up' ? [page, neighbour] : [neighbour, page];
+  const firstSubtree = getPageSubtree(notebook, first.id);
+  const secondSubtree = getPageSubtree(notebook, second.id);
+  const moved = new Set([...firstSubtree, ...secondSubtree]);
+  const start = notebook.pages.findIndex(p => moved.has(p));
+  const pages = notebook.pages.filter(p => !moved.has(p));
+  pages.splice(start, 0, ...firstSubtree, ...secondSubtree);
+  return { ...notebook, pages };
+};
+
+// Make a page the last subpage of its previous sibling. Subtrees are stored
+// contiguously in pre-order, so only the parent link has to change.
+export const indentPage = (notebook: Notebook, pageId: string): Notebook => {
+  const page = notebook.pages.find(p => p.id === pageId);
+  if (!page) return notebook;
+  const siblings = getChildPages(notebook, page.parentId);
+  const previous = siblings[siblings.indexOf(page) - 1];
+  if (!previous) return notebook;
+  return updatePage(notebook, pageId, { parentId: previous.id });
+};
+
+// Move a page out of its parent so it follows the parent as a sibling
+export const outdentPage = (notebook: Notebook, pageId: string): Notebook => {
+  const page = notebook.pages.find(p => p.id === pageId);
+  const parent = page && notebook.pages.find(p => p.id === page.parentId);
+  if (!page || !parent) return notebook;
+
+  const subtree = getPageSubtree(notebook, pageId);
+  const remaining = { ...notebook, pages: notebook.pages.filter(p => !subtree.includes(p)) };
+  const parentSubtree = getPageSubtree(remaining, parent.id);
+  const index = remaining.pages.indexOf(parentSubtree[parentSubtree.length - 1]) + 1;
+  const pages = [...remaining.pages];
+  pages.splice(index, 0, { ...page, parentId: parent.parentId }, ...subtree.slice(1));
+  return { ...notebook, pages };
+};
@@ -0,0 +1,194 @@
+import type { ScribbleLayer } from "./scribbleLayer";
+import { validateNotesContent, type BlockSchemaLike, type ValidationIssue } from "./notesSchema";
+
+// The `.json` file written by "Export Notes" and read back by "Import Notes".
+//
+// Version 1 (unversioned) stored every drawing canvas and the scribble layer as raw
+// `pixelData` arrays, one JSON number per RGBA channel. Version 2 keeps drawings as the
+// vector elements already held in block props and the scribble layer as a PNG data URL.
+// Version 3 blocks refer to images in the asset store as `asset:<hash>`, and the file's
+// `assets` map holds each of those images as a data URL.
+
+export const NOTES_FILE_FORMAT = 'notate-notes';
+export const NOTES_FILE_VERSION = 3;
+
+export interface NotesFileManifest {
+  exportedAt: string;
+  title: string;
+  blockCount: number;
+  drawingCount: number;
+  imageCount: number;
+  scribbleLayer: { width: number; height: number } | null;
+}
+
+export interface NotesFile {
+  format: typeof NOTES_FILE_FORMAT;
+  version: number;
+  manifest: NotesFileManifest;
+  blocks: any[];
+  annotations: any[];
+  textboxes: any[];
+  scribbleLayer: ScribbleLayer | null;
+  assets: Record<string, string>;
+}
+
+// What an import hands back to the editor, whichever version the file was
+export interface NotesContent {
+  blocks: any[];
+  annotations: any[];
+  textboxes: any[];
+  scribbleLayer: ScribbleLayer | null;
+}
+
+const countBlocks = (blocks: any[], type?: string): number =>
+  blocks.reduce(
+    (count, block) => count + (!type || block.type === type ? 1 : 0) + countBlocks(block.children || [], type),
+    0
+  );
+
+export const createNotesFile = (title: string, content: NotesContent, assets: Record<string, string>): NotesFile => ({
+  format: NOTES_FILE_FORMAT,
+  version: NOTES_FILE_VERSION,
+  manifest: {
+    exportedAt: new Date().toISOString(),
+    title,
+    blockCount: countBlocks(content.blocks),
+    drawingCount: countBlocks(content.blocks, 'drawing'),
+    imageCount: countBlocks(content.blocks, 'imageUpload'),
+    scribbleLayer: content.scribbleLayer
+      ? { width: content.scribbleLayer.width, height: content.scribbleLayer.height }
+      : null
+  },
+  ...content,
+  assets
+});
+
+export const isNotesFile = (data: any): data is NotesFile =>
+  !!data && data.format === NOTES_FILE_FORMAT && typeof data.version === 'number';
+
+// Files written before the format was versioned count as version 1
+export const getNotesFileVersion = (data: any): number => (isNotesFile(data) ? data.version : 1);
+
+// Encode a raw RGBA `pixelData` array from a version 1 export as a PNG data URL
+const pixelDataToDataUrl = (pixelData: number[], width: number, height: number): string => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Canvas 2D context is not available");
+  ctx.putImageData(new ImageData(new Uint8ClampedArray(pixelData), width, height), 0, 0);
+  return canvas.toDataURL('image/png');
+};
+
+const isPixelData = (value: any) =>
+  !!value &&
+  Array.isArray(value.pixelData) &&
+  Number.isInteger(value.width) && value.width > 0 &&
+  Number.isInteger(value.height) && value.height > 0 &&
+  value.pixelData.length === value.width * value.height * 4;
+
+// Fold the separate `drawingData` and `scribbleData` of a version 1 export into the blocks
+const migrateFromVersion1 = (data: any, issues: ValidationIssue[]): any => {
+  const drawings = new Map<string, any>();
+  (Array.isArray(data.drawingData) ? data.drawingData : []).forEach((drawing: any, index: number) => {
+    if (!drawing?.blockId) return;
+    if (!isPixelData(drawing)) {
+      issues.push({ path: `drawingData[${index}]`, message: 'pixelData does not match width × height' });
+      return;
+    }
+    drawings.set(drawing.blockId, drawing);
+  });
+
+  // The canvas pixels are newer than the block's own `canvasData`, so they win. The
+  // drawing block migrates `canvasData` into a vector bitmap element when it opens.
+  const upgradeBlocks = (blocks: any[]): any[] =>
+    blocks.map(block => {
+      if (typeof block !== 'object' || block === null) return block;
+      const children = Array.isArray(block.children) ? upgradeBlocks(block.children) : block.children;
+      const drawing = drawings.get(block.id);
+      if (!drawing) return { ...block, children };
+      return {
+        ...block,
+        props: {
+          ...block.props,
+          canvasData: pixelDataToDataUrl(drawing.pixelData, drawing.width, drawing.height),
+          width: drawing.width,
+          height: drawing.height
+        },
+        children
+      };
+    });
+
+  const scribble = data.scribbleData;
+  let scribbleLayer: ScribbleLayer | null = null;
+  if (scribble && !isPixelData(scribble)) {
+    issues.push({ path: 'scribbleData', message: 'pixelData does not match width × height' });
+  } else if (scribble) {
+    const ratio = scribble.viewport?.devicePixelRatio;
+    scribbleLayer = {
+      dataUrl: pixelDataToDataUrl(scribble.pixelData, scribble.width, scribble.height),
+      width: scribble.width,
+      height: scribble.height,
+      styleWidth: typeof scribble.styleWidth === 'string' ? scribble.styleWidth : '',
+      styleHeight: typeof scribble.styleHeight === 'string' ? scribble.styleHeight : '',
+      // Version 1 kept the ratio with the viewport it was exported from
+      ...(typeof ratio === 'number' && ratio > 0 ? { devicePixelRatio: ratio } : {})
+    };
+  }
+
+  return {
+    format: NOTES_FILE_FORMAT,
+    version: 2,
+    blocks: Array.isArray(data.blocks) ? upgradeBlocks(data.blocks) : data.blocks,
+    annotations: data.annotations,
+    textboxes: data.textboxes,
+    scribbleLayer
+  };
+};
+
+// Version 2 files embed their images in the blocks, which version 3 still reads
+const migrateFromVersion2 = (data: any): any => ({ ...data, version: 3, assets: {} });
+
+// Each migration upgrades a file from version `n` to `n + 1`
+const migrations: Record<number, (data: any, issues: ValidationIssue[]) => any> = {
+  1: migrateFromVersion1,
+  2: migrateFromVersion2
+};
+
+export const migrateNotesFile = (data: any, issues: ValidationIssue[]): any => {
+  let migrated = data;
+  for (let version = getNotesFileVersion(data); version < NOTES_FILE_VERSION; version++) {
+    migrated = migrations[version](migrated, issues);
+  }
+  return migrated;
+};
+
+// Bring a parsed file up to the current version and check it. `content` is null when
+// nothing in the file can be imported; otherwise it holds the valid parts, and `assets`
+// the images to put in the asset store before the blocks are shown.
+export const readNotesFile = (
+  data: any,
+  blockSchema: BlockSchemaLike
+): { content: NotesContent | null; assets: Record<string, string>; issues: ValidationIssue[] } => {
+  if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+    return { content: null, assets: {}, issues: [{ path: '(file)', message: 'must be a JSON object' }] };
+  }
+  const version = getNotesFileVersion(data);
+  if (!Number.isInteger(version) || version < 1) {
+    return { content: null, assets: {}, issues: [{ path: 'version', message: `is not a valid format version: ${version}` }] };
+  }
+  if (version > NOTES_FILE_VERSION) {
+    return {
+      content: null,
+      assets: {},
+      issues: [{ path: 'version', message: `was written by a newer version of Notate (format ${version}, this app reads up to ${NOTES_FILE_VERSION})` }]
+    };
+  }
+  if (!Array.isArray(data.blocks)) {
+    return { content: null, assets: {}, issues: [{ path: 'blocks', message: 'is missing, so the file contains no notes' }] };
+  }
+
+  const issues: ValidationIssue[] = [];
+  const validated = validateNotesContent(migrateNotesFile(data, issues), blockSchema);
+  return { content: validated.content, assets: validated.assets, issues: [...issues, ...validated.issues] };
+};
@@ -0,0 +1,627 @@
+import { isAssetRef } from "./assets";
+import type { DrawingElement } from "./drawingElements";
+import { parseImageEdit } from "./imageEdit";
+import type { NotesContent } from "./notesFile";
+import { REDACTION_EFFECTS } from "./redaction";
+import type { ScribbleLayer } from "./scribbleLayer";
+
+// Validation for imported notes files. Every problem is reported with the path of the
+// offending value (e.g. `blocks[2].props.src`) and the invalid part is dropped, so the
+// caller can decide whether to import what is left.
+
+export interface ValidationIssue {
+  path: string;
+  message: string;
+}
+
+// The subset of BlockNote's `editor.schema.blockSchema` the validator relies on
+export type BlockSchemaLike = Record<string, {
+  content: 'inline' | 'table' | 'none';
+  propSchema: Record<string, { default: unknown; type?: string; values?: readonly unknown[] }>;
+}>;
+
+export interface ValidationResult {
+  content: NotesContent;
+  // Images the blocks refer to, keyed by `asset:` reference
+  assets: Record<string, string>;
+  issues: ValidationIssue[];
+}
+
+const isPlainObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isFiniteNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value);
+
+const isImageDataUrl = (value: unknown) =>
+  typeof value === 'string' && /^data:image\/[a-z0-9.+-]+[;,]/i.test(value);
+
+const hasScheme = (value: string) => /^[a-z][a-z0-9+.-]*:/i.test(value);
+
+// Links may be relative or use a web/mail scheme; anything else (javascript:, file:, ...) is refused
+const isSafeLink = (value: unknown) =>
+  typeof value === 'string' && (!hasScheme(value) || /^(https?|mailto):/i.test(value));
+
+// Images inside the notes: embedded, or kept in the asset store
+const isLocalImage = (value: unknown) => isImageDataUrl(value) || isAssetRef(value);
+
+// Media sources must be local images or web URLs
+const isSafeMediaSource = (value: unknown) =>
+  value === '' || isLocalImage(value) || (typeof value === 'string' && /^https?:\/\//i.test(value));
+
+// Block props that point at external resources get stricter checks than their type alone
+const URL_PROPS: Record<string, (value: unknown) => boolean> = {
+  src: isSafeMediaSource,
+  originalSrc: isSafeMediaSource,
+  fullSizeSrc: isSafeMediaSource,
+  url: value => value === '' || isSafeLink(value),
+  canvasData: value => value === '' || isLocalImage(value)
+};
+
+const ELEMENT_FIELDS: Record<DrawingElement['type'], string[]> = {
+  stroke: [],
+  line: ['x1', 'y1', 'x2', 'y2'],
+  arrow: ['x1', 'y1', 'x2', 'y2'],
+  connector: ['x1', 'y1', 'x2', 'y2'],
+  rect: ['x', 'y', 'width', 'height'],
+  ellipse: ['x', 'y', 'width', 'height'],
+  polygon: [],
+  text: ['x', 'y', 'fontSize'],
+  bitmap: ['x', 'y', 'width', 'height']
+};
+
+const FILL_STYLES: unknown[] = ['none', 'solid', 'hachure', 'cross-hatch'];
+const LINE_STYLES: unknown[] = ['solid', 'dashed', 'dotted'];
+const TEXT_FONTS: unknown[] = ['sans', 'serif', 'mono', 'handwritten'];
+const TEXT_ALIGNS: unknown[] = ['left', 'center', 'right'];
+
+const describe = (value: unknown) =>
+  value === null ? 'null' : Array.isArray(value) ? 'an array' : typeof value === 'string' ? JSON.stringify(value.slice(0, 40)) : typeof value;
+
+const validateElement = (element: any, path: string, issues: ValidationIssue[]): boolean => {
+  const fail = (subPath: string, message: string) => {
+    issues.push({ path: `${path}${subPath}`, message });
+    return false;
+  };
+
+  if (!isPlainObject(element)) return fail('', `must be an object, got ${describe(element)}`);
+  if (!Object.prototype.hasOwnProperty.call(ELEMENT_FIELDS, element.type)) {
+    return fail('.type', `unknown drawing element type ${describe(element.type)}`);
+  }
+  if (typeof element.id !== 'string') return fail('.id', 'must be a string');
+  if (typeof element.color !== 'string') return fail('.color', 'must be a string');
+  if (element.layerId !== undefined && typeof element.layerId !== 'string') return fail('.layerId', 'must be a string');
+  for (const field of ['opacity', 'bowing', 'cornerRadius']) {
+    if (element[field] !== undefined && !isFiniteNumber(element[field])) return fail(`.${field}`, 'must be a number');
+  }
+  if (element.fill !== undefined && typeof element.fill !== 'string') return fail('.fill', 'must be a string');
+  if (element.fillStyle !== undefined && !FILL_STYLES.includes(element.fillStyle)) {
+    return fail('.fillStyle', `must be one of ${FILL_STYLES.join(', ')}`);
+  }
+  if (element.lineStyle !== undefined && !LINE_STYLES.includes(element.lineStyle)) {
+    return fail('.lineStyle', `must be one of ${LINE_STYLES.join(', ')}`);
+  }
+
+  for (const field of ['strokeWidth', 'roughness', 'seed', ...ELEMENT_FIELDS[element.type as DrawingElement['type']]]) {
+    if (!isFiniteNumber(element[field])) return fail(`.${field}`, `must be a number, got ${describe(element[field])}`);
+  }
+
+  if (element.type === 'stroke' || element.type === 'polygon') {
+    if (!Array.isArray(element.points)) return fail('.points', 'must be an array');
+    const badPoint = element.points.findIndex((point: unknown) =>
+      !Array.isArray(point) || point.length < 2 || point.length > 5 || !point.every(isFiniteNumber));
+    if (badPoint !== -1) return fail(`.points[${badPoint}]`, 'must be an [x, y] pair of numbers, optionally followed by pressure and tilt');
+    if (element.pressureSensitivity !== undefined && !isFiniteNumber(element.pressureSensitivity)) {
+      return fail('.pressureSensitivity', 'must be a number');
+    }
+    if (element.smooth !== undefined && typeof element.smooth !== 'boolean') return fail('.smooth', 'must be true or false');
+  }
+  if (element.type === 'connector') {
+    if (element.route !== 'straight' && element.route !== 'elbow') return fail('.route', 'must be "straight" or "elbow"');
+    if (element.axis !== undefined && element.axis !== 'horizontal' && element.axis !== 'vertical') {
+      return fail('.axis', 'must be "horizontal" or "vertical"');
+    }
+    if (typeof element.arrowhead !== 'boolean') return fail('.arrowhead', 'must be true or false');
+    for (const field of ['startId', 'endId', 'label']) {
+      if (element[field] !== undefined && typeof element[field] !== 'string') return fail(`.${field}`, 'must be a string');
+    }
+  }
+  if (element.type === 'text' && typeof element.text !== 'string') return fail('.text', 'must be a string');
+  if (element.type === 'text') {
+    for (const field of ['width', 'rotation']) {
+      if (element[field] !== undefined && !isFiniteNumber(element[field])) return fail(`.${field}`, 'must be a number');
+    }
+    for (const field of ['bold', 'italic']) {
+      if (element[field] !== undefined && typeof element[field] !== 'boolean') return fail(`.${field}`, 'must be true or false');
+    }
+    if (element.fontFamily !== undefined && !TEXT_FONTS.includes(element.fontFamily)) {
+      return fail('.fontFamily', `must be one of ${TEXT_FONTS.join(', ')}`);
+    }
+    if (element.align !== undefined && !TEXT_ALIGNS.includes(element.align)) {
+      return fail('.align', `must be one of ${TEXT_ALIGNS.join(', ')}`);
+    }
+    if (element.background !== undefined && typeof element.background !== 'string') return fail('.background', 'must be a string');
+  }
+  if (element.type === 'bitmap' && !isLocalImage(element.src)) {
+    return fail('.src', 'must be an embedded image (data:image/...) or a stored one (asset:...)');
+  }
+  return true;
+};
+
+// `elements` is a JSON string prop; keep the elements that are valid and re-serialize them
+const validateElementsProp = (value: string, path: string, issues: ValidationIssue[]): string | null => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(value);
+  } catch {
+    issues.push({ path, message: 'is not valid JSON' });
+    return null;
+  }
+  if (!Array.isArray(parsed)) {
+    issues.push({ path, message: `must be a JSON array, got ${describe(parsed)}` });
+    return null;
+  }
+  const valid = parsed.filter((element, index) => validateElement(element, `${path}[${index}]`, issues));
+  return valid.length === parsed.length ? value : JSON.stringify(valid);
+};
+
+// `layers` is a JSON string prop too; layers that are malformed are dropped and their
+// elements fall back to the bottom layer
+const validateLayersProp = (value: string, path: string, issues: ValidationIssue[]): string | null => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(value);
+  } catch {
+    issues.push({ path, message: 'is not valid JSON' });
+    return null;
+  }
+  if (!Array.isArray(parsed)) {
+    issues.push({ path, message: `must be a JSON array, got ${describe(parsed)}` });
+    return null;
+  }
+  const valid = parsed.filter((layer, index) => {
+    const ok = isPlainObject(layer) && typeof layer.id === 'string' && typeof layer.name === 'string' &&
+      typeof layer.visible === 'boolean' && isFiniteNumber(layer.opacity);
+    if (!ok) issues.push({ path: `${path}[${index}]`, message: 'must be a layer with an id, name, visible flag and opacity' });
+    return ok;
+  });
+  return valid.length === parsed.length ? value : JSON.stringify(valid);
+};
+
+// Redaction marks not yet applied to an image, as a JSON array of rectangles
+const validateRedactionsProp = (value: string, path: string, issues: ValidationIssue[]): string | null => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(value);
+  } catch {
+    issues.push({ path, message: 'is not valid JSON' });
+    return null;
+  }
+  if (!Array.isArray(parsed)) {
+    issues.push({ path, message: `must be a JSON array, got ${describe(parsed)}` });
+    return null;
+  }
+  const valid = parsed.filter((mark, index) => {
+    const ok = isPlainObject(mark) && typeof mark.id === 'string' &&
+      REDACTION_EFFECTS.some(effect => effect.value === mark.effect) &&
+      ['x', 'y', 'width', 'height'].every(field => isFiniteNumber(mark[field]));
+    if (!ok) issues.push({ path: `${path}[${index}]`, message: 'must be a redaction mark with an id, effect and bounds' });
+    return ok;
+  });
+  return valid.length === parsed.length ? value : JSON.stringify(valid);
+};
+
+// A gallery's `images` prop holds a JSON array of images, each with the drawing props of
+// an image block; images that can't be shown are dropped along with their annotations
+const validateGalleryImagesProp = (value: string, path: string, issues: ValidationIssue[]): string | null => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(value);
+  } catch {
+    issues.push({ path, message: 'is not valid JSON' });
+    return null;
+  }
+  if (!Array.isArray(parsed)) {
+    issues.push({ path, message: `must be a JSON array, got ${describe(parsed)}` });
+    return null;
+  }
+  const valid = parsed.flatMap((image, index) => {
+    const imagePath = `${path}[${index}]`;
+    if (!isPlainObject(image) || typeof image.id !== 'string') {
+      issues.push({ path: imagePath, message: 'must be an image with an id' });
+      return [];
+    }
+    if (!image.src || !isSafeMediaSource(image.src)) {
+      issues.push({ path: `${imagePath}.src`, message: `is not an allowed image source: ${describe(image.src)}` });
+      return [];
+    }
+    if (!isFiniteNumber(image.width) || image.width <= 0 || !isFiniteNumber(image.height) || image.height <= 0) {
+      issues.push({ path: imagePath, message: 'must have a positive width and height' });
+      return [];
+    }
+    const elements = typeof image.elements === 'string' ? validateElementsProp(image.elements, `${imagePath}.elements`, issues) : '[]';
+    const layers = typeof image.layers === 'string' ? validateLayersProp(image.layers, `${imagePath}.layers`, issues) : '[]';
+    const redactions = typeof image.redactions === 'string'
+      ? validateRedactionsProp(image.redactions, `${imagePath}.redactions`, issues)
+      : '[]';
+    // The uncropped and full-size copies are checked like the image itself
+    const copies = (['originalSrc', 'fullSizeSrc'] as const).filter(name => {
+      if (image[name] === undefined) return false;
+      if (isSafeMediaSource(image[name])) return true;
+      issues.push({ path: `${imagePath}.${name}`, message: `is not an allowed image source: ${describe(image[name])}` });
+      return false;
+    });
+    // An edit only makes sense with the uncropped image to redo it from
+    const keepsEdit = copies.includes('originalSrc') && typeof image.imageEdit === 'string';
+    const { originalSrc: _originalSrc, fullSizeSrc: _fullSizeSrc, imageEdit: _imageEdit, ...rest } = image;
+    return [{
+      ...rest,
+      caption: typeof image.caption === 'string' ? image.caption : '',
+      elements: elements ?? '[]',
+      layers: layers ?? '[]',
+      redactions: redactions ?? '[]',
+      ...Object.fromEntries(copies.map(name => [name, image[name]])),
+      ...(keepsEdit ? { imageEdit: JSON.stringify(parseImageEdit(image.imageEdit)) } : {})
+    }];
+  });
+  return JSON.stringify(valid);
+};
+
+const validateProp = (
+  name: string,
+  value: unknown,
+  spec: BlockSchemaLike[string]['propSchema'][string],
+  path: string,
+  issues: ValidationIssue[]
+): { valid: boolean; value?: unknown } => {
+  const expectedType = spec.default !== undefined ? typeof spec.default : spec.type;
+  if (expectedType && typeof value !== expectedType) {
+    issues.push({ path, message: `must be a ${expectedType}, got ${describe(value)}` });
+    return { valid: false };
+  }
+  if (typeof value === 'number' && !Number.isFinite(value)) {
+    issues.push({ path, message: 'must be a finite number' });
+    return { valid: false };
+  }
+  if (spec.values && !spec.values.includes(value)) {
+    issues.push({ path, message: `must be one of ${spec.values.map(v => JSON.stringify(v)).join(', ')}` });
+    return { valid: false };
+  }
+  if (URL_PROPS[name] && !URL_PROPS[name](value)) {
+    issues.push({ path, message: `is not an allowed ${name === 'url' ? 'link' : 'image source'}: ${describe(value)}` });
+    return { valid: false };
+  }
+  if (name === 'elements' && typeof value === 'string') {
+    const elements = validateElementsProp(value, path, issues);
+    return elements === null ? { valid: false } : { valid: true, value: elements };
+  }
+  if (name === 'layers' && typeof value === 'string') {
+    const layers = validateLayersProp(value, path, issues);
+    return layers === null ? { valid: false } : { valid: true, value: layers };
+  }
+  if (name === 'redactions' && typeof value === 'string') {
+    const redactions = validateRedactionsProp(value, path, issues);
+    return redactions === null ? { valid: false } : { valid: true, value: redactions };
+  }
+  if (name === 'images' && typeof value === 'string') {
+    const images = validateGalleryImagesProp(value, path, issues);
+    return images === null ? { valid: false } : { valid: true, value: images };
+  }
+  return { valid: true, value };
+};
+
+const validateStyledText = (item: any, path: string, issues: ValidationIssue[]): boolean => {
+  if (!isPlainObject(item) || item.type !== 'text') {
+    issues.push({ path, message: 'must be a text item' });
+    return false;
+  }
+  if (typeof item.text !== 'string') {
+    issues.push({ path: `${path}.text`, message: 'must be a string' });
+    return false;
+  }
+  if (item.styles !== undefined && (!isPlainObject(item.styles) ||
+      Object.values(item.styles).some(style => typeof style !== 'boolean' && typeof style !== 'string'))) {
+    issues.push({ path: `${path}.styles`, message: 'must map style names to booleans or strings' });
+    return false;
+  }
+  return true;
+};
+
+const validateInlineContent = (content: any[], path: string, issues: ValidationIssue[]): any[] =>
+  content.filter((item, index) => {
+    const itemPath = `${path}[${index}]`;
+    if (typeof item === 'string') return true;
+    if (isPlainObject(item) && item.type === 'link') {
+      if (!isSafeLink(item.href)) {
+        issues.push({ path: `${itemPath}.href`, message: `is not an allowed link: ${describe(item.href)}` });
+        return false;
+      }
+      if (!Array.isArray(item.content)) {
+        issues.push({ path: `${itemPath}.content`, message: 'must be an array' });
+        return false;
+      }
+      return item.content.every((text: any, textIndex: number) =>
+        validateStyledText(text, `${itemPath}.content[${textIndex}]`, issues));
+    }
+    return validateStyledText(item, itemPath, issues);
+  });
+
+// A cell is its inline content, or a tableCell wrapping it with its own props
+const validateTableCell = (cell: any, path: string, issues: ValidationIssue[]) => {
+  if (typeof cell === 'string') return cell;
+  if (Array.isArray(cell)) return validateInlineContent(cell, path, issues);
+  if (!isPlainObject(cell) || cell.type !== 'tableCell') {
+    issues.push({ path, message: 'must be inline content or a table cell' });
+    return null;
+  }
+  const result: any = { type: 'tableCell' };
+  if (cell.props !== undefined) {
+    if (isPlainObject(cell.props) && Object.values(cell.props).every(value =>
+        typeof value === 'string' || isFiniteNumber(value))) {
+      result.props = cell.props;
+    } else {
+      issues.push({ path: `${path}.props`, message: 'must map cell props to strings or numbers' });
+    }
+  }
+  if (typeof cell.content === 'string') {
+    result.content = cell.content;
+  } else if (Array.isArray(cell.content)) {
+    result.content = validateInlineContent(cell.content, `${path}.content`, issues);
+  } else if (cell.content !== undefined) {
+    issues.push({ path: `${path}.content`, message: 'must be a string or an array of inline content' });
+  }
+  return result;
+};
+
+const validateTableContent = (content: any, path: string, issues: ValidationIssue[]) => {
+  if (!isPlainObject(content) || content.type !== 'tableContent' || !Array.isArray(content.rows)) {
+    issues.push({ path, message: 'must be table content' });
+    return null;
+  }
+  const result: any = { type: 'tableContent' };
+  if (content.columnWidths !== undefined) {
+    if (Array.isArray(content.columnWidths) &&
+        content.columnWidths.every((width: any) => width === undefined || width === null || isFiniteNumber(width))) {
+      result.columnWidths = content.columnWidths;
+    } else {
+      issues.push({ path: `${path}.columnWidths`, message: 'must be an array of numbers' });
+    }
+  }
+  (['headerRows', 'headerCols'] as const).forEach(name => {
+    if (content[name] === undefined) return;
+    if (isFiniteNumber(content[name])) {
+      result[name] = content[name];
+    } else {
+      issues.push({ path: `${path}.${name}`, message: 'must be a number' });
+    }
+  });
+  // A row that can't be read is dropped; a bad cell keeps its place as an empty one
+  result.rows = content.rows.flatMap((row: any, rowIndex: number) => {
+    const rowPath = `${path}.rows[${rowIndex}]`;
+    if (!isPlainObject(row) || !Array.isArray(row.cells)) {
+      issues.push({ path: rowPath, message: 'must be a row with an array of cells' });
+      return [];
+    }
+    return [{
+      cells: row.cells.map((cell: any, cellIndex: number) =>
+        validateTableCell(cell, `${rowPath}.cells[${cellIndex}]`, issues) ?? [])
+    }];
+  });
+  return result;
+};
+
+const validateBlock = (block: any, path: string, blockSchema: BlockSchemaLike, issues: ValidationIssue[]): any | null => {
+  if (!isPlainObject(block)) {
+    issues.push({ path, message: `must be an object, got ${describe(block)}` });
+    return null;
+  }
+  const spec = typeof block.type === 'string' ? blockSchema[block.type] : undefined;
+  if (!spec || !Object.prototype.hasOwnProperty.call(blockSchema, block.type)) {
+    issues.push({ path: `${path}.type`, message: `unknown block type ${describe(block.type)}` });
+    return null;
+  }
+  if (block.id !== undefined && typeof block.id !== 'string') {
+    issues.push({ path: `${path}.id`, message: 'must be a string' });
+    return null;
+  }
+
+  const result: any = { type: block.type };
+  if (block.id !== undefined) result.id = block.id;
+
+  // Unknown or invalid props are dropped so the block falls back to its defaults
+  if (block.props !== undefined) {
+    if (!isPlainObject(block.props)) {
+      issues.push({ path: `${path}.props`, message: 'must be an object' });
+    } else {
+      result.props = {};
+      Object.entries(block.props).forEach(([name, value]) => {
+        const propPath = `${path}.props.${name}`;
+        const propSpec = Object.prototype.hasOwnProperty.call(spec.propSchema, name) ? spec.propSchema[name] : undefined;
+        if (!propSpec) {
+          issues.push({ path: propPath, message: `is not a prop of "${block.type}" blocks` });
+          return;
+        }
+        const checked = validateProp(name, value, propSpec, propPath, issues);
+        if (checked.valid) result.props[name] = checked.value;
+      });
+    }
+  }
+
+  if (block.content !== undefined) {
+    const contentPath = `${path}.content`;
+    if (spec.content === 'inline') {
+      if (typeof block.content === 'string') {
+        result.content = block.content;
+      } else if (Array.isArray(block.content)) {
+        result.content = validateInlineContent(block.content, contentPath, issues);
+      } else {
+        issues.push({ path: contentPath, message: 'must be a string or an array of inline content' });
+      }
+    } else if (spec.content === 'table') {
+      const table = validateTableContent(block.content, contentPath, issues);
+      if (table) result.content = table;
+    } else if (!(Array.isArray(block.content) && block.content.length === 0)) {
+      issues.push({ path: contentPath, message: `"${block.type}" blocks have no content` });
+    }
+  }
+
+  if (block.children !== undefined) {
+    if (!Array.isArray(block.children)) {
+      issues.push({ path: `${path}.children`, message: 'must be an array' });
+    } else {
+      result.children = validateBlocks(block.children, `${path}.children`, blockSchema, issues);
+    }
+  }
+  return result;
+};
+
+const validateBlocks = (blocks: any[], path: string, blockSchema: BlockSchemaLike, issues: ValidationIssue[]): any[] =>
+  blocks
+    .map((block, index) => validateBlock(block, `${path}[${index}]`, blockSchema, issues))
+    .filter(block => block !== null);
+
+const validatePoint = (point: any, path: string, issues: ValidationIssue[]) => {
+  if (!isPlainObject(point) || !isFiniteNumber(point.x) || !isFiniteNumber(point.y)) {
+    issues.push({ path, message: 'must be an { x, y } point' });
+    return false;
+  }
+  return true;
+};
+
+const validateAnnotation = (annotation: any, path: string, issues: ValidationIssue[]) => {
+  if (!isPlainObject(annotation)) {
+    issues.push({ path, message: `must be an object, got ${describe(annotation)}` });
+    return null;
+  }
+  if (typeof annotation.id !== 'string') {
+    issues.push({ path: `${path}.id`, message: 'must be a string' });
+    return null;
+  }
+  if (typeof annotation.text !== 'string') {
+    issues.push({ path: `${path}.text`, message: 'must be a string' });
+    return null;
+  }
+  if (!validatePoint(annotation.startPoint, `${path}.startPoint`, issues) ||
+      !validatePoint(annotation.textBox, `${path}.textBox`, issues)) {
+    return null;
+  }
+  if (annotation.blockId !== undefined && typeof annotation.blockId !== 'string') {
+    issues.push({ path: `${path}.blockId`, message: 'must be a string' });
+    return null;
+  }
+  return {
+    id: annotation.id,
+    startPoint: { x: annotation.startPoint.x, y: annotation.startPoint.y },
+    textBox: { x: annotation.textBox.x, y: annotation.textBox.y },
+    text: annotation.text,
+    isEditing: false,
+    ...(annotation.blockId !== undefined ? { blockId: annotation.blockId } : {})
+  };
+};
+
+const validateTextbox = (textbox: any, path: string, issues: ValidationIssue[]) => {
+  if (!isPlainObject(textbox)) {
+    issues.push({ path, message: `must be an object, got ${describe(textbox)}` });
+    return null;
+  }
+  if (typeof textbox.id !== 'string') {
+    issues.push({ path: `${path}.id`, message: 'must be a string' });
+    return null;
+  }
+  if (typeof textbox.text !== 'string') {
+    issues.push({ path: `${path}.text`, message: 'must be a string' });
+    return null;
+  }
+  if (!isFiniteNumber(textbox.x) || !isFiniteNumber(textbox.y)) {
+    issues.push({ path, message: 'must have numeric x and y' });
+    return null;
+  }
+  return { id: textbox.id, x: textbox.x, y: textbox.y, text: textbox.text, isEditing: false };
+};
+
+const validateScribbleLayer = (layer: any, path: string, issues: ValidationIssue[]): ScribbleLayer | null => {
+  if (layer === null || layer === undefined) return null;
+  if (!isPlainObject(layer)) {
+    issues.push({ path, message: `must be an object or null, got ${describe(layer)}` });
+    return null;
+  }
+  if (!isImageDataUrl(layer.dataUrl)) {
+    issues.push({ path: `${path}.dataUrl`, message: 'must be an embedded image (data:image/...)' });
+    return null;
+  }
+  if (!isFiniteNumber(layer.width) || layer.width <= 0 || !isFiniteNumber(layer.height) || layer.height <= 0) {
+    issues.push({ path, message: 'must have a positive width and height' });
+    return null;
+  }
+  return {
+    dataUrl: layer.dataUrl,
+    width: layer.width,
+    height: layer.height,
+    styleWidth: typeof layer.styleWidth === 'string' ? layer.styleWidth : '',
+    styleHeight: typeof layer.styleHeight === 'string' ? layer.styleHeight : '',
+    ...(isFiniteNumber(layer.devicePixelRatio) && layer.devicePixelRatio > 0
+      ? { devicePixelRatio: layer.devicePixelRatio }
+      : {})
+  };
+};
+
+const validateAssets = (value: unknown, path: string, issues: ValidationIssue[]): Record<string, string> => {
+  if (value === undefined) return {};
+  if (!isPlainObject(value)) {
+    issues.push({ path, message: `must be an object, got ${describe(value)}` });
+    return {};
+  }
+  const assets: Record<string, string> = {};
+  for (const [ref, dataUrl] of Object.entries(value)) {
+    if (!isAssetRef(ref)) {
+      issues.push({ path: `${path}[${JSON.stringify(ref)}]`, message: 'is not an asset reference (asset:...)' });
+    } else if (!isImageDataUrl(dataUrl)) {
+      issues.push({ path: `${path}[${JSON.stringify(ref)}]`, message: 'must be an embedded image (data:image/...)' });
+    } else {
+      assets[ref] = dataUrl as string;
+    }
+  }
+  return assets;
+};
+
+const validateList = <T>(
+  value: unknown,
+  path: string,
+  issues: ValidationIssue[],
+  validateItem: (item: any, itemPath: string, issues: ValidationIssue[]) => T | null
+): T[] => {
+  if (value === undefined) return [];
+  if (!Array.isArray(value)) {
+    issues.push({ path, message: `must be an array, got ${describe(value)}` });
+    return [];
+  }
+  return value
+    .map((item, index) => validateItem(item, `${path}[${index}]`, issues))
+    .filter((item): item is T => item !== null);
+};
+
+// Validate a notes file that has already been migrated to the current version
+export const validateNotesContent = (data: any, blockSchema: BlockSchemaLike): ValidationResult => {
+  const issues: ValidationIssue[] = [];
+  const blocks = Array.isArray(data.blocks) ? validateBlocks(data.blocks, 'blocks', blockSchema, issues) : [];
+  if (!Array.isArray(data.blocks)) {
+    issues.push({ path: 'blocks', message: `must be an array, got ${describe(data.blocks)}` });
+  }
+
+  return {
+    content: {
+      blocks,
+      annotations: validateList(data.annotations, 'annotations', issues, validateAnnotation),
+      textboxes: validateList(data.textboxes, 'textboxes', issues, validateTextbox),
+      scribbleLayer: validateScribbleLayer(data.scribbleLayer, 'scribbleLayer', issues)
+    },
+    assets: validateAssets(data.assets, 'assets', issues),
+    issues
+  };
+};
+
+export const formatValidationIssues = (issues: ValidationIssue[], limit = 8) => {
+  const lines = issues.slice(0, limit).map(issue => `• ${issue.path}: ${issue.message}`);
+  if (issues.length > limit) lines.push(`…and ${issues.length - limit} more`);
+  return lines.join('\n');
+};
@@ -0,0 +1,87 @@
+import { roundCoord, type StrokePoint } from "./drawingElements";
+
+// Pen, touch and mouse input shared by drawing blocks and the scribble layer. Everything
+// here reads plain PointerEvent fields, so it behaves the same for events dispatched from
+// code (`new PointerEvent(...)`) as for real hardware.
+
+export type PressureTool = 'pen' | 'eraser' | 'scribble' | 'scribble-eraser';
+
+// How strongly pressure changes the width, from 0 (constant width) to 1
+export type PressureSettings = Record<PressureTool, number>;
+
+const PRESSURE_SETTINGS_KEY = 'notate-pressure-sensitivity';
+
+const DEFAULT_PRESSURE_SETTINGS: PressureSettings = {
+  pen: 0.6,
+  eraser: 0,
+  scribble: 0.6,
+  'scribble-eraser': 0
+};
+
+export const loadPressureSettings = (): PressureSettings => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(PRESSURE_SETTINGS_KEY) || '{}');
+    return { ...DEFAULT_PRESSURE_SETTINGS, ...stored };
+  } catch (error) {
+    console.error("Error loading pressure settings:", error);
+    return { ...DEFAULT_PRESSURE_SETTINGS };
+  }
+};
+
+export const savePressureSettings = (settings: PressureSettings) =>
+  localStorage.setItem(PRESSURE_SETTINGS_KEY, JSON.stringify(settings));
+
+export interface PointerSample {
+  pointerType: string;
+  pressure: number;
+  tiltX: number;
+  tiltY: number;
+}
+
+// Mice report 0.5 while a button is down and many touch screens report a flat 0 or 1,
+// so only pens (and touch screens that sense force) give real pressure
+export const readPointerSample = (e: PointerEvent): PointerSample => {
+  const hasPressure = e.pointerType === 'pen' || (e.pointerType === 'touch' && e.pressure > 0 && e.pressure < 1);
+  return {
+    pointerType: e.pointerType || 'mouse',
+    pressure: hasPressure ? e.pressure : 0.5,
+    tiltX: e.tiltX || 0,
+    tiltY: e.tiltY || 0
+  };
+};
+
+// Mouse points stay plain [x, y] pairs to keep saved notes small
+export const toStrokePoint = (x: number, y: number, sample: PointerSample): StrokePoint =>
+  sample.pointerType === 'mouse'
+    ? [roundCoord(x), roundCoord(y)]
+    : [roundCoord(x), roundCoord(y), Math.round(sample.pressure * 100) / 100, Math.round(sample.tiltX), Math.round(sample.tiltY)];
+
+// Every sample since the last event; browsers batch pen input between frames
+export const getCoalescedSamples = (e: PointerEvent): PointerEvent[] => {
+  const coalesced = e.getCoalescedEvents?.() ?? [];
+  return coalesced.length > 0 ? coalesced : [e];
+};
+
+// Keep following a pointer that leaves the element; synthetic pointers can't be captured
+export const capturePointer = (element: Element, pointerId: number) => {
+  try {
+    element.setPointerCapture(pointerId);
+  } catch {
+    // Not an active pointer
+  }
+};
+
+const PEN_ACTIVE_MS = 1000;
+
+// Palm rejection: while a pen is touching or hovering over the screen, and for a moment
+// after, touches come from the hand resting on the tablet and are ignored
+export const createPalmRejector = () => {
+  let penActiveUntil = 0;
+  return (e: PointerEvent) => {
+    if (e.pointerType === 'pen') {
+      penActiveUntil = e.timeStamp + PEN_ACTIVE_MS;
+      return false;
+    }
+    return e.pointerType === 'touch' && e.timeStamp < penActiveUntil;
+  };
+};
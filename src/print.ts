@@ -0,0 +1,84 @@
+// Print layout. Blocks, comments, text boxes and scribbles are all positioned in page
+// coordinates, so instead of reflowing the document the whole page is zoomed down to
+// the printable width: wide drawings fit and scribbles stay on the content they mark.
+// The browser then paginates the result; `print.css` holds the static print rules.
+
+import { hasScribbles } from './scribbleLayer';
+
+export type PaperSize = 'letter' | 'a4';
+
+interface Annotation {
+  id: string;
+  startPoint: { x: number; y: number };
+  text: string;
+}
+
+// Printable width in CSS pixels (96 per inch) once the page margins are taken off
+const PAPER: Record<PaperSize, { pageRule: string; printableWidth: number }> = {
+  letter: { pageRule: 'size: letter; margin: 0.5in;', printableWidth: 7.5 * 96 },
+  a4: { pageRule: 'size: A4; margin: 12.7mm;', printableWidth: ((210 - 2 * 12.7) / 25.4) * 96 }
+};
+
+export const printNotes = (paper: PaperSize, annotations: Annotation[], hasTextboxes: boolean) => {
+  const added: HTMLElement[] = [];
+  const hidden: HTMLElement[] = [];
+  const comments = annotations
+    .filter(annotation => annotation.text.trim())
+    .sort((a, b) => a.startPoint.y - b.startPoint.y || a.startPoint.x - b.startPoint.x);
+
+  // Keeping a block off a page break pushes it down, but scribbles, text boxes and
+  // comment markers stay where they are on the page, so blocks only get to move when
+  // nothing is drawn over them
+  const hasOverlays = comments.length > 0 || hasTextboxes || hasScribbles();
+  if (!hasOverlays) document.documentElement.setAttribute('data-print-reflow', '');
+
+  const scale = Math.min(1, PAPER[paper].printableWidth / document.documentElement.scrollWidth);
+  const style = document.createElement('style');
+  style.textContent = `@page { ${PAPER[paper].pageRule} }\n@media print { body { zoom: ${scale.toFixed(4)}; } }`;
+  document.head.appendChild(style);
+  added.push(style);
+
+  // Floating app chrome (toolbars, menus, sidebar) stays off paper
+  document.querySelectorAll<HTMLElement>('body *').forEach(element => {
+    if (getComputedStyle(element).position === 'fixed') {
+      element.setAttribute('data-print-hidden', '');
+      hidden.push(element);
+    }
+  });
+
+  // Number comments top to bottom and mark where each one points
+  if (comments.length > 0) {
+    comments.forEach((annotation, index) => {
+      const marker = document.createElement('div');
+      marker.className = 'print-endnote-marker';
+      marker.style.left = `${annotation.startPoint.x - 9}px`;
+      marker.style.top = `${annotation.startPoint.y - 9}px`;
+      marker.textContent = String(index + 1);
+      document.body.appendChild(marker);
+      added.push(marker);
+    });
+
+    const endnotes = document.createElement('section');
+    endnotes.className = 'print-endnotes';
+    const heading = document.createElement('h2');
+    heading.textContent = 'Comments';
+    const list = document.createElement('ol');
+    comments.forEach(annotation => {
+      const item = document.createElement('li');
+      item.textContent = annotation.text.trim();
+      list.appendChild(item);
+    });
+    endnotes.append(heading, list);
+    document.body.appendChild(endnotes);
+    added.push(endnotes);
+  }
+
+  const cleanUp = () => {
+    window.removeEventListener('afterprint', cleanUp);
+    added.forEach(element => element.remove());
+    hidden.forEach(element => element.removeAttribute('data-print-hidden'));
+    document.documentElement.removeAttribute('data-print-reflow');
+  };
+  window.addEventListener('afterprint', cleanUp);
+  window.print();
+};
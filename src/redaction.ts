@@ -0,0 +1,180 @@
+import type { Bounds } from "./drawingElements";
+import { parseGalleryImages } from "./galleryImages";
+import type { Matrix } from "./imageEdit";
+
+// Redaction marks on image blocks: blur, pixelate or a solid box over part of the image.
+// Marks are kept in the block's `redactions` prop and only previewed on top of the image
+// until they are applied, which redraws the image itself so what they covered is gone
+// from the block (and from every export), not just hidden under a layer.
+
+export type RedactionEffect = "blur" | "pixelate" | "box";
+
+// In block units, like drawing elements
+export interface RedactionMark extends Bounds {
+  id: string;
+  effect: RedactionEffect;
+}
+
+export const REDACTION_EFFECTS: { value: RedactionEffect; label: string }[] = [
+  { value: "blur", label: "Blur" },
+  { value: "pixelate", label: "Pixelate" },
+  { value: "box", label: "Box" }
+];
+
+// Marks smaller than this are taken to be clicks
+export const MIN_REDACTION_SIZE = 4;
+
+export const parseRedactions = (value: string | undefined): RedactionMark[] => {
+  if (!value) return [];
+  try {
+    const parsed = JSON.parse(value);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch (error) {
+    console.error("Error parsing redactions:", error);
+    return [];
+  }
+};
+
+export const serializeRedactions = (marks: RedactionMark[]) => JSON.stringify(marks);
+
+// Scratch surface the covered pixels are shrunk onto
+let scratchCanvas: HTMLCanvasElement | null = null;
+
+// Redraw the part of the canvas under `area` from a tiny copy of it. Each `blockSize`
+// square keeps only its average color, so the detail can't be recovered from the result
+const coarsen = (ctx: CanvasRenderingContext2D, area: Bounds, blockSize: number, smooth: boolean) => {
+  const columns = Math.max(1, Math.round(area.width / blockSize));
+  const rows = Math.max(1, Math.round(area.height / blockSize));
+  if (!scratchCanvas) scratchCanvas = document.createElement("canvas");
+  scratchCanvas.width = columns;
+  scratchCanvas.height = rows;
+  const scratch = scratchCanvas.getContext("2d")!;
+  scratch.imageSmoothingEnabled = true;
+  scratch.imageSmoothingQuality = "high";
+  scratch.drawImage(ctx.canvas, area.x, area.y, area.width, area.height, 0, 0, columns, rows);
+
+  ctx.save();
+  ctx.setTransform(1, 0, 0, 1, 0, 0);
+  ctx.imageSmoothingEnabled = smooth;
+  ctx.clearRect(area.x, area.y, area.width, area.height);
+  ctx.drawImage(scratchCanvas, 0, 0, columns, rows, area.x, area.y, area.width, area.height);
+  ctx.restore();
+};
+
+// Apply `mark` to whatever is already painted on the canvas. Marks are in canvas pixels
+// times `scale`, so the same marks work on the on-screen canvas and the full-size image
+export const paintRedaction = (ctx: CanvasRenderingContext2D, mark: RedactionMark, scale = 1) => {
+  const left = Math.max(0, Math.floor(mark.x * scale));
+  const top = Math.max(0, Math.floor(mark.y * scale));
+  const area = {
+    x: left,
+    y: top,
+    width: Math.min(ctx.canvas.width, Math.ceil((mark.x + mark.width) * scale)) - left,
+    height: Math.min(ctx.canvas.height, Math.ceil((mark.y + mark.height) * scale)) - top
+  };
+  if (area.width <= 0 || area.height <= 0) return;
+
+  if (mark.effect === "box") {
+    ctx.save();
+    ctx.setTransform(1, 0, 0, 1, 0, 0);
+    ctx.fillStyle = "#000";
+    ctx.fillRect(area.x, area.y, area.width, area.height);
+    ctx.restore();
+    return;
+  }
+  // Blocks big enough to hide a line of text inside the mark
+  const blockSize = Math.max(8 * scale, Math.min(area.width, area.height) / (mark.effect === "blur" ? 3 : 5));
+  coarsen(ctx, area, blockSize, mark.effect === "blur");
+};
+
+// The part of a mark that lies over `bounds`, or null if it misses them
+export const clipRedaction = (mark: RedactionMark, bounds: Bounds): RedactionMark | null => {
+  const x = Math.max(mark.x, bounds.x);
+  const y = Math.max(mark.y, bounds.y);
+  const width = Math.min(mark.x + mark.width, bounds.x + bounds.width) - x;
+  const height = Math.min(mark.y + mark.height, bounds.y + bounds.height) - y;
+  return width > 0 && height > 0 ? { ...mark, x, y, width, height } : null;
+};
+
+// Outline shown around marks that haven't been applied yet
+export const drawRedactionOutline = (ctx: CanvasRenderingContext2D, mark: RedactionMark) => {
+  ctx.save();
+  ctx.setLineDash([6, 4]);
+  ctx.strokeStyle = "#e53935";
+  ctx.lineWidth = 1.5;
+  ctx.strokeRect(mark.x, mark.y, mark.width, mark.height);
+  ctx.restore();
+};
+
+// Topmost mark under the point, if any
+export const findRedactionAt = (marks: RedactionMark[], x: number, y: number) =>
+  [...marks].reverse().find(mark =>
+    x >= mark.x && x <= mark.x + mark.width && y >= mark.y && y <= mark.y + mark.height);
+
+// Images with marks that are only previewed, in image blocks and galleries, e.g. to warn
+// before exporting them
+export const countUnappliedRedactions = (blocks: any[]): number =>
+  blocks.reduce(
+    (count, block) =>
+      count +
+      (parseRedactions(block?.props?.redactions).length > 0 ? 1 : 0) +
+      parseGalleryImages(block?.props?.images).filter(image => parseRedactions(image.redactions).length > 0).length +
+      countUnappliedRedactions(Array.isArray(block?.children) ? block.children : []),
+    0
+  );
+
+// The image with the marks burned in, at its full size. JPEG and WebP stay in their format
+export const renderRedactedImage = (img: HTMLImageElement, type: string, marks: RedactionMark[], scale: number) => {
+  const canvas = document.createElement("canvas");
+  canvas.width = img.naturalWidth;
+  canvas.height = img.naturalHeight;
+  const ctx = canvas.getContext("2d")!;
+  ctx.drawImage(img, 0, 0);
+  marks.forEach(mark => paintRedaction(ctx, mark, scale));
+  const outputType = /^image\/(jpeg|webp)$/i.test(type) ? type.toLowerCase() : "image/png";
+  return canvas.toDataURL(outputType, 0.92);
+};
+
+// An image drawn on top of the block, e.g. the flattened drawing of an older note, with
+// the marks over it burned in. `bounds` is where it sits, in the block units of the marks
+export const renderRedactedBitmap = (img: HTMLImageElement, type: string, bounds: Bounds, marks: RedactionMark[]) => {
+  const scaleX = img.naturalWidth / bounds.width || 1;
+  const scaleY = img.naturalHeight / bounds.height || 1;
+  const local = marks.flatMap(mark => {
+    const clipped = clipRedaction(mark, bounds);
+    return clipped ? [{ ...clipped, x: clipped.x - bounds.x, y: clipped.y - bounds.y }] : [];
+  });
+  return renderRedactedImage(img, type, scaleRedactions(local, scaleX, scaleY), 1);
+};
+
+// Marks follow their image when the block is resized
+export const scaleRedactions = (marks: RedactionMark[], scaleX: number, scaleY: number): RedactionMark[] =>
+  marks.map(mark => ({
+    ...mark,
+    x: mark.x * scaleX,
+    y: mark.y * scaleY,
+    width: mark.width * scaleX,
+    height: mark.height * scaleY
+  }));
+
+// Marks moved with their part of the image when it is cropped, turned or flipped. A mark
+// that ends up tilted grows to the upright box around it, so it still covers everything
+export const transformRedactions = (marks: RedactionMark[], matrix: Matrix): RedactionMark[] =>
+  marks.map(mark => {
+    const [a, b, c, d, e, f] = matrix;
+    const corners = [
+      [mark.x, mark.y],
+      [mark.x + mark.width, mark.y],
+      [mark.x, mark.y + mark.height],
+      [mark.x + mark.width, mark.y + mark.height]
+    ].map(([x, y]) => [a * x + c * y + e, b * x + d * y + f]);
+    const xs = corners.map(([x]) => x);
+    const ys = corners.map(([, y]) => y);
+    return {
+      ...mark,
+      x: Math.min(...xs),
+      y: Math.min(...ys),
+      width: Math.max(...xs) - Math.min(...xs),
+      height: Math.max(...ys) - Math.min(...ys)
+    };
+  });
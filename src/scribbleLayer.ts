@@ -0,0 +1,106 @@
+// Reading and writing the full-page scribble canvas rendered by ScribbleOverlay
+
+export interface ScribbleLayer {
+  dataUrl: string;
+  width: number;
+  height: number;
+  styleWidth: string;
+  styleHeight: string;
+  // Device pixels per CSS pixel when captured; the layer is rescaled on a screen that differs
+  devicePixelRatio?: number;
+}
+
+export const getScribbleCanvas = () =>
+  document.querySelector('.blocknote-container > div > canvas') as HTMLCanvasElement | null;
+
+// The last capture, reused until the canvas changes so autosaves after text edits
+// don't encode the whole page again; `undefined` means it needs capturing
+let cachedLayer: ScribbleLayer | null | undefined;
+
+// Called whenever the scribble canvas is drawn on, cleared or resized
+export const markScribbleLayerChanged = () => {
+  cachedLayer = undefined;
+};
+
+export const captureScribbleLayer = (): ScribbleLayer | null => {
+  if (cachedLayer !== undefined) return cachedLayer;
+  const canvas = getScribbleCanvas();
+  if (!canvas || canvas.width === 0 || canvas.height === 0) return null;
+
+  cachedLayer = {
+    dataUrl: canvas.toDataURL('image/png'),
+    width: canvas.width,
+    height: canvas.height,
+    styleWidth: canvas.style.width,
+    styleHeight: canvas.style.height,
+    devicePixelRatio: window.devicePixelRatio || 1
+  };
+  return cachedLayer;
+};
+
+// Whether anything has been scribbled on the page
+export const hasScribbles = () => {
+  const canvas = getScribbleCanvas();
+  if (!canvas || canvas.width === 0 || canvas.height === 0) return false;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return false;
+  const pixels = ctx.getImageData(0, 0, canvas.width, canvas.height).data;
+  for (let i = 3; i < pixels.length; i += 4) {
+    if (pixels[i] !== 0) return true;
+  }
+  return false;
+};
+
+// Layers saved before the ratio was recorded still have their CSS size to go by
+const getLayerPixelRatio = (layer: ScribbleLayer) => {
+  if (layer.devicePixelRatio) return layer.devicePixelRatio;
+  const styleWidth = parseFloat(layer.styleWidth);
+  return styleWidth > 0 ? layer.width / styleWidth : window.devicePixelRatio || 1;
+};
+
+// Replace the scribble canvas contents; `null` clears it
+export const restoreScribbleLayer = async (layer: ScribbleLayer | null): Promise<void> => {
+  const canvas = getScribbleCanvas();
+  if (!canvas) return;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return;
+  markScribbleLayerChanged();
+
+  if (!layer) {
+    ctx.save();
+    ctx.setTransform(1, 0, 0, 1, 0, 0);
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+    ctx.restore();
+    return;
+  }
+
+  const img = new Image();
+  await new Promise<void>((resolve, reject) => {
+    img.onload = () => resolve();
+    img.onerror = () => reject(new Error("Failed to load scribble layer"));
+    img.src = layer.dataUrl;
+  });
+
+  // Scale the layer to this screen's pixel ratio, so scribbles keep their place on the page
+  const dpr = window.devicePixelRatio || 1;
+  const scale = dpr / getLayerPixelRatio(layer);
+  const width = Math.round(layer.width * scale);
+  const height = Math.round(layer.height * scale);
+
+  // Grow the canvas if the saved layer is larger, so nothing is clipped
+  if (canvas.width < width || canvas.height < height) {
+    canvas.width = Math.max(canvas.width, width);
+    canvas.height = Math.max(canvas.height, height);
+    if (layer.styleWidth) canvas.style.width = layer.styleWidth;
+    if (layer.styleHeight) canvas.style.height = layer.styleHeight;
+    ctx.scale(dpr, dpr);
+    ctx.lineCap = 'round';
+    ctx.lineJoin = 'round';
+  }
+
+  ctx.save();
+  ctx.setTransform(1, 0, 0, 1, 0, 0);
+  ctx.clearRect(0, 0, canvas.width, canvas.height);
+  ctx.drawImage(img, 0, 0, width, height);
+  ctx.restore();
+};
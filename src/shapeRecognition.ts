@@ -0,0 +1,147 @@
+import type { DrawingElement, StrokeElement, StrokePoint } from "./drawingElements";
+
+// Shape recognition for "snap shapes": a finished pen stroke that closely follows a line,
+// arrow, rectangle, ellipse, triangle or diamond is turned into that clean shape. Every
+// test is relative to the stroke's size, so small and large sketches behave the same.
+
+type Point = { x: number; y: number };
+
+const distance = (a: Point, b: Point) => Math.hypot(a.x - b.x, a.y - b.y);
+
+const distanceToLine = (p: Point, a: Point, b: Point) => {
+  const length = distance(a, b);
+  if (length === 0) return distance(p, a);
+  return Math.abs((b.x - a.x) * (a.y - p.y) - (a.x - p.x) * (b.y - a.y)) / length;
+};
+
+const pathLength = (points: Point[]) =>
+  points.reduce((total, point, i) => (i === 0 ? 0 : total + distance(points[i - 1], point)), 0);
+
+// Ramer-Douglas-Peucker: keep only the points that carry the shape's corners
+const simplify = (points: Point[], epsilon: number): Point[] => {
+  if (points.length < 3) return points;
+  let farthest = 0;
+  let index = 0;
+  for (let i = 1; i < points.length - 1; i++) {
+    const d = distanceToLine(points[i], points[0], points[points.length - 1]);
+    if (d > farthest) {
+      farthest = d;
+      index = i;
+    }
+  }
+  if (farthest <= epsilon) return [points[0], points[points.length - 1]];
+  return [...simplify(points.slice(0, index + 1), epsilon).slice(0, -1), ...simplify(points.slice(index), epsilon)];
+};
+
+const isStraight = (points: Point[], tolerance: number) =>
+  points.every(p => distanceToLine(p, points[0], points[points.length - 1]) <= tolerance);
+
+// Corners of a closed stroke, with the seam where it starts and ends merged away
+const findCorners = (points: Point[], epsilon: number): Point[] => {
+  // Start from the point farthest from the seam so the seam doesn't read as a corner
+  const start = points.reduce((best, p, i) => (distance(p, points[0]) > distance(points[best], points[0]) ? i : best), 0);
+  const loop = [...points.slice(start), ...points.slice(1, start + 1)];
+  const corners = simplify(loop, epsilon).slice(0, -1);
+
+  // Drop corners that are really just a slight bend
+  return corners.filter((corner, i) => {
+    const prev = corners[(i - 1 + corners.length) % corners.length];
+    const next = corners[(i + 1) % corners.length];
+    const angle = Math.abs(Math.atan2(next.y - corner.y, next.x - corner.x) - Math.atan2(prev.y - corner.y, prev.x - corner.x));
+    const interior = angle > Math.PI ? 2 * Math.PI - angle : angle;
+    return interior < (160 * Math.PI) / 180;
+  });
+};
+
+// Average distance from the ellipse that fills the bounding box, relative to its size
+const ellipseError = (points: Point[], box: { x: number; y: number; width: number; height: number }) => {
+  const rx = box.width / 2;
+  const ry = box.height / 2;
+  if (rx === 0 || ry === 0) return Infinity;
+  const cx = box.x + rx;
+  const cy = box.y + ry;
+  const total = points.reduce((sum, p) => sum + Math.abs(Math.hypot((p.x - cx) / rx, (p.y - cy) / ry) - 1), 0);
+  return total / points.length;
+};
+
+const near = (p: Point, q: Point, tolerance: number) => distance(p, q) <= tolerance;
+
+export const recognizeShape = (stroke: StrokeElement): DrawingElement | null => {
+  const points = stroke.points.map(([x, y]) => ({ x, y }));
+  if (points.length < 3) return null;
+
+  const xs = points.map(p => p.x);
+  const ys = points.map(p => p.y);
+  const box = {
+    x: Math.min(...xs),
+    y: Math.min(...ys),
+    width: Math.max(...xs) - Math.min(...xs),
+    height: Math.max(...ys) - Math.min(...ys)
+  };
+  const diagonal = Math.hypot(box.width, box.height);
+  if (diagonal < 12) return null;
+
+  const { id, color, strokeWidth, seed, layerId } = stroke;
+  const base = { id, color, strokeWidth, roughness: 1, seed, ...(layerId ? { layerId } : {}) };
+  const first = points[0];
+  const last = points[points.length - 1];
+  const length = pathLength(points);
+
+  const isClosed = distance(first, last) < Math.max(diagonal * 0.2, 10) && length > diagonal * 1.5;
+  if (!isClosed) {
+    if (isStraight(points, Math.max(diagonal * 0.06, 3))) {
+      return { ...base, type: "line", x1: first.x, y1: first.y, x2: last.x, y2: last.y };
+    }
+
+    // An arrow drawn in one go: a straight shaft out to the tip, then a short hook for the head
+    const tipIndex = points.reduce((best, p, i) => (distance(p, first) > distance(points[best], first) ? i : best), 0);
+    const tip = points[tipIndex];
+    const shaft = points.slice(0, tipIndex + 1);
+    const head = points.slice(tipIndex);
+    const shaftLength = distance(first, tip);
+    if (
+      head.length > 2 &&
+      isStraight(shaft, Math.max(shaftLength * 0.08, 3)) &&
+      pathLength(head) < shaftLength * 0.8 &&
+      pathLength(head) > shaftLength * 0.1
+    ) {
+      return { ...base, type: "arrow", x1: first.x, y1: first.y, x2: tip.x, y2: tip.y };
+    }
+    return null;
+  }
+
+  if (ellipseError(points, box) < 0.08) {
+    return { ...base, type: "ellipse", ...box };
+  }
+
+  const corners = findCorners(points, diagonal * 0.08);
+  const toVertex = (p: Point): StrokePoint => [Math.round(p.x * 10) / 10, Math.round(p.y * 10) / 10];
+
+  if (corners.length === 3) {
+    return { ...base, type: "polygon", points: corners.map(toVertex) };
+  }
+
+  if (corners.length === 4) {
+    const tolerance = diagonal * 0.2;
+    const boxCorners = [
+      { x: box.x, y: box.y },
+      { x: box.x + box.width, y: box.y },
+      { x: box.x + box.width, y: box.y + box.height },
+      { x: box.x, y: box.y + box.height }
+    ];
+    if (boxCorners.every(c => corners.some(p => near(p, c, tolerance)))) {
+      return { ...base, type: "rect", ...box };
+    }
+
+    const midpoints = [
+      { x: box.x + box.width / 2, y: box.y },
+      { x: box.x + box.width, y: box.y + box.height / 2 },
+      { x: box.x + box.width / 2, y: box.y + box.height },
+      { x: box.x, y: box.y + box.height / 2 }
+    ];
+    if (midpoints.every(m => corners.some(p => near(p, m, tolerance)))) {
+      return { ...base, type: "polygon", points: midpoints.map(toVertex) };
+    }
+  }
+  return null;
+};
@@ -0,0 +1,180 @@
+import {
+  createElementId,
+  getCommonBounds,
+  translateElement,
+  type ConnectorElement,
+  type DrawingElement,
+  type StrokePoint
+} from "./drawingElements";
+
+// Stamps are small groups of drawing elements that can be placed again and again. Placing
+// one copies its elements into the drawing, so they stay editable like anything drawn by
+// hand. Custom stamps are saved in this browser only.
+
+export interface Stamp {
+  id: string;
+  name: string;
+  // Positioned with their common top-left corner at 0, 0
+  elements: DrawingElement[];
+  builtIn?: boolean;
+}
+
+const CUSTOM_STAMPS_KEY = 'notate-custom-stamps';
+
+const base = (id: string, color: string, strokeWidth: number, seed: number) => ({
+  id,
+  color,
+  strokeWidth,
+  roughness: 1,
+  seed
+});
+
+// Points around a five-pointed star centered at `c`
+const starPoints = (c: number, outer: number, inner: number): StrokePoint[] =>
+  Array.from({ length: 10 }, (_, i) => {
+    const angle = -Math.PI / 2 + (i * Math.PI) / 5;
+    const radius = i % 2 === 0 ? outer : inner;
+    return [Math.round((c + Math.cos(angle) * radius) * 10) / 10, Math.round((c + Math.sin(angle) * radius) * 10) / 10];
+  });
+
+// The classic parametric heart, scaled to about 64 units wide
+const heartPoints = (): StrokePoint[] =>
+  Array.from({ length: 32 }, (_, i) => {
+    const t = (i / 32) * Math.PI * 2;
+    const x = 16 * Math.sin(t) ** 3;
+    const y = 13 * Math.cos(t) - 5 * Math.cos(2 * t) - 2 * Math.cos(3 * t) - Math.cos(4 * t);
+    return [Math.round((32 + x * 2) * 10) / 10, Math.round((34 - y * 2) * 10) / 10];
+  });
+
+export const BUILT_IN_STAMPS: Stamp[] = [
+  {
+    id: 'check',
+    name: 'Checkmark',
+    builtIn: true,
+    elements: [{ ...base('a', '#2f9e44', 6, 11), type: 'stroke', points: [[0, 30], [20, 52], [60, 0]] }]
+  },
+  {
+    id: 'cross',
+    name: 'Cross',
+    builtIn: true,
+    elements: [
+      { ...base('a', '#e03131', 6, 12), type: 'line', x1: 0, y1: 0, x2: 48, y2: 48 },
+      { ...base('b', '#e03131', 6, 13), type: 'line', x1: 48, y1: 0, x2: 0, y2: 48 }
+    ]
+  },
+  {
+    id: 'star',
+    name: 'Star',
+    builtIn: true,
+    elements: [{ ...base('a', '#f08c00', 2, 14), type: 'polygon', points: starPoints(32, 32, 13), fill: '#ffd43b', fillStyle: 'solid' }]
+  },
+  {
+    id: 'warning',
+    name: 'Warning',
+    builtIn: true,
+    elements: [
+      { ...base('a', '#e67700', 3, 15), type: 'polygon', points: [[32, 0], [64, 56], [0, 56]], fill: '#ffe066', fillStyle: 'solid' },
+      { ...base('b', '#e67700', 0, 0), roughness: 0, type: 'text', x: 27, y: 36, text: '!', fontSize: 28, bold: true }
+    ]
+  },
+  {
+    id: 'heart',
+    name: 'Heart',
+    builtIn: true,
+    elements: [{ ...base('a', '#e03131', 2, 16), type: 'polygon', points: heartPoints(), fill: '#ff8787', fillStyle: 'solid' }]
+  },
+  {
+    id: 'question',
+    name: 'Question',
+    builtIn: true,
+    elements: [
+      { ...base('a', '#1971c2', 3, 17), type: 'ellipse', x: 0, y: 0, width: 56, height: 56 },
+      { ...base('b', '#1971c2', 0, 0), roughness: 0, type: 'text', x: 18, y: 28, text: '?', fontSize: 34, bold: true }
+    ]
+  },
+  {
+    id: 'arrow',
+    name: 'Arrow',
+    builtIn: true,
+    elements: [{ ...base('a', '#1971c2', 4, 18), type: 'arrow', x1: 0, y1: 20, x2: 80, y2: 20 }]
+  },
+  {
+    id: 'sticky-note',
+    name: 'Sticky note',
+    builtIn: true,
+    elements: [
+      { ...base('a', '#f59f00', 1, 19), type: 'rect', x: 0, y: 0, width: 160, height: 120, fill: '#fff3bf', fillStyle: 'solid' },
+      {
+        ...base('b', '#495057', 0, 0),
+        roughness: 0,
+        type: 'text',
+        x: 12,
+        y: 24,
+        text: 'Note',
+        fontSize: 18,
+        width: 136,
+        fontFamily: 'handwritten'
+      }
+    ]
+  }
+];
+
+export const loadCustomStamps = (): Stamp[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(CUSTOM_STAMPS_KEY) || '[]');
+    return Array.isArray(stored)
+      ? stored.filter(stamp => stamp && typeof stamp.name === 'string' && Array.isArray(stamp.elements))
+      : [];
+  } catch (error) {
+    console.error("Error loading custom stamps:", error);
+    return [];
+  }
+};
+
+export const saveCustomStamps = (stamps: Stamp[]) =>
+  localStorage.setItem(CUSTOM_STAMPS_KEY, JSON.stringify(stamps));
+
+// Point a connector's ends at new shape ids; an end `mapId` has no id for comes loose
+const remapConnector = (
+  connector: ConnectorElement,
+  mapId: (id: string) => string | undefined
+): ConnectorElement => {
+  const { startId, endId, ...rest } = connector;
+  const start = startId && mapId(startId);
+  const end = endId && mapId(endId);
+  return { ...rest, ...(start ? { startId: start } : {}), ...(end ? { endId: end } : {}) };
+};
+
+// A stamp made from a selection; layers and ids belong to the drawing it came from, and
+// connectors let go of shapes that were left out of the selection
+export const createStamp = (name: string, elements: DrawingElement[]): Stamp => {
+  const bounds = getCommonBounds(elements);
+  const included = new Set(elements.map(element => element.id));
+  return {
+    id: createElementId(),
+    name,
+    elements: elements.map(element => {
+      const moved = translateElement(element, -(bounds?.x ?? 0), -(bounds?.y ?? 0));
+      const { layerId: _layerId, ...copy } = moved.type === 'connector'
+        ? remapConnector(moved, id => (included.has(id) ? id : undefined))
+        : moved;
+      return copy;
+    })
+  };
+};
+
+// Fresh copies of the stamp's elements centered on `x`, `y`. Connectors inside the stamp
+// stay attached to the copies of the shapes they were attached to
+export const placeStamp = (stamp: Stamp, x: number, y: number, layerId: string): DrawingElement[] => {
+  const bounds = getCommonBounds(stamp.elements);
+  const dx = Math.round(x - (bounds ? bounds.x + bounds.width / 2 : 0));
+  const dy = Math.round(y - (bounds ? bounds.y + bounds.height / 2 : 0));
+  const ids = new Map(stamp.elements.map(element => [element.id, createElementId()]));
+
+  return stamp.elements.map(element => {
+    const moved = translateElement(element, dx, dy);
+    // Stamps saved before loose ends were dropped may still name shapes outside them
+    const placed = moved.type === 'connector' ? remapConnector(moved, id => ids.get(id)) : moved;
+    return { ...placed, id: ids.get(element.id)!, layerId };
+  });
+};
@@ -0,0 +1,118 @@
+// Thin promise wrapper around the IndexedDB database that holds autosaved notes and the
+// images they refer to
+
+const DB_NAME = 'notate';
+// Version 2 added the asset store
+const DB_VERSION = 2;
+const SNAPSHOT_STORE = 'snapshots';
+const ASSET_STORE = 'assets';
+const SESSION_OPEN_KEY = 'notate:session-open';
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!databasePromise) {
+    databasePromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(SNAPSHOT_STORE)) {
+          db.createObjectStore(SNAPSHOT_STORE);
+        }
+        if (!db.objectStoreNames.contains(ASSET_STORE)) {
+          db.createObjectStore(ASSET_STORE);
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        databasePromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return databasePromise;
+};
+
+export const saveSnapshot = async (key: string, value: unknown): Promise<void> => {
+  const db = await openDatabase();
+  await new Promise<void>((resolve, reject) => {
+    const transaction = db.transaction(SNAPSHOT_STORE, 'readwrite');
+    transaction.objectStore(SNAPSHOT_STORE).put(value, key);
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
+
+export const loadSnapshot = async <T>(key: string): Promise<T | null> => {
+  const db = await openDatabase();
+  return new Promise<T | null>((resolve, reject) => {
+    const request = db.transaction(SNAPSHOT_STORE, 'readonly').objectStore(SNAPSHOT_STORE).get(key);
+    request.onsuccess = () => resolve((request.result as T | undefined) ?? null);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+export interface StoredAsset {
+  blob: Blob;
+  createdAt: number;
+}
+
+export const saveAsset = async (id: string, asset: StoredAsset): Promise<void> => {
+  const db = await openDatabase();
+  await new Promise<void>((resolve, reject) => {
+    const transaction = db.transaction(ASSET_STORE, 'readwrite');
+    transaction.objectStore(ASSET_STORE).put(asset, id);
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
+
+export const loadAsset = async (id: string): Promise<StoredAsset | null> => {
+  const db = await openDatabase();
+  return new Promise<StoredAsset | null>((resolve, reject) => {
+    const request = db.transaction(ASSET_STORE, 'readonly').objectStore(ASSET_STORE).get(id);
+    request.onsuccess = () => resolve((request.result as StoredAsset | undefined) ?? null);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+export const hasAsset = async (id: string): Promise<boolean> => {
+  const db = await openDatabase();
+  return new Promise<boolean>((resolve, reject) => {
+    const request = db.transaction(ASSET_STORE, 'readonly').objectStore(ASSET_STORE).count(id);
+    request.onsuccess = () => resolve(request.result > 0);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+// Delete every asset `shouldDelete` picks, returning how many went
+export const deleteAssetsWhere = async (shouldDelete: (id: string, asset: StoredAsset) => boolean): Promise<number> => {
+  const db = await openDatabase();
+  return new Promise<number>((resolve, reject) => {
+    let deleted = 0;
+    const transaction = db.transaction(ASSET_STORE, 'readwrite');
+    const request = transaction.objectStore(ASSET_STORE).openCursor();
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) return;
+      if (shouldDelete(String(cursor.key), cursor.value as StoredAsset)) {
+        cursor.delete();
+        deleted++;
+      }
+      cursor.continue();
+    };
+    transaction.oncomplete = () => resolve(deleted);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
+
+// A session is "open" from load until the page is hidden; finding it still open
+// on the next load means the tab crashed or was killed before it could shut down
+export const wasLastSessionClean = () => localStorage.getItem(SESSION_OPEN_KEY) !== 'true';
+
+export const markSessionOpen = () => localStorage.setItem(SESSION_OPEN_KEY, 'true');
+
+export const markSessionClosed = () => localStorage.setItem(SESSION_OPEN_KEY, 'false');
@@ -0,0 +1,121 @@
+import type { StrokePoint } from "./drawingElements";
+
+// Freehand stroke engine: a lazy-brush stabilizer steadies the input while drawing, and
+// the recorded points are fitted with a Catmull-Rom spline and tapered at both ends when
+// rendered. Points are stored as drawn, so the fitting can improve without touching notes.
+
+export interface StrokeSettings {
+  // Smooth tapered strokes, or the hand-drawn roughjs look
+  smooth: boolean;
+  // Lazy-brush radius in screen pixels; 0 turns the stabilizer off
+  stabilizer: number;
+  // Turn finished pen strokes that look like a shape into that shape
+  snapShapes: boolean;
+}
+
+const STROKE_SETTINGS_KEY = 'notate-stroke-settings';
+
+const DEFAULT_STROKE_SETTINGS: StrokeSettings = { smooth: true, stabilizer: 4, snapShapes: false };
+
+export const loadStrokeSettings = (): StrokeSettings => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STROKE_SETTINGS_KEY) || '{}');
+    return { ...DEFAULT_STROKE_SETTINGS, ...stored };
+  } catch (error) {
+    console.error("Error loading stroke settings:", error);
+    return { ...DEFAULT_STROKE_SETTINGS };
+  }
+};
+
+export const saveStrokeSettings = (settings: StrokeSettings) =>
+  localStorage.setItem(STROKE_SETTINGS_KEY, JSON.stringify(settings));
+
+// The brush trails the pointer on a string of length `radius` and only moves once the
+// string is pulled tight, which filters out hand tremor
+export const createStabilizer = (radius: number) => {
+  let brush: { x: number; y: number } | null = null;
+  return (x: number, y: number) => {
+    if (!brush || radius <= 0) {
+      brush = { x, y };
+      return brush;
+    }
+    const distance = Math.hypot(x - brush.x, y - brush.y);
+    if (distance > radius) {
+      const pull = (distance - radius) / distance;
+      brush = { x: brush.x + (x - brush.x) * pull, y: brush.y + (y - brush.y) * pull };
+    }
+    return brush;
+  };
+};
+
+export interface StrokeSample {
+  x: number;
+  y: number;
+  pressure: number;
+}
+
+// Sample a Catmull-Rom spline through the points, about every `spacing` units
+export const fitStroke = (points: StrokePoint[], spacing = 2): StrokeSample[] => {
+  const input = points.map(([x, y, pressure]) => ({ x, y, pressure: pressure ?? 0.5 }));
+  if (input.length < 3) return input;
+
+  const samples: StrokeSample[] = [input[0]];
+  for (let i = 0; i < input.length - 1; i++) {
+    const p0 = input[Math.max(0, i - 1)];
+    const p1 = input[i];
+    const p2 = input[i + 1];
+    const p3 = input[Math.min(input.length - 1, i + 2)];
+    const steps = Math.max(1, Math.ceil(Math.hypot(p2.x - p1.x, p2.y - p1.y) / spacing));
+
+    for (let step = 1; step <= steps; step++) {
+      const t = step / steps;
+      const t2 = t * t;
+      const t3 = t2 * t;
+      const blend = (a: number, b: number, c: number, d: number) =>
+        0.5 * (2 * b + (c - a) * t + (2 * a - 5 * b + 4 * c - d) * t2 + (3 * b - a - 3 * c + d) * t3);
+      samples.push({
+        x: blend(p0.x, p1.x, p2.x, p3.x),
+        y: blend(p0.y, p1.y, p2.y, p3.y),
+        pressure: p1.pressure + (p2.pressure - p1.pressure) * t
+      });
+    }
+  }
+  return samples;
+};
+
+// Width multiplier that narrows the first and last stretch of a stroke
+export const getTaperScale = (distanceFromStart: number, distanceToEnd: number, taperLength: number) =>
+  taperLength <= 0 ? 1 : 0.3 + 0.7 * Math.min(1, distanceFromStart / taperLength, distanceToEnd / taperLength);
+
+export const getTaperLength = (totalLength: number, strokeWidth: number) =>
+  Math.min(totalLength * 0.3, 12 + strokeWidth * 4);
+
+// Stroke the fitted curve segment by segment so the width can follow pressure and taper
+export const drawSmoothStroke = (
+  ctx: CanvasRenderingContext2D,
+  points: StrokePoint[],
+  color: string,
+  strokeWidth: number,
+  widthScale: (pressure: number) => number
+) => {
+  const samples = fitStroke(points);
+  const lengths = [0];
+  for (let i = 1; i < samples.length; i++) {
+    lengths.push(lengths[i - 1] + Math.hypot(samples[i].x - samples[i - 1].x, samples[i].y - samples[i - 1].y));
+  }
+  const total = lengths[lengths.length - 1];
+  const taperLength = getTaperLength(total, strokeWidth);
+  const widthAt = (i: number) =>
+    strokeWidth * widthScale(samples[i].pressure) * getTaperScale(lengths[i], total - lengths[i], taperLength);
+
+  ctx.strokeStyle = color;
+  ctx.lineCap = "round";
+  ctx.lineJoin = "round";
+  for (let i = 1; i < samples.length; i++) {
+    ctx.beginPath();
+    ctx.lineWidth = (widthAt(i - 1) + widthAt(i)) / 2;
+    ctx.moveTo(samples[i - 1].x, samples[i - 1].y);
+    ctx.lineTo(samples[i].x, samples[i].y);
+    ctx.stroke();
+  }
+};